@@ -0,0 +1,96 @@
+// Relay for real-time board collaboration.
+//
+// Clients join a room and exchange element operations and cursor positions
+// through it. The relay keeps the merged state of each room so late joiners
+// receive a snapshot; rooms are dropped when the last client leaves.
+// Message shapes and operation validation come from src/utils/collaboration.ts,
+// which is why the relay runs through vite-node.
+//
+// Usage: npm run relay  (PORT defaults to 1234, RELAY_VERBOSE=1 logs joins and leaves)
+import { WebSocketServer } from 'ws';
+import { isValidOperation } from '../src/utils/collaboration.ts';
+
+const PORT = Number(process.env.PORT) || 1234;
+const VERBOSE = !!process.env.RELAY_VERBOSE;
+
+/** @type {Map<string, { ops: Map<string, any>, clients: Map<import('ws').WebSocket, any> }>} */
+const rooms = new Map();
+
+// Same last-writer-wins ordering as the client
+const isNewer = (a, b) => a.clock > b.clock || (a.clock === b.clock && a.clientId > b.clientId);
+
+const send = (socket, message) => {
+  if (socket.readyState === socket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+};
+
+const broadcast = (room, sender, message) => {
+  room.clients.forEach((_user, socket) => {
+    if (socket !== sender) send(socket, message);
+  });
+};
+
+const server = new WebSocketServer({ port: PORT });
+
+server.on('connection', (socket) => {
+  let roomName = null;
+  let room = null;
+  let user = null;
+
+  socket.on('message', (raw) => {
+    let message;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      return;
+    }
+    if (typeof message !== 'object' || message === null) return;
+
+    if (message.type === 'join' && !room && message.room && message.user?.id) {
+      user = message.user;
+      roomName = message.room;
+      if (!rooms.has(roomName)) {
+        rooms.set(roomName, { ops: new Map(), clients: new Map() });
+      }
+      room = rooms.get(roomName);
+
+      send(socket, { type: 'snapshot', ops: [...room.ops.values()], peers: [...room.clients.values()] });
+      broadcast(room, socket, { type: 'peer-joined', user });
+      room.clients.set(socket, user);
+      if (VERBOSE) console.log(`${user.name} joined ${roomName} (${room.clients.size} connected)`);
+      return;
+    }
+
+    if (!room) return;
+
+    if (message.type === 'ops' && Array.isArray(message.ops)) {
+      // Malformed operations are dropped rather than stored or relayed
+      const ops = message.ops.filter(isValidOperation);
+      if (ops.length === 0) return;
+      ops.forEach(op => {
+        const current = room.ops.get(op.id);
+        if (!current || isNewer(op, current)) {
+          room.ops.set(op.id, op);
+        }
+      });
+      broadcast(room, socket, { type: 'ops', ops });
+    } else if (message.type === 'cursor') {
+      broadcast(room, socket, { type: 'cursor', userId: user.id, position: message.position ?? null });
+    }
+  });
+
+  socket.on('close', () => {
+    if (!room) return;
+
+    room.clients.delete(socket);
+    broadcast(room, socket, { type: 'peer-left', userId: user.id });
+    if (VERBOSE) console.log(`${user.name} left ${roomName} (${room.clients.size} connected)`);
+
+    if (room.clients.size === 0) {
+      rooms.delete(roomName);
+    }
+  });
+});
+
+console.log(`Collaboration relay listening on ws://localhost:${PORT}`);
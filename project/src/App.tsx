@@ -1,35 +1,157 @@
-import React, { useState, useRef } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
 import Whiteboard, { WhiteboardRef } from './components/Whiteboard';
 import CodePreview from './components/CodePreview';
 import ToolPalette from './components/ToolPalette';
 import Header from './components/Header';
 import MentorPanel from './components/MentorPanel';
-import { CanvasElement, Tool, Mode, MentorSession, WhiteboardSettings } from './types';
-import { AICodeGenerator, DrawingData } from './utils/aiIntegration';
-import { downloadSVG, downloadImage, downloadPDF } from './utils/downloadUtils';
+import RefinementChat from './components/RefinementChat';
+import { Board, BoardSummary, CanvasElement, ConnectorRouting, DesignTheme, DownloadFormat, GenerationRecord, OutputTarget, StencilKind, Tool, Mode, MentorSession, WhiteboardSettings } from './types';
+import { AICodeGenerator, ComponentGenerator, DrawingData, GeneratedComponent } from './utils/aiIntegration';
+import { RuleBasedCodeGenerator } from './utils/ruleBasedGenerator';
+import { DEFAULT_OUTPUT_TARGET, getOutputTarget } from './utils/outputTargets';
+import { PAGE_TARGETS, PageSetGenerator } from './utils/pageGenerator';
+import { captureBoardImage } from './utils/boardImage';
+import { importCode } from './utils/codeImport';
+import { getElementsBounds, translateElement } from './utils/elementGeometry';
+import { createElementId } from './utils/elementIds';
+import { isFrame } from './utils/frames';
+import { splitFiles } from './utils/generatedFiles';
+import { downloadSVG, downloadImage, downloadPDF, downloadBoardFile, downloadArchive } from './utils/downloadUtils';
+import { buildViteProject, canExportProject } from './utils/projectExport';
+import { parseBoardFile, serializeBoard } from './utils/boardFormat';
+import {
+  ProviderConfig,
+  createProvider,
+  isProviderConfigured,
+  loadProviderConfig,
+  isAbortError,
+  saveProviderConfig,
+} from './utils/llmProviders';
 import { mentorService } from './utils/mentorService';
 import HistoryManager from './utils/historyManager';
+import { MAX_GENERATIONS, boardStorage } from './utils/boardStorage';
+import {
+  CollabConfig,
+  CollabStatus,
+  CollabUser,
+  CollaborationSession,
+  RemoteCursor,
+  loadCollabUser,
+  saveCollabUser,
+} from './utils/collaboration';
+
+const AUTOSAVE_DELAY = 500;
 
 function App() {
+  const [initialBoard] = useState<Board>(() => boardStorage.loadInitialBoard());
+  const [activeBoardId, setActiveBoardId] = useState(initialBoard.id);
+  const [boards, setBoards] = useState<BoardSummary[]>(() => boardStorage.listBoards());
   const [selectedTool, setSelectedTool] = useState<Tool>('pen');
-  const [canvasElements, setCanvasElements] = useState<CanvasElement[]>([]);
-  const [generatedCode, setGeneratedCode] = useState<string>('');
+  const [stencilKind, setStencilKind] = useState<StencilKind>('button');
+  const [connectorRouting, setConnectorRouting] = useState<ConnectorRouting>('straight');
+  const [canvasElements, setCanvasElements] = useState<CanvasElement[]>(initialBoard.elements);
+  const [generatedCode, setGeneratedCode] = useState<string>(initialBoard.generatedCode);
+  const [outputTarget, setOutputTarget] = useState<OutputTarget>(initialBoard.outputTarget || DEFAULT_OUTPUT_TARGET);
+  const [theme, setTheme] = useState<DesignTheme | undefined>(initialBoard.theme);
+  const [generations, setGenerations] = useState<GenerationRecord[]>(initialBoard.generations || []);
   const [isGenerating, setIsGenerating] = useState(false);
+  // Code received so far while a generation streams in
+  const [streamingCode, setStreamingCode] = useState('');
+  // Links between the board and the generated code, read from its element id attributes
+  const [selectedElementIds, setSelectedElementIds] = useState<string[]>([]);
+  const [hoveredElementId, setHoveredElementId] = useState<string | null>(null);
+  const highlightedIds = useMemo(() => (hoveredElementId ? [hoveredElementId] : []), [hoveredElementId]);
   const [mode, setMode] = useState<Mode>('code');
   const [currentSession, setCurrentSession] = useState<MentorSession | null>(null);
-  const [settings, setSettings] = useState<WhiteboardSettings>({
-    strokeColor: '#374151',
-    fillColor: 'transparent',
-    strokeWidth: 2,
-    fontSize: 16,
-  });
-  const apiKey = import.meta.env.VITE_GEMINI_API_KEY || '';
+  const [settings, setSettings] = useState<WhiteboardSettings>(initialBoard.settings);
+  const [providerConfig, setProviderConfig] = useState<ProviderConfig>(() => loadProviderConfig());
+  const hasProvider = isProviderConfigured(providerConfig);
   const whiteboardRef = useRef<WhiteboardRef>(null);
   const historyManager = useRef(new HistoryManager());
+  const collabSession = useRef<CollaborationSession | null>(null);
+  const generationController = useRef<AbortController | null>(null);
+  const [collabUser, setCollabUser] = useState<CollabUser>(() => loadCollabUser());
+  const [collabStatus, setCollabStatus] = useState<CollabStatus>('disconnected');
+  const [collabError, setCollabError] = useState<string>();
+  const [collabPeers, setCollabPeers] = useState<CollabUser[]>([]);
+  const [remoteCursors, setRemoteCursors] = useState<RemoteCursor[]>([]);
+
+  // Undo history starts from the board as it was loaded
+  useEffect(() => {
+    historyManager.current.clear(initialBoard.elements);
+  }, [initialBoard]);
+
+  // Autosave the active board shortly after its contents change
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      boardStorage.saveBoard(activeBoardId, { elements: canvasElements, generatedCode, outputTarget, theme, generations, settings });
+      setBoards(boardStorage.listBoards());
+    }, AUTOSAVE_DELAY);
+
+    return () => clearTimeout(timeout);
+  }, [activeBoardId, canvasElements, generatedCode, outputTarget, theme, generations, settings]);
+
+  const openBoard = (board: Board) => {
+    // A collaboration room shares one board, so leave it when switching
+    handleLeaveRoom();
+
+    // Flush pending edits of the board we are leaving
+    boardStorage.saveBoard(activeBoardId, { elements: canvasElements, generatedCode, outputTarget, theme, generations, settings });
+    boardStorage.setActiveBoardId(board.id);
+
+    setActiveBoardId(board.id);
+    setCanvasElements(board.elements);
+    setGeneratedCode(board.generatedCode);
+    setOutputTarget(board.outputTarget || DEFAULT_OUTPUT_TARGET);
+    setTheme(board.theme);
+    setGenerations(board.generations || []);
+    setSettings(board.settings);
+    historyManager.current.clear(board.elements);
+    setBoards(boardStorage.listBoards());
+  };
+
+  const handleOpenBoard = (id: string) => {
+    const board = boardStorage.getBoard(id);
+    if (board && id !== activeBoardId) {
+      openBoard(board);
+    }
+  };
+
+  const handleCreateBoard = () => {
+    openBoard(boardStorage.createBoard());
+  };
+
+  const handleRenameBoard = (id: string, name: string) => {
+    boardStorage.renameBoard(id, name);
+    setBoards(boardStorage.listBoards());
+  };
+
+  const handleDuplicateBoard = (id: string) => {
+    // Make sure the copy includes edits that have not been autosaved yet
+    if (id === activeBoardId) {
+      boardStorage.saveBoard(activeBoardId, { elements: canvasElements, generatedCode, outputTarget, theme, generations, settings });
+    }
+    const copy = boardStorage.duplicateBoard(id);
+    if (copy) {
+      openBoard(copy);
+    }
+  };
+
+  const handleDeleteBoard = (id: string) => {
+    boardStorage.deleteBoard(id);
+
+    if (id === activeBoardId) {
+      const next = boardStorage.listBoards()[0];
+      openBoard((next && boardStorage.getBoard(next.id)) || boardStorage.createBoard());
+    } else {
+      setBoards(boardStorage.listBoards());
+    }
+  };
 
   const handleElementsChange = (elements: CanvasElement[]) => {
     setCanvasElements(elements);
     historyManager.current.addState(elements);
+    collabSession.current?.publishElements(elements);
     
     // Update mentor session if active
     if (currentSession && mentorService.isSessionActive()) {
@@ -37,45 +159,163 @@ function App() {
     }
   };
 
+  // Shows elements that were not drawn on the whiteboard itself, e.g. from undo or collaborators
+  const showElements = (elements: CanvasElement[]) => {
+    whiteboardRef.current?.replaceElements(elements, false);
+    setCanvasElements(elements);
+
+    if (mentorService.isSessionActive()) {
+      mentorService.updateElements(elements);
+    }
+  };
+
+  const handleJoinRoom = (config: CollabConfig) => {
+    const user = { ...collabUser, name: config.name };
+    setCollabUser(user);
+    saveCollabUser(user);
+
+    collabSession.current?.disconnect();
+    const session = new CollaborationSession(user, {
+      onElements: (elements) => {
+        showElements(elements);
+        historyManager.current.syncState(elements);
+      },
+      onPeers: setCollabPeers,
+      onCursors: setRemoteCursors,
+      onStatus: (status, error) => {
+        setCollabStatus(status);
+        setCollabError(error);
+      },
+    });
+    collabSession.current = session;
+    session.connect(config, canvasElements);
+  };
+
+  const handleLeaveRoom = () => {
+    collabSession.current?.disconnect();
+    collabSession.current = null;
+  };
+
   const handleSettingsChange = (newSettings: Partial<WhiteboardSettings>) => {
     setSettings(prev => ({ ...prev, ...newSettings }));
   };
 
+  const handleProviderConfigChange = (config: ProviderConfig) => {
+    saveProviderConfig(config);
+    setProviderConfig(config);
+  };
+
+  const recordGeneration = (record: Omit<GenerationRecord, 'id' | 'createdAt'>) => {
+    const createdAt = Date.now();
+    setGenerations(prev => [
+      { ...record, id: `${createdAt.toString(36)}-${Math.random().toString(36).slice(2, 8)}`, createdAt },
+      ...prev,
+    ].slice(0, MAX_GENERATIONS));
+  };
+
+  const getDrawingData = (): DrawingData => {
+    // Get canvas dimensions from the whiteboard component
+    const canvas = document.querySelector('canvas');
+    // Only rendered when it will be sent, since offline generation has no use for it
+    const exportCanvas = hasProvider && providerConfig.sendImage ? whiteboardRef.current?.getExportCanvas() : null;
+    return {
+      elements: canvasElements,
+      canvas: {
+        width: canvas?.width || 800,
+        height: canvas?.height || 600
+      },
+      image: (exportCanvas && captureBoardImage(exportCanvas)) || undefined,
+      legend: settings.legend
+    };
+  };
+
   const handleGenerateCode = async () => {
-    if (!apiKey) {
-      alert('Gemini API key not found. Please check your .env file.');
+    if (canvasElements.length === 0) {
+      alert('Please draw something on the whiteboard first!');
       return;
     }
 
-    if (canvasElements.length === 0) {
-      alert('Please draw something on the whiteboard first!');
+    if (!hasProvider && outputTarget !== DEFAULT_OUTPUT_TARGET) {
+      alert(`Offline generation only supports ${getOutputTarget(DEFAULT_OUTPUT_TARGET).label}. Configure an AI provider in Settings to generate ${getOutputTarget(outputTarget).label}.`);
       return;
     }
 
+    // Boards with frames are generated as one page per frame plus a router
+    const hasFrames = canvasElements.some(isFrame);
+    if (hasFrames && !PAGE_TARGETS.includes(outputTarget)) {
+      alert(`Boards with frames generate a multi-page React app. Switch the output to ${PAGE_TARGETS.map(target => getOutputTarget(target).label).join(' or ')} to generate pages.`);
+      return;
+    }
+
+    const controller = new AbortController();
+    generationController.current = controller;
+    setStreamingCode('');
     setIsGenerating(true);
     try {
-      const aiGenerator = new AICodeGenerator(apiKey);
+      // Without a configured provider, fall back to the offline rule-based generator
+      const provider = hasProvider ? createProvider(providerConfig) : null;
+      const componentGenerator: ComponentGenerator = provider
+        ? new AICodeGenerator(provider, outputTarget, { autoRepair: providerConfig.autoRepair, theme })
+        : new RuleBasedCodeGenerator();
+      const generator = hasFrames ? new PageSetGenerator(componentGenerator, outputTarget) : componentGenerator;
       
-      // Get canvas dimensions from the whiteboard component
-      const canvas = document.querySelector('canvas');
-      const canvasData: DrawingData = {
-        elements: canvasElements,
-        canvas: {
-          width: canvas?.width || 800,
-          height: canvas?.height || 600
-        }
-      };
-
-      const result = await aiGenerator.generateComponent(canvasData);
+      const result = await generator.generateComponent(getDrawingData(), {
+        signal: controller.signal,
+        onProgress: setStreamingCode,
+      });
       setGeneratedCode(result.code);
+      recordGeneration({
+        source: provider ? 'ai' : 'offline',
+        generator: provider ? provider.name : 'Rule-based generator',
+        outputTarget,
+        elements: canvasElements,
+        prompt: result.prompt || '',
+        code: result.code,
+      });
     } catch (error) {
+      // Stopping keeps the previous code without complaint
+      if (isAbortError(error)) return;
       console.error('Error generating code:', error);
-      alert('Failed to generate code. Please check your API key and try again.');
+      alert(`${error instanceof Error ? error.message : 'Failed to generate code.'}\n\nPlease check your provider settings and try again.`);
     } finally {
+      generationController.current = null;
+      setStreamingCode('');
       setIsGenerating(false);
     }
   };
 
+  const handleStopGeneration = () => {
+    generationController.current?.abort();
+  };
+
+  const handleRefineCode = (instruction: string, previousInstructions: string[]) => {
+    const generator = new AICodeGenerator(createProvider(providerConfig), outputTarget, { autoRepair: providerConfig.autoRepair, theme });
+    return generator.refineComponent(getDrawingData(), generatedCode, instruction, previousInstructions);
+  };
+
+  const handleAcceptRefinement = (revision: GeneratedComponent, instruction: string) => {
+    setGeneratedCode(revision.code);
+    recordGeneration({
+      source: 'refinement',
+      generator: createProvider(providerConfig).name,
+      outputTarget,
+      elements: canvasElements,
+      prompt: revision.prompt || '',
+      code: revision.code,
+      instruction,
+    });
+  };
+
+  const handleRestoreGeneration = (id: string) => {
+    const record = generations.find(generation => generation.id === id);
+    if (!record) return;
+
+    // Restore the drawing through the whiteboard so its canvas and history stay in sync
+    whiteboardRef.current?.replaceElements(JSON.parse(JSON.stringify(record.elements)));
+    setGeneratedCode(record.code);
+    setOutputTarget(record.outputTarget);
+  };
+
   const handleClear = () => {
     whiteboardRef.current?.clearCanvas();
     setGeneratedCode('');
@@ -85,16 +325,16 @@ function App() {
   const handleUndo = () => {
     const previousState = historyManager.current.undo();
     if (previousState) {
-      setCanvasElements(previousState);
-      handleElementsChange(previousState);
+      showElements(previousState);
+      collabSession.current?.publishElements(previousState);
     }
   };
 
   const handleRedo = () => {
     const nextState = historyManager.current.redo();
     if (nextState) {
-      setCanvasElements(nextState);
-      handleElementsChange(nextState);
+      showElements(nextState);
+      collabSession.current?.publishElements(nextState);
     }
   };
 
@@ -128,7 +368,7 @@ function App() {
   const handleAddElementFromAI = (instruction: string) => {
     // Add AI instruction as a text element to the whiteboard
     const newElement: CanvasElement = {
-      id: Date.now().toString(),
+      id: createElementId(),
       type: 'text',
       data: { text: instruction },
       position: { x: 50, y: 50 + (canvasElements.length * 30) }, // Stack elements vertically
@@ -144,13 +384,63 @@ function App() {
     }
   };
 
-  const handleDownload = (format: 'svg' | 'png' | 'jpg' | 'pdf') => {
+  const handleImportBoard = async (file: File) => {
+    try {
+      const { board, issues } = parseBoardFile(await file.text());
+      openBoard(boardStorage.createBoard(board.name, {
+        elements: board.elements,
+        settings: board.settings,
+        theme: board.theme,
+      }));
+
+      if (issues.length > 0) {
+        alert(`Imported "${board.name}" with ${issues.length} problem(s):\n\n${issues.slice(0, 10).join('\n')}` +
+          (issues.length > 10 ? `\n...and ${issues.length - 10} more` : ''));
+      }
+    } catch (error) {
+      console.error('Error importing board:', error);
+      alert(`Failed to import board: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  // Places the wireframe to the right of the drawing so nothing already drawn is covered
+  const handleImportCode = async (source: string) => {
+    try {
+      const imported = await importCode(source, { color: settings.strokeColor, strokeWidth: settings.strokeWidth });
+      const bounds = getElementsBounds(canvasElements);
+      const offset = bounds ? { x: bounds.x + bounds.width + 80, y: bounds.y } : { x: 40, y: 40 };
+      whiteboardRef.current?.addElements(imported.map(element => translateElement(element, offset.x, offset.y)));
+      return true;
+    } catch (error) {
+      console.error('Error importing code:', error);
+      alert(`Failed to import code: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return false;
+    }
+  };
+
+  const handleExportProject = () => {
+    if (!generatedCode) {
+      alert('Generate code first, then export it as a project.');
+      return;
+    }
+    if (!canExportProject(outputTarget)) {
+      alert(`Project export creates a Vite + React app, which is not available for ${getOutputTarget(outputTarget).label}.`);
+      return;
+    }
+
+    const boardName = boards.find(board => board.id === activeBoardId)?.name || 'Untitled board';
+    const project = buildViteProject(boardName, generatedCode, theme);
+    downloadArchive(project.entries, project.filename);
+  };
+
+  const handleDownload = (format: DownloadFormat) => {
     if (!whiteboardRef.current) {
       alert('Whiteboard not available for download');
       return;
     }
 
-    const canvas = whiteboardRef.current.getCanvasRef();
+    // Exports cover everything drawn in world coordinates, not just the visible viewport
+    const canvas = whiteboardRef.current.getExportCanvas();
     const elements = whiteboardRef.current.getElements();
     const dimensions = whiteboardRef.current.getCanvasDimensions();
 
@@ -161,7 +451,7 @@ function App() {
 
     switch (format) {
       case 'svg':
-        downloadSVG(elements, dimensions.width, dimensions.height);
+        downloadSVG(elements, whiteboardRef.current.getExportBounds());
         break;
       case 'png':
         downloadImage(canvas, 'png');
@@ -172,6 +462,11 @@ function App() {
       case 'pdf':
         downloadPDF(canvas);
         break;
+      case 'json': {
+        const boardName = boards.find(board => board.id === activeBoardId)?.name || 'Untitled board';
+        downloadBoardFile(serializeBoard(boardName, elements, dimensions, settings, theme));
+        break;
+      }
       default:
         alert('Unsupported format');
     }
@@ -180,10 +475,28 @@ function App() {
   return (
     <div className="min-h-screen bg-gray-50 flex flex-col">
       <Header 
-        hasApiKey={!!apiKey}
+        hasApiKey={hasProvider}
+        providerConfig={providerConfig}
+        onProviderConfigChange={handleProviderConfigChange}
         onDownload={handleDownload}
+        onImportBoard={handleImportBoard}
+        onImportCode={handleImportCode}
+        generatedCode={generatedCode}
         mode={mode}
         onModeChange={handleModeChange}
+        boards={boards}
+        activeBoardId={activeBoardId}
+        onOpenBoard={handleOpenBoard}
+        onCreateBoard={handleCreateBoard}
+        onRenameBoard={handleRenameBoard}
+        onDuplicateBoard={handleDuplicateBoard}
+        onDeleteBoard={handleDeleteBoard}
+        collabStatus={collabStatus}
+        collabError={collabError}
+        collabUser={collabUser}
+        collabPeers={collabPeers}
+        onJoinRoom={handleJoinRoom}
+        onLeaveRoom={handleLeaveRoom}
       />
       
       <div className="flex-1 flex">
@@ -191,7 +504,19 @@ function App() {
         <ToolPalette 
           selectedTool={selectedTool}
           onToolSelect={setSelectedTool}
+          stencilKind={stencilKind}
+          onStencilSelect={(kind) => {
+            setStencilKind(kind);
+            setSelectedTool('stencil');
+          }}
+          connectorRouting={connectorRouting}
+          onConnectorRoutingSelect={(routing) => {
+            setConnectorRouting(routing);
+            setSelectedTool('connector');
+          }}
           onGenerateCode={handleGenerateCode}
+          onExportProject={handleExportProject}
+          canExportProject={!!generatedCode && canExportProject(outputTarget)}
           onClear={handleClear}
           onUndo={handleUndo}
           onRedo={handleRedo}
@@ -207,20 +532,54 @@ function App() {
           {/* Whiteboard */}
           <div className="flex-1 p-4">
             <Whiteboard 
+              key={activeBoardId}
               ref={whiteboardRef}
               selectedTool={selectedTool}
+              stencilKind={stencilKind}
+              connectorRouting={connectorRouting}
               onElementsChange={handleElementsChange}
               settings={settings}
+              initialElements={canvasElements}
+              remoteCursors={remoteCursors}
+              onCursorMove={(position) => collabSession.current?.sendCursor(position)}
+              highlightedIds={highlightedIds}
+              onSelectionChange={setSelectedElementIds}
             />
           </div>
           
           {/* Code Preview or Mentor Panel */}
           <div className="w-1/3 border-l border-gray-200">
             {mode === 'code' ? (
-              <CodePreview 
-                code={generatedCode}
-                isGenerating={isGenerating}
-              />
+              <div className="h-full flex flex-col">
+                <div className="flex-1 min-h-0">
+                  <CodePreview 
+                    code={generatedCode}
+                    isGenerating={isGenerating}
+                    usesAI={hasProvider}
+                    streamingCode={streamingCode}
+                    onStopGeneration={handleStopGeneration}
+                    outputTarget={outputTarget}
+                    onOutputTargetChange={setOutputTarget}
+                    theme={theme}
+                    onThemeChange={setTheme}
+                    generations={generations}
+                    onRestoreGeneration={handleRestoreGeneration}
+                    onExportProject={handleExportProject}
+                    selectedElementIds={selectedElementIds}
+                    onHoverElement={setHoveredElementId}
+                  />
+                </div>
+                {/* Page sets span several files, which refinement cannot rewrite as a whole */}
+                {generatedCode && !isGenerating && splitFiles(generatedCode).length === 0 && (
+                  <RefinementChat
+                    key={activeBoardId}
+                    code={generatedCode}
+                    canRefine={hasProvider}
+                    onRefine={handleRefineCode}
+                    onAccept={handleAcceptRefinement}
+                  />
+                )}
+              </div>
             ) : (
               <div className="h-full p-4">
                 <MentorPanel
@@ -0,0 +1,142 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ChevronDown, Copy, LayoutGrid, Pencil, Plus, Trash2 } from 'lucide-react';
+import { BoardSummary } from '../types';
+
+interface BoardLibraryProps {
+  boards: BoardSummary[];
+  activeBoardId: string;
+  onOpen: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const BoardLibrary: React.FC<BoardLibraryProps> = ({
+  boards,
+  activeBoardId,
+  onOpen,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const activeBoard = boards.find(board => board.id === activeBoardId);
+
+  const handleOpen = (id: string) => {
+    onOpen(id);
+    setIsOpen(false);
+  };
+
+  const handleCreate = () => {
+    onCreate();
+    setIsOpen(false);
+  };
+
+  const handleRename = (board: BoardSummary) => {
+    const name = prompt('Rename board:', board.name);
+    if (name && name.trim()) {
+      onRename(board.id, name.trim());
+    }
+  };
+
+  const handleDelete = (board: BoardSummary) => {
+    if (confirm(`Delete "${board.name}"? This cannot be undone.`)) {
+      onDelete(board.id);
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        className="flex items-center space-x-2 px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-100 rounded-lg transition-colors"
+        onClick={() => setIsOpen(!isOpen)}
+        title="Boards"
+      >
+        <LayoutGrid className="w-4 h-4" />
+        <span className="max-w-40 truncate">{activeBoard?.name || 'Untitled board'}</span>
+        <ChevronDown className="w-3 h-3" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-0 mt-2 w-80 bg-white rounded-lg shadow-lg border border-gray-200 z-50">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200">
+            <span className="text-sm font-medium text-gray-900">Boards</span>
+            <button
+              onClick={handleCreate}
+              className="flex items-center space-x-1 px-2 py-1 text-xs font-medium text-blue-600 hover:bg-blue-50 rounded transition-colors"
+            >
+              <Plus className="w-3 h-3" />
+              <span>New board</span>
+            </button>
+          </div>
+
+          <ul className="max-h-80 overflow-y-auto py-1">
+            {boards.map(board => (
+              <li
+                key={board.id}
+                className={`group flex items-center justify-between px-4 py-2 ${
+                  board.id === activeBoardId ? 'bg-blue-50' : 'hover:bg-gray-50'
+                }`}
+              >
+                <button
+                  onClick={() => handleOpen(board.id)}
+                  className="flex-1 text-left min-w-0"
+                >
+                  <div className="text-sm text-gray-800 truncate">{board.name}</div>
+                  <div className="text-xs text-gray-500">
+                    Edited {new Date(board.updatedAt).toLocaleString()}
+                  </div>
+                </button>
+                <div className="flex items-center space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={() => handleRename(board)}
+                    className="p-1 text-gray-500 hover:text-gray-900 rounded"
+                    title="Rename"
+                  >
+                    <Pencil className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={() => onDuplicate(board.id)}
+                    className="p-1 text-gray-500 hover:text-gray-900 rounded"
+                    title="Duplicate"
+                  >
+                    <Copy className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(board)}
+                    className="p-1 text-gray-500 hover:text-red-600 rounded"
+                    title="Delete"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BoardLibrary;
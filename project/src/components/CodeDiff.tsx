@@ -0,0 +1,95 @@
+import React, { useMemo } from 'react';
+import { DiffLine, collapseUnchanged, diffLines, diffStats, toSplitRows } from '../utils/textDiff';
+
+interface CodeDiffProps {
+  oldCode: string;
+  newCode: string;
+  view?: 'unified' | 'split';
+  oldLabel?: string;
+  newLabel?: string;
+  heightClass?: string;
+}
+
+const LINE_STYLES: Record<DiffLine['type'], string> = {
+  added: 'bg-green-900/40 text-green-200',
+  removed: 'bg-red-900/40 text-red-200',
+  unchanged: 'text-gray-400',
+};
+
+const LINE_MARKERS: Record<DiffLine['type'], string> = {
+  added: '+',
+  removed: '-',
+  unchanged: ' ',
+};
+
+const collapsedText = (count: number) => `⋯ ${count} unchanged line${count === 1 ? '' : 's'}`;
+
+const CodeDiff: React.FC<CodeDiffProps> = ({
+  oldCode,
+  newCode,
+  view = 'unified',
+  oldLabel,
+  newLabel,
+  heightClass = 'max-h-64',
+}) => {
+  const lines = useMemo(() => diffLines(oldCode, newCode), [oldCode, newCode]);
+  const rows = useMemo(() => collapseUnchanged(lines), [lines]);
+  const splitRows = useMemo(() => (view === 'split' ? toSplitRows(rows) : []), [rows, view]);
+  const stats = diffStats(lines);
+
+  if (stats.added === 0 && stats.removed === 0) {
+    return <div className="text-xs text-gray-400 italic">No changes</div>;
+  }
+
+  const renderSide = (line: DiffLine | undefined, side: 'left' | 'right') => {
+    if (!line) {
+      return <div className="bg-gray-800/40" />;
+    }
+    const number = side === 'left' ? line.oldLine : line.newLine;
+    return (
+      <div className={`flex whitespace-pre min-w-0 ${LINE_STYLES[line.type]}`}>
+        <span className="w-8 flex-shrink-0 pr-2 text-right text-gray-600 select-none">{number}</span>
+        <span className="overflow-hidden text-ellipsis">{line.text}</span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="rounded border border-gray-700 overflow-hidden">
+      <div className="px-2 py-1 bg-gray-800 text-xs text-gray-400">
+        <span className="text-green-400">+{stats.added}</span>{' '}
+        <span className="text-red-400">-{stats.removed}</span>
+      </div>
+      {view === 'split' && (oldLabel || newLabel) && (
+        <div className="grid grid-cols-2 gap-px px-2 py-1 bg-gray-800 border-t border-gray-700 text-xs text-gray-300">
+          <span className="truncate">{oldLabel}</span>
+          <span className="truncate">{newLabel}</span>
+        </div>
+      )}
+      <pre className={`${heightClass} overflow-auto text-xs leading-5 font-mono`}>
+        {view === 'split'
+          ? splitRows.map((row, index) =>
+            row.type === 'collapsed' ? (
+              <div key={index} className="px-2 text-gray-500 bg-gray-800/50">{collapsedText(row.count)}</div>
+            ) : (
+              <div key={index} className="grid grid-cols-2 gap-px">
+                {renderSide(row.left, 'left')}
+                {renderSide(row.right, 'right')}
+              </div>
+            )
+          )
+          : rows.map((row, index) =>
+            row.type === 'collapsed' ? (
+              <div key={index} className="px-2 text-gray-500 bg-gray-800/50">{collapsedText(row.count)}</div>
+            ) : (
+              <div key={index} className={`px-2 whitespace-pre ${LINE_STYLES[row.type]}`}>
+                {LINE_MARKERS[row.type]} {row.text}
+              </div>
+            )
+          )}
+      </pre>
+    </div>
+  );
+};
+
+export default CodeDiff;
@@ -0,0 +1,95 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { FileCode } from 'lucide-react';
+
+interface CodeImportProps {
+  // Offered as a starting point, so the last generation can be sketched over
+  generatedCode?: string;
+  // Resolves to false when nothing was imported, which keeps the pasted code for another try
+  onImport: (source: string) => Promise<boolean>;
+}
+
+const CodeImport: React.FC<CodeImportProps> = ({ generatedCode, onImport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [source, setSource] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      if (await onImport(source)) {
+        setSource('');
+        setIsOpen(false);
+      }
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center space-x-1 px-3 py-2 text-sm font-medium text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+        title="Import a React component or HTML as a wireframe"
+      >
+        <FileCode className="w-4 h-4" />
+        <span>From Code</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-96 bg-white rounded-lg shadow-lg border border-gray-200 z-50 p-4 space-y-3">
+          <div className="text-sm font-medium text-gray-900">Import Code as Wireframe</div>
+          <p className="text-xs text-gray-500">
+            Paste a React component or HTML. Its layout is approximated with rectangles, text and stencils next to your drawing, ready to sketch over and regenerate.
+          </p>
+
+          <textarea
+            value={source}
+            onChange={(e) => setSource(e.target.value)}
+            placeholder={'<form className="flex flex-col gap-4">\n  <input placeholder="Email" />\n  <button>Sign in</button>\n</form>'}
+            rows={10}
+            spellCheck={false}
+            className="w-full px-3 py-2 font-mono text-xs border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+
+          <div className="flex items-center justify-between">
+            {generatedCode ? (
+              <button
+                onClick={() => setSource(generatedCode)}
+                className="text-xs text-blue-600 hover:text-blue-700"
+              >
+                Use generated code
+              </button>
+            ) : <span />}
+            <button
+              onClick={handleImport}
+              disabled={!source.trim() || isImporting}
+              className="bg-blue-600 text-white px-4 py-2 text-sm rounded-md hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+            >
+              {isImporting ? 'Importing...' : 'Add to Board'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CodeImport;
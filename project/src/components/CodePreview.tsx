@@ -1,44 +1,224 @@
-import React, { useEffect, useState } from 'react';
-import { Copy, Download, Play, Sparkles } from 'lucide-react';
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronRight, Code2, Copy, Cpu, Download, Eye, FileCode, History, Package, Play, Sparkles, Square } from 'lucide-react';
+import Prism from 'prismjs';
+import 'prismjs/components/prism-jsx';
+import 'prismjs/components/prism-typescript';
+import 'prismjs/components/prism-tsx';
+import 'prismjs/themes/prism-tomorrow.css';
+import { DesignTheme, GenerationRecord, GenerationSource, OutputTarget } from '../types';
+import { CodeDiagnostic, formatDiagnostic, validateCode } from '../utils/codeValidator';
+import { getComponentLibrary } from '../utils/designTokens';
+import { downloadArchive } from '../utils/downloadUtils';
+import { getFileName, splitFiles } from '../utils/generatedFiles';
+import { OUTPUT_TARGETS, getOutputTarget } from '../utils/outputTargets';
+import { canExportProject } from '../utils/projectExport';
+import { SourceRange, findRangeAtLine, findSourceRanges } from '../utils/sourceMap';
+import GenerationHistory from './GenerationHistory';
+import LivePreview from './LivePreview';
+import ThemeSettings from './ThemeSettings';
 
 interface CodePreviewProps {
   code: string;
   isGenerating: boolean;
+  // Whether generation goes to an AI provider rather than the offline rule-based generator
+  usesAI: boolean;
+  // Code received so far while generating, empty until the first tokens arrive
+  streamingCode: string;
+  onStopGeneration: () => void;
+  outputTarget: OutputTarget;
+  onOutputTargetChange: (target: OutputTarget) => void;
+  theme?: DesignTheme;
+  onThemeChange: (theme: DesignTheme | undefined) => void;
+  generations: GenerationRecord[];
+  onRestoreGeneration: (id: string) => void;
+  onExportProject: () => void;
+  // Elements selected on the board; the code of the first one is scrolled into view
+  selectedElementIds: string[];
+  // Called with the element behind the code line under the pointer
+  onHoverElement: (id: string | null) => void;
 }
 
-const CodePreview: React.FC<CodePreviewProps> = ({ code, isGenerating }) => {
+type PreviewTab = 'code' | 'preview' | 'history';
+
+const SOURCE_BADGES: Record<GenerationSource, string> = {
+  ai: 'AI Generated',
+  offline: 'Rule-based',
+  refinement: 'AI Refined',
+};
+
+interface LineMetrics {
+  // Offset of the first line from the top of the scrolled content
+  top: number;
+  lineHeight: number;
+}
+
+// Reads the line layout of the rendered code view, so hit testing follows its font and spacing
+const measureLines = (pre: HTMLPreElement, lineCount: number): LineMetrics => {
+  const style = getComputedStyle(pre);
+  const lineHeight = parseFloat(style.lineHeight);
+  return {
+    top: parseFloat(style.paddingTop) || 0,
+    // A line height of "normal" has no pixel value; the code element then spans all lines
+    lineHeight: Number.isFinite(lineHeight)
+      ? lineHeight
+      : (pre.firstElementChild?.getBoundingClientRect().height || 0) / Math.max(lineCount, 1),
+  };
+};
+
+const highlight = (source: string, language: string) => {
+  const grammar = Prism.languages[language];
+  // Without a grammar the code is shown as plain text, which still has to be escaped for innerHTML
+  return grammar
+    ? Prism.highlight(source, grammar, language)
+    : source.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+};
+
+const CodePreview: React.FC<CodePreviewProps> = ({
+  code,
+  isGenerating,
+  usesAI,
+  streamingCode,
+  onStopGeneration,
+  outputTarget,
+  onOutputTargetChange,
+  theme,
+  onThemeChange,
+  generations,
+  onRestoreGeneration,
+  onExportProject,
+  selectedElementIds,
+  onHoverElement,
+}) => {
   const [copySuccess, setCopySuccess] = useState(false);
+  const [activeTab, setActiveTab] = useState<PreviewTab>('code');
+  const [activeFile, setActiveFile] = useState(0);
+  const [diagnostics, setDiagnostics] = useState<CodeDiagnostic[]>([]);
+  const [showDiagnostics, setShowDiagnostics] = useState(true);
+  const [hoveredRange, setHoveredRange] = useState<SourceRange | null>(null);
+  const streamRef = useRef<HTMLPreElement>(null);
+  const codeRef = useRef<HTMLPreElement>(null);
+  const [lineMetrics, setLineMetrics] = useState<LineMetrics | null>(null);
+  const target = getOutputTarget(outputTarget);
+  // History is newest first, so this is how the code on screen was made
+  const currentRecord = generations.find(record => record.code === code);
+  // Page sets bundle several files into one code string
+  const files = useMemo(() => splitFiles(code), [code]);
+  const file = files.length > 0 ? files[Math.min(activeFile, files.length - 1)] : null;
+  const shownCode = file ? file.code : code;
+  const filename = file ? file.path : `GeneratedComponent${target.extension}`;
+  const showPreview = activeTab === 'preview' && target.previewable && !!code;
+  const showHistory = activeTab === 'history' && generations.length > 0;
+  const tabs = [
+    { id: 'code' as PreviewTab, icon: Code2, label: 'Code' },
+    ...(target.previewable && code ? [{ id: 'preview' as PreviewTab, icon: Eye, label: 'Preview' }] : []),
+    ...(generations.length > 0 ? [{ id: 'history' as PreviewTab, icon: History, label: `History (${generations.length})` }] : []),
+  ];
+  const visibleTab: PreviewTab = showPreview ? 'preview' : showHistory ? 'history' : 'code';
+  const errorCount = diagnostics.filter(diagnostic => diagnostic.severity === 'error').length;
+  const warningCount = diagnostics.length - errorCount;
+
+  // Checks run in the background, so a slow compiler load never delays showing the code
+  useEffect(() => {
+    let cancelled = false;
+    setDiagnostics([]);
+    const libraryPackages = getOutputTarget(outputTarget).supportsComponentLibraries ? getComponentLibrary(theme).packages : [];
+    validateCode(code, outputTarget, libraryPackages)
+      .then(results => {
+        if (!cancelled) setDiagnostics(results);
+      })
+      .catch(error => console.error('Error validating code:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [code, outputTarget, theme]);
+
+  // Follow the end of the code as it streams in
+  useEffect(() => {
+    if (streamRef.current) {
+      streamRef.current.scrollTop = streamRef.current.scrollHeight;
+    }
+  }, [streamingCode]);
+
+  const sourceRanges = useMemo(() => findSourceRanges(code), [code]);
+  const selectedRange = useMemo(
+    () => sourceRanges.find(range => selectedElementIds.includes(range.elementId)),
+    [sourceRanges, selectedElementIds]
+  );
+  const fileIndex = file ? files.indexOf(file) : -1;
+  // Hovering wins over the board selection, and only ranges in the open file are shown
+  const shownRange = [hoveredRange, selectedRange].find(range => range && range.file === file?.path);
+
+  const lineCount = shownCode.split('\n').length;
+
+  const showsCode = visibleTab === 'code' && !isGenerating && !!code;
+
+  // Measured whenever the code view mounts, since it unmounts while other tabs are open
+  useLayoutEffect(() => {
+    setLineMetrics(showsCode && codeRef.current ? measureLines(codeRef.current, lineCount) : null);
+  }, [showsCode, lineCount]);
+
+  // Selecting an element on the board opens its file and scrolls its code into view
+  useEffect(() => {
+    if (!selectedRange) return;
+    const index = files.findIndex(entry => entry.path === selectedRange.file);
+    if (index >= 0 && index !== fileIndex) {
+      setActiveFile(index);
+      return;
+    }
+    const pre = codeRef.current;
+    if (!pre) return;
+    const { top, lineHeight } = measureLines(pre, lineCount);
+    pre.scrollTo({ top: top + (selectedRange.startLine - 4) * lineHeight, behavior: 'smooth' });
+  }, [selectedRange, files, fileIndex, lineCount]);
+
+  const handleCodeMouseMove = (event: React.MouseEvent<HTMLPreElement>) => {
+    const pre = event.currentTarget;
+    const { top, lineHeight } = measureLines(pre, lineCount);
+    if (!lineHeight) return;
+    const offset = event.clientY - pre.getBoundingClientRect().top - pre.clientTop + pre.scrollTop - top;
+    const line = Math.floor(offset / lineHeight) + 1;
+    const range = findRangeAtLine(sourceRanges, file?.path, line) || null;
+    if (range?.elementId !== hoveredRange?.elementId || range?.startLine !== hoveredRange?.startLine) {
+      setHoveredRange(range);
+      onHoverElement(range ? range.elementId : null);
+    }
+  };
+
+  const handleCodeMouseLeave = () => {
+    setHoveredRange(null);
+    onHoverElement(null);
+  };
+
+  const handleSelectDiagnostic = (diagnostic: CodeDiagnostic) => {
+    const index = files.findIndex(entry => entry.path === diagnostic.file);
+    if (index >= 0) setActiveFile(index);
+  };
+
+  const highlightedCode = useMemo(() => highlight(shownCode, target.prismLanguage), [shownCode, target.prismLanguage]);
 
   const handleCopy = () => {
-    navigator.clipboard.writeText(code);
+    navigator.clipboard.writeText(shownCode);
     setCopySuccess(true);
     setTimeout(() => setCopySuccess(false), 2000);
   };
 
   const handleDownload = () => {
+    if (files.length > 0) {
+      downloadArchive(files.map(entry => ({ path: entry.path, content: entry.code })), 'generated-pages.zip');
+      return;
+    }
+
     const blob = new Blob([code], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = 'GeneratedComponent.tsx';
+    a.download = filename;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
     URL.revokeObjectURL(url);
   };
 
-  const formatCode = (code: string) => {
-    // Simple syntax highlighting for demo purposes
-    return code
-      .replace(/\/\/(.*)/g, '<span class="text-green-600">// $1</span>')
-      .replace(/import (.*) from (.*);/g, '<span class="text-purple-600">import</span> <span class="text-blue-600">$1</span> <span class="text-purple-600">from</span> <span class="text-green-600">$2</span>;')
-      .replace(/interface (.*) {/g, '<span class="text-purple-600">interface</span> <span class="text-yellow-600">$1</span> {')
-      .replace(/const (.*): React\.FC/g, '<span class="text-purple-600">const</span> <span class="text-yellow-600">$1</span>: <span class="text-blue-600">React.FC</span>')
-      .replace(/className="([^"]*)"/g, 'className="<span class="text-green-600">$1</span>"')
-      .replace(/return \(/g, '<span class="text-purple-600">return</span> (')
-      .replace(/export default (.*);/g, '<span class="text-purple-600">export default</span> <span class="text-yellow-600">$1</span>;');
-  };
-
   return (
     <div className="h-full flex flex-col bg-gray-900 text-white">
       {/* Header */}
@@ -47,17 +227,41 @@ const CodePreview: React.FC<CodePreviewProps> = ({ code, isGenerating }) => {
           <div className="w-3 h-3 bg-red-500 rounded-full"></div>
           <div className="w-3 h-3 bg-yellow-500 rounded-full"></div>
           <div className="w-3 h-3 bg-green-500 rounded-full"></div>
-          <span className="ml-4 text-sm font-medium">GeneratedComponent.tsx</span>
-          {code && (
-            <div className="flex items-center space-x-1 ml-2 px-2 py-1 bg-blue-600/20 rounded text-xs">
-              <Sparkles className="w-3 h-3" />
-              <span>Generated by Gemini AI</span>
+          <span className="ml-4 text-sm font-medium">{filename}</span>
+          {code && currentRecord && (
+            <div
+              className="flex items-center space-x-1 ml-2 px-2 py-1 bg-blue-600/20 rounded text-xs"
+              title={`Made by ${currentRecord.generator}`}
+            >
+              {currentRecord.source === 'offline' ? <Cpu className="w-3 h-3" /> : <Sparkles className="w-3 h-3" />}
+              <span>{SOURCE_BADGES[currentRecord.source]} · {getOutputTarget(currentRecord.outputTarget).label}</span>
             </div>
           )}
         </div>
         
         <div className="flex items-center space-x-2">
-          {code && (
+          <select
+            value={outputTarget}
+            onChange={(e) => onOutputTargetChange(e.target.value as OutputTarget)}
+            className="bg-gray-800 border border-gray-700 text-xs text-gray-200 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            title="Output target"
+          >
+            {Object.values(OUTPUT_TARGETS).map(option => (
+              <option key={option.id} value={option.id}>{option.label}</option>
+            ))}
+          </select>
+          <ThemeSettings theme={theme} onChange={onThemeChange} />
+          {isGenerating && (
+            <button
+              onClick={onStopGeneration}
+              className="flex items-center space-x-1 px-2 py-1 bg-red-600 hover:bg-red-700 rounded text-xs transition-colors"
+              title="Stop generating"
+            >
+              <Square className="w-3 h-3" />
+              <span>Stop</span>
+            </button>
+          )}
+          {code && !isGenerating && (
             <>
               <button
                 onClick={handleCopy}
@@ -74,29 +278,76 @@ const CodePreview: React.FC<CodePreviewProps> = ({ code, isGenerating }) => {
               <button
                 onClick={handleDownload}
                 className="p-2 text-gray-400 hover:text-white transition-colors"
-                title="Download File"
+                title={files.length > 0 ? 'Download all files (.zip)' : 'Download File'}
               >
                 <Download className="w-4 h-4" />
               </button>
-              <button
-                className="p-2 text-gray-400 hover:text-white transition-colors"
-                title="Preview Component"
-              >
-                <Play className="w-4 h-4" />
-              </button>
+              {canExportProject(outputTarget) && (
+                <button
+                  onClick={onExportProject}
+                  className="p-2 text-gray-400 hover:text-white transition-colors"
+                  title="Export as Vite project (.zip)"
+                >
+                  <Package className="w-4 h-4" />
+                </button>
+              )}
+              {target.previewable && (
+                <button
+                  onClick={() => setActiveTab(visibleTab === 'preview' ? 'code' : 'preview')}
+                  className={`p-2 transition-colors ${
+                    visibleTab === 'preview' ? 'text-white' : 'text-gray-400 hover:text-white'
+                  }`}
+                  title="Preview Component"
+                >
+                  <Play className="w-4 h-4" />
+                </button>
+              )}
             </>
           )}
         </div>
       </div>
 
+      {/* Tabs */}
+      {!isGenerating && tabs.length > 1 && (
+        <div className="flex border-b border-gray-700 text-sm">
+          {tabs.map(tab => {
+            const Icon = tab.icon;
+            return (
+              <button
+                key={tab.id}
+                onClick={() => setActiveTab(tab.id)}
+                className={`flex items-center space-x-1 px-4 py-2 border-b-2 transition-colors ${
+                  tab.id === visibleTab
+                    ? 'border-blue-500 text-white'
+                    : 'border-transparent text-gray-400 hover:text-white'
+                }`}
+              >
+                <Icon className="w-4 h-4" />
+                <span>{tab.label}</span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
       {/* Content */}
       <div className="flex-1 overflow-hidden">
-        {isGenerating ? (
+        {isGenerating && streamingCode ? (
+          <pre ref={streamRef} className="h-full overflow-auto p-4 text-sm leading-relaxed">
+            <code
+              className={`language-${target.prismLanguage}`}
+              dangerouslySetInnerHTML={{ __html: highlight(streamingCode, target.prismLanguage) }}
+            />
+            <span className="inline-block w-2 h-4 align-text-bottom bg-blue-500 animate-pulse" />
+          </pre>
+        ) : isGenerating ? (
           <div className="h-full flex flex-col items-center justify-center p-8">
             <div className="animate-spin w-8 h-8 border-2 border-blue-500 border-t-transparent rounded-full mb-4"></div>
             <h3 className="text-lg font-medium mb-2">Generating Component...</h3>
             <p className="text-gray-400 text-center mb-4">
-              Gemini AI is analyzing your whiteboard drawing and creating a React component
+              {usesAI
+                ? `The AI is analyzing your whiteboard drawing and writing ${target.label} code`
+                : `The rule-based generator is laying out your whiteboard drawing as ${target.label} code`}
             </p>
             <div className="text-sm text-gray-500 space-y-1">
               <div className="flex items-center space-x-2">
@@ -109,24 +360,96 @@ const CodePreview: React.FC<CodePreviewProps> = ({ code, isGenerating }) => {
               </div>
               <div className="flex items-center space-x-2">
                 <div className="w-2 h-2 bg-blue-500 rounded-full animate-pulse delay-300"></div>
-                <span>Generating React code...</span>
+                <span>Generating {target.label} code...</span>
               </div>
             </div>
           </div>
+        ) : showHistory ? (
+          <GenerationHistory
+            generations={generations}
+            currentCode={code}
+            onRestore={onRestoreGeneration}
+          />
+        ) : showPreview ? (
+          <LivePreview code={code} outputTarget={outputTarget} theme={theme} />
         ) : code ? (
-          <pre className="text-sm leading-relaxed">
-            <code 
-              dangerouslySetInnerHTML={{ 
-                __html: formatCode(code) 
-              }}
-            />
-          </pre>
+          <div className="h-full flex flex-col">
+            {files.length > 0 && (
+              <div className="flex overflow-x-auto border-b border-gray-800 bg-gray-950 text-xs">
+                {files.map((entry, index) => (
+                  <button
+                    key={entry.path}
+                    onClick={() => setActiveFile(index)}
+                    className={`flex items-center space-x-1 px-3 py-1.5 whitespace-nowrap transition-colors ${
+                      entry === file ? 'bg-gray-900 text-white' : 'text-gray-400 hover:text-white'
+                    }`}
+                    title={entry.path}
+                  >
+                    <FileCode className="w-3 h-3" />
+                    <span>{getFileName(entry.path)}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+            <pre
+              ref={codeRef}
+              onMouseMove={handleCodeMouseMove}
+              onMouseLeave={handleCodeMouseLeave}
+              className="relative flex-1 overflow-auto p-4 text-sm leading-relaxed"
+            >
+              <code 
+                className={`language-${target.prismLanguage}`}
+                dangerouslySetInnerHTML={{ 
+                  __html: highlightedCode 
+                }}
+              />
+              {shownRange && lineMetrics && (
+                <div
+                  className="absolute left-0 right-0 pointer-events-none bg-amber-400/10 border-l-2 border-amber-400"
+                  style={{
+                    top: lineMetrics.top + (shownRange.startLine - 1) * lineMetrics.lineHeight,
+                    height: (shownRange.endLine - shownRange.startLine + 1) * lineMetrics.lineHeight,
+                  }}
+                />
+              )}
+            </pre>
+            {diagnostics.length > 0 && (
+              <div className={`border-t text-xs ${errorCount > 0 ? 'border-red-700 bg-red-950/80 text-red-200' : 'border-amber-700 bg-amber-950/80 text-amber-200'}`}>
+                <button
+                  onClick={() => setShowDiagnostics(!showDiagnostics)}
+                  className="w-full flex items-center space-x-1 px-3 py-2 font-medium"
+                >
+                  {showDiagnostics ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                  <AlertTriangle className="w-3 h-3" />
+                  <span>
+                    {[
+                      errorCount > 0 && `${errorCount} error${errorCount > 1 ? 's' : ''}`,
+                      warningCount > 0 && `${warningCount} warning${warningCount > 1 ? 's' : ''}`,
+                    ].filter(Boolean).join(', ')}
+                  </span>
+                </button>
+                {showDiagnostics && (
+                  <div className="max-h-40 overflow-y-auto px-3 pb-3 font-mono space-y-1">
+                    {diagnostics.map((diagnostic, index) => (
+                      <div
+                        key={index}
+                        onClick={() => handleSelectDiagnostic(diagnostic)}
+                        className={`whitespace-pre-wrap ${diagnostic.severity === 'error' ? 'text-red-200' : 'text-amber-200'} ${diagnostic.file ? 'cursor-pointer hover:underline' : ''}`}
+                      >
+                        {formatDiagnostic(diagnostic)}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
         ) : (
           <div className="h-full flex flex-col items-center justify-center p-8 text-center">
             <Sparkles className="w-16 h-16 text-blue-500 mb-4" />
             <h3 className="text-xl font-medium mb-2">AI Code Generation</h3>
             <p className="text-gray-400 mb-6 max-w-md">
-              Draw UI components on the whiteboard and click "Generate Code" to create React components using Gemini AI
+              Draw UI components on the whiteboard and click "Generate Code" to create React components with AI
             </p>
             <div className="bg-gray-800 rounded-lg p-4 max-w-md">
               <h4 className="text-sm font-medium mb-2">Supported Elements:</h4>
@@ -135,6 +458,7 @@ const CodePreview: React.FC<CodePreviewProps> = ({ code, isGenerating }) => {
                 <li>• Circles → Avatars, Icons, Badges</li>
                 <li>• Text → Headers, Labels, Content</li>
                 <li>• Drawings → Custom UI patterns</li>
+                <li>• Frames → One page each, linked by connectors</li>
               </ul>
             </div>
           </div>
@@ -0,0 +1,174 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Users } from 'lucide-react';
+import { CollabConfig, CollabStatus, CollabUser, DEFAULT_RELAY_URL } from '../utils/collaboration';
+
+interface CollaborationPanelProps {
+  status: CollabStatus;
+  error?: string;
+  user: CollabUser;
+  peers: CollabUser[];
+  defaultRoom: string;
+  onConnect: (config: CollabConfig) => void;
+  onDisconnect: () => void;
+}
+
+const STATUS_LABELS: Record<CollabStatus, string> = {
+  disconnected: 'Not connected',
+  connecting: 'Connecting...',
+  connected: 'Connected',
+};
+
+const initials = (name: string) =>
+  name.split(/\s+/).filter(Boolean).map(part => part[0]).join('').slice(0, 2).toUpperCase() || '?';
+
+const CollaborationPanel: React.FC<CollaborationPanelProps> = ({
+  status,
+  error,
+  user,
+  peers,
+  defaultRoom,
+  onConnect,
+  onDisconnect,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<CollabConfig>({ url: DEFAULT_RELAY_URL, room: defaultRoom, name: user.name });
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const handleToggle = () => {
+    if (!isOpen && status === 'disconnected') {
+      setDraft(prev => ({ ...prev, room: defaultRoom, name: user.name }));
+    }
+    setIsOpen(!isOpen);
+  };
+
+  const handleConnect = () => {
+    onConnect({ url: draft.url.trim(), room: draft.room.trim(), name: draft.name.trim() || 'Guest' });
+  };
+
+  const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100';
+  const isDisconnected = status === 'disconnected';
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={handleToggle}
+        className={`flex items-center space-x-1 p-2 rounded-lg transition-colors ${
+          status === 'connected' ? 'text-green-700 bg-green-50 hover:bg-green-100' : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+        }`}
+        title="Collaborate"
+      >
+        <Users className="w-4 h-4" />
+        {status === 'connected' && (
+          <div className="flex -space-x-1">
+            {[user, ...peers].slice(0, 4).map(member => (
+              <span
+                key={member.id}
+                className="w-5 h-5 rounded-full border-2 border-white text-[9px] leading-4 text-white text-center font-medium"
+                style={{ backgroundColor: member.color }}
+                title={member.name}
+              >
+                {initials(member.name)}
+              </span>
+            ))}
+          </div>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white rounded-lg shadow-lg border border-gray-200 z-50 p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-gray-900">Collaborate</span>
+            <span className={`text-xs ${status === 'connected' ? 'text-green-600' : 'text-gray-500'}`}>
+              {STATUS_LABELS[status]}
+            </span>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Your name</label>
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              disabled={!isDisconnected}
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Room</label>
+            <input
+              type="text"
+              value={draft.room}
+              onChange={(e) => setDraft({ ...draft, room: e.target.value })}
+              disabled={!isDisconnected}
+              className={inputClass}
+            />
+            <p className="mt-1 text-xs text-gray-500">Share the room name with your team to draw together.</p>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Relay URL</label>
+            <input
+              type="text"
+              value={draft.url}
+              onChange={(e) => setDraft({ ...draft, url: e.target.value })}
+              disabled={!isDisconnected}
+              className={inputClass}
+            />
+          </div>
+
+          {error && isDisconnected && <p className="text-xs text-red-600">{error}</p>}
+
+          {status === 'connected' && (
+            <div>
+              <div className="text-xs font-medium text-gray-600 mb-1">In this room</div>
+              <ul className="space-y-1">
+                {[user, ...peers].map(member => (
+                  <li key={member.id} className="flex items-center space-x-2 text-sm text-gray-700">
+                    <span className="w-3 h-3 rounded-full" style={{ backgroundColor: member.color }} />
+                    <span>{member.name}{member.id === user.id && ' (you)'}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {isDisconnected ? (
+            <button
+              onClick={handleConnect}
+              disabled={!draft.url.trim() || !draft.room.trim()}
+              className="w-full bg-blue-600 text-white px-4 py-2 text-sm rounded-md hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+            >
+              Join room
+            </button>
+          ) : (
+            <button
+              onClick={onDisconnect}
+              className="w-full bg-gray-100 text-gray-700 px-4 py-2 text-sm rounded-md hover:bg-gray-200"
+            >
+              Leave room
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CollaborationPanel;
@@ -1,6 +1,7 @@
-import React from 'react';
-import { Palette, Circle, Square, Type, Minus } from 'lucide-react';
-import { WhiteboardSettings } from '../types';
+import React, { useState } from 'react';
+import { Palette, Circle, Square, Type, Minus, BookOpen, Plus, X } from 'lucide-react';
+import { LegendEntry, WhiteboardSettings } from '../types';
+import { LEGEND_PROPERTY_LABELS, describeLegendStyle } from '../utils/styleLegend';
 
 interface ColorPaletteProps {
   settings: WhiteboardSettings;
@@ -33,6 +34,25 @@ const ColorPalette: React.FC<ColorPaletteProps> = ({
   const strokeWidths = [1, 2, 4, 6, 8, 12];
   const fontSizes = [12, 14, 16, 18, 24, 32];
 
+  // New legend entries take the style currently selected above
+  const [legendProperty, setLegendProperty] = useState<LegendEntry['property']>('stroke');
+  const [legendMeaning, setLegendMeaning] = useState('');
+  const legend = settings.legend || [];
+  const canAddLegendEntry = !!legendMeaning.trim() && !(legendProperty === 'fill' && settings.fillColor === 'transparent');
+
+  const handleAddLegendEntry = () => {
+    const entry: LegendEntry = {
+      id: Math.random().toString(36).slice(2, 10),
+      property: legendProperty,
+      meaning: legendMeaning.trim(),
+      ...(legendProperty === 'strokeWidth'
+        ? { width: settings.strokeWidth }
+        : { color: legendProperty === 'stroke' ? settings.strokeColor : settings.fillColor }),
+    };
+    onSettingsChange({ legend: [...legend, entry] });
+    setLegendMeaning('');
+  };
+
   return (
     <div className="relative">
       <button
@@ -158,6 +178,74 @@ const ColorPalette: React.FC<ColorPaletteProps> = ({
               </div>
             </div>
 
+            {/* Legend */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                <BookOpen className="w-4 h-4 inline mr-1" />
+                Legend
+              </label>
+              {legend.length > 0 ? (
+                <ul className="space-y-1 mb-2">
+                  {legend.map(entry => (
+                    <li key={entry.id} className="flex items-center gap-2 text-sm text-gray-700">
+                      {entry.property === 'strokeWidth' ? (
+                        <div className="w-4 flex items-center">
+                          <div className="w-4 bg-gray-800" style={{ height: `${Math.min(entry.width || 1, 8)}px` }} />
+                        </div>
+                      ) : (
+                        <div
+                          className={`w-4 h-4 rounded ${entry.property === 'stroke' ? 'border-2 bg-white' : 'border border-gray-300'}`}
+                          style={entry.property === 'stroke' ? { borderColor: entry.color } : { backgroundColor: entry.color }}
+                        />
+                      )}
+                      <span className="flex-1 truncate" title={describeLegendStyle(entry)}>{entry.meaning}</span>
+                      <button
+                        onClick={() => onSettingsChange({ legend: legend.filter(other => other.id !== entry.id) })}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                        title="Remove legend entry"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-xs text-gray-500 mb-2">
+                  Give colors and stroke widths a meaning, e.g. red stroke = error, thick stroke = emphasis. The code generator honors it.
+                </p>
+              )}
+              <div className="flex gap-2">
+                <select
+                  value={legendProperty}
+                  onChange={(e) => setLegendProperty(e.target.value as LegendEntry['property'])}
+                  className="px-2 py-1 text-sm border border-gray-300 rounded-md bg-white"
+                  title="Uses the style selected above"
+                >
+                  {(Object.keys(LEGEND_PROPERTY_LABELS) as LegendEntry['property'][]).map(property => (
+                    <option key={property} value={property}>{LEGEND_PROPERTY_LABELS[property]}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={legendMeaning}
+                  onChange={(e) => setLegendMeaning(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && canAddLegendEntry) handleAddLegendEntry();
+                  }}
+                  placeholder="means..."
+                  className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded-md"
+                />
+                <button
+                  onClick={handleAddLegendEntry}
+                  disabled={!canAddLegendEntry}
+                  className="p-1.5 text-blue-600 hover:bg-blue-50 rounded disabled:text-gray-300 disabled:hover:bg-transparent"
+                  title="Add legend entry for the selected style"
+                >
+                  <Plus className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+
             {/* Current Settings Preview */}
             <div className="pt-4 border-t border-gray-200">
               <div className="text-sm text-gray-600 mb-2">Preview:</div>
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { GitCompare, RotateCcw } from 'lucide-react';
+import { GenerationRecord, GenerationSource } from '../types';
+import { getOutputTarget } from '../utils/outputTargets';
+import CodeDiff from './CodeDiff';
+
+interface GenerationHistoryProps {
+  generations: GenerationRecord[];
+  currentCode: string;
+  onRestore: (id: string) => void;
+}
+
+const SOURCE_LABELS: Record<GenerationSource, string> = {
+  ai: 'Generated',
+  offline: 'Offline',
+  refinement: 'Refined',
+};
+
+const GenerationHistory: React.FC<GenerationHistoryProps> = ({ generations, currentCode, onRestore }) => {
+  // Up to two versions picked for comparison, in the order they were picked
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  // Generations are stored newest first; number them oldest first
+  const versionNumber = (record: GenerationRecord) => generations.length - generations.indexOf(record);
+  const versionLabel = (record: GenerationRecord) =>
+    `v${versionNumber(record)} · ${new Date(record.createdAt).toLocaleString()}`;
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev =>
+      prev.includes(id) ? prev.filter(existing => existing !== id) : [...prev, id].slice(-2)
+    );
+  };
+
+  const compared = generations
+    .filter(record => compareIds.includes(record.id))
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+  const renderComparison = () => {
+    if (compared.length === 0) {
+      return (
+        <div className="h-full flex flex-col items-center justify-center text-center text-sm text-gray-400 p-6">
+          <GitCompare className="w-8 h-8 mb-2 text-gray-500" />
+          Select one version to compare it with the current code, or two versions to compare them with each other.
+        </div>
+      );
+    }
+
+    const [older, newer] = compared;
+    return (
+      <div className="space-y-3">
+        <CodeDiff
+          view="split"
+          oldCode={older.code}
+          newCode={newer ? newer.code : currentCode}
+          oldLabel={versionLabel(older)}
+          newLabel={newer ? versionLabel(newer) : 'Current code'}
+          heightClass="max-h-[28rem]"
+        />
+        {compared.map(record => (
+          <details key={record.id} className="text-xs text-gray-400">
+            <summary className="cursor-pointer hover:text-white">
+              Prompt for v{versionNumber(record)}
+            </summary>
+            <pre className="mt-2 p-2 bg-gray-800 rounded whitespace-pre-wrap max-h-48 overflow-auto">
+              {record.prompt || 'Generated offline by the rule-based generator - no prompt was sent.'}
+            </pre>
+          </details>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <ul className="max-h-[40%] overflow-y-auto divide-y divide-gray-800 border-b border-gray-700">
+        {generations.map(record => {
+          const isCurrent = record.code === currentCode;
+          const isCompared = compareIds.includes(record.id);
+          return (
+            <li
+              key={record.id}
+              className={`flex items-center px-4 py-2 text-sm ${isCompared ? 'bg-blue-600/20' : 'hover:bg-gray-800'}`}
+            >
+              <input
+                type="checkbox"
+                checked={isCompared}
+                onChange={() => toggleCompare(record.id)}
+                className="mr-3"
+                title="Compare this version"
+              />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center space-x-2">
+                  <span className="font-medium">v{versionNumber(record)}</span>
+                  <span className="px-1.5 py-0.5 bg-gray-700 rounded text-xs">{SOURCE_LABELS[record.source]}</span>
+                  {isCurrent && <span className="px-1.5 py-0.5 bg-green-600/30 text-green-300 rounded text-xs">Current</span>}
+                </div>
+                <div className="text-xs text-gray-400 truncate">
+                  {new Date(record.createdAt).toLocaleString()} · {getOutputTarget(record.outputTarget).label} · {record.elements.length} elements · {record.generator}
+                </div>
+                {record.instruction && (
+                  <div className="text-xs text-gray-500 truncate">"{record.instruction}"</div>
+                )}
+              </div>
+              <button
+                onClick={() => onRestore(record.id)}
+                className="ml-2 p-1.5 text-gray-400 hover:text-white hover:bg-gray-700 rounded transition-colors"
+                title="Restore this version and its drawing"
+              >
+                <RotateCcw className="w-4 h-4" />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+      <div className="flex-1 overflow-y-auto p-4">
+        {renderComparison()}
+      </div>
+    </div>
+  );
+};
+
+export default GenerationHistory;
@@ -1,18 +1,67 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Code, Palette, Settings, Download, ChevronDown, BookOpen } from 'lucide-react';
-import { Mode } from '../types';
-import { downloadSVG, downloadImage, downloadPDF } from '../utils/downloadUtils';
+import { Code, Palette, Download, ChevronDown, BookOpen, Upload } from 'lucide-react';
+import { BoardSummary, DownloadFormat, Mode } from '../types';
+import { BOARD_FILE_EXTENSION } from '../utils/boardFormat';
+import { CollabConfig, CollabStatus, CollabUser } from '../utils/collaboration';
+import { PROVIDER_NAMES, ProviderConfig } from '../utils/llmProviders';
+import BoardLibrary from './BoardLibrary';
+import CodeImport from './CodeImport';
+import CollaborationPanel from './CollaborationPanel';
+import ProviderSettings from './ProviderSettings';
 
 interface HeaderProps {
   hasApiKey?: boolean;
-  onDownload?: (format: 'svg' | 'png' | 'jpg' | 'pdf') => void;
+  providerConfig: ProviderConfig;
+  onProviderConfigChange: (config: ProviderConfig) => void;
+  onDownload?: (format: DownloadFormat) => void;
+  onImportBoard?: (file: File) => void;
+  // Adds a wireframe of pasted JSX or HTML to the board
+  onImportCode?: (source: string) => Promise<boolean>;
+  generatedCode?: string;
   mode: Mode;
   onModeChange: (mode: Mode) => void;
+  boards: BoardSummary[];
+  activeBoardId: string;
+  onOpenBoard: (id: string) => void;
+  onCreateBoard: () => void;
+  onRenameBoard: (id: string, name: string) => void;
+  onDuplicateBoard: (id: string) => void;
+  onDeleteBoard: (id: string) => void;
+  collabStatus: CollabStatus;
+  collabError?: string;
+  collabUser: CollabUser;
+  collabPeers: CollabUser[];
+  onJoinRoom: (config: CollabConfig) => void;
+  onLeaveRoom: () => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ hasApiKey, onDownload, mode, onModeChange }) => {
+const Header: React.FC<HeaderProps> = ({
+  hasApiKey,
+  providerConfig,
+  onProviderConfigChange,
+  onDownload,
+  onImportBoard,
+  onImportCode,
+  generatedCode,
+  mode,
+  onModeChange,
+  boards,
+  activeBoardId,
+  onOpenBoard,
+  onCreateBoard,
+  onRenameBoard,
+  onDuplicateBoard,
+  onDeleteBoard,
+  collabStatus,
+  collabError,
+  collabUser,
+  collabPeers,
+  onJoinRoom,
+  onLeaveRoom
+}) => {
   const [showDownloadMenu, setShowDownloadMenu] = useState(false);
   const downloadMenuRef = useRef<HTMLDivElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -30,12 +79,21 @@ const Header: React.FC<HeaderProps> = ({ hasApiKey, onDownload, mode, onModeChan
     };
   }, [showDownloadMenu]);
 
-  const handleDownload = (format: 'svg' | 'png' | 'jpg' | 'pdf') => {
+  const handleDownload = (format: DownloadFormat) => {
     if (onDownload) {
       onDownload(format);
     }
     setShowDownloadMenu(false);
   };
+
+  const handleImportChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file && onImportBoard) {
+      onImportBoard(file);
+    }
+    // Allow importing the same file twice in a row
+    event.target.value = '';
+  };
   return (
     <header className="bg-white border-b border-gray-200 px-6 py-4">
       <div className="flex items-center justify-between">
@@ -48,8 +106,17 @@ const Header: React.FC<HeaderProps> = ({ hasApiKey, onDownload, mode, onModeChan
           </div>
           <div className="hidden md:flex items-center space-x-2 text-sm text-gray-500">
             <Code className="w-4 h-4" />
-            <span>AI-Powered Component Generator with Gemini</span>
+            <span>AI-Powered Component Generator</span>
           </div>
+          <BoardLibrary
+            boards={boards}
+            activeBoardId={activeBoardId}
+            onOpen={onOpenBoard}
+            onCreate={onCreateBoard}
+            onRename={onRenameBoard}
+            onDuplicate={onDuplicateBoard}
+            onDelete={onDeleteBoard}
+          />
         </div>
         
         <div className="flex items-center space-x-4">
@@ -80,9 +147,9 @@ const Header: React.FC<HeaderProps> = ({ hasApiKey, onDownload, mode, onModeChan
           </div>
 
           <div className="flex items-center space-x-1">
-            <div className={`w-2 h-2 rounded-full ${hasApiKey ? 'bg-green-500' : 'bg-red-500'}`}></div>
+            <div className={`w-2 h-2 rounded-full ${hasApiKey ? 'bg-green-500' : 'bg-yellow-500'}`}></div>
             <span className="text-xs text-gray-500">
-              {hasApiKey ? 'API Connected' : 'API Key Required'}
+              {hasApiKey ? `${PROVIDER_NAMES[providerConfig.provider]} Connected` : 'Offline (rule-based)'}
             </span>
           </div>
           
@@ -125,18 +192,57 @@ const Header: React.FC<HeaderProps> = ({ hasApiKey, onDownload, mode, onModeChan
                     >
                       Download as PDF
                     </button>
+                    <div className="my-1 border-t border-gray-100" />
+                    <button
+                      onClick={() => handleDownload('json')}
+                      className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 transition-colors"
+                    >
+                      Download Board File ({BOARD_FILE_EXTENSION})
+                    </button>
                   </div>
                 </div>
               )}
             </div>
           )}
           
-          <button 
-            className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
-            title="Settings"
-          >
-            <Settings className="w-4 h-4" />
-          </button>
+          {onImportBoard && (
+            <>
+              <button
+                className="flex items-center space-x-1 px-3 py-2 text-sm font-medium text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+                onClick={() => importInputRef.current?.click()}
+                title="Import board file"
+              >
+                <Upload className="w-4 h-4" />
+                <span>Import</span>
+              </button>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept={`${BOARD_FILE_EXTENSION},.json,application/json`}
+                className="hidden"
+                onChange={handleImportChange}
+              />
+            </>
+          )}
+
+          {onImportCode && (
+            <CodeImport generatedCode={generatedCode} onImport={onImportCode} />
+          )}
+
+          <CollaborationPanel
+            status={collabStatus}
+            error={collabError}
+            user={collabUser}
+            peers={collabPeers}
+            defaultRoom={activeBoardId}
+            onConnect={onJoinRoom}
+            onDisconnect={onLeaveRoom}
+          />
+
+          <ProviderSettings
+            config={providerConfig}
+            onChange={onProviderConfigChange}
+          />
           
           <button className="px-4 py-2 text-sm font-medium text-gray-600 hover:text-gray-900 transition-colors">
             Help
@@ -0,0 +1,122 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { DesignTheme, OutputTarget } from '../types';
+import { getFileName, splitFiles } from '../utils/generatedFiles';
+import { buildPreviewDocument, compileComponent, PreviewMessage } from '../utils/previewRuntime';
+
+interface LivePreviewProps {
+  code: string;
+  outputTarget: OutputTarget;
+  theme?: DesignTheme;
+}
+
+const LivePreview: React.FC<LivePreviewProps> = ({ code, outputTarget, theme }) => {
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const [previewDocument, setPreviewDocument] = useState<string | null>(null);
+  const [compileErrors, setCompileErrors] = useState<string[]>([]);
+  const [runtimeErrors, setRuntimeErrors] = useState<string[]>([]);
+  const [isCompiling, setIsCompiling] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setRuntimeErrors([]);
+
+    // Plain HTML documents need no compilation
+    if (outputTarget === 'html') {
+      setCompileErrors([]);
+      setPreviewDocument(code);
+      setIsCompiling(false);
+      return;
+    }
+
+    setIsCompiling(true);
+
+    // Page sets are previewed through their router, which is the first file
+    const files = splitFiles(code);
+    const sources = files.length > 0 ? files : [{ path: 'GeneratedComponent.tsx', code }];
+    const modulePath = (path: string) => path.replace(/\.\w+$/, '');
+
+    Promise.all(sources.map(file => compileComponent(file.code, getFileName(file.path))))
+      .then(results => {
+        if (cancelled) return;
+        const errors = results.flatMap((result, index) =>
+          files.length > 0 ? result.errors.map(error => `${getFileName(sources[index].path)}: ${error}`) : result.errors
+        );
+        setCompileErrors(errors);
+        setPreviewDocument(errors.length === 0
+          ? buildPreviewDocument(
+            Object.fromEntries(sources.map((file, index) => [modulePath(file.path), results[index].code || ''])),
+            modulePath(sources[0].path),
+            theme
+          )
+          : null);
+      })
+      .catch(error => {
+        if (cancelled) return;
+        console.error('Error compiling preview:', error);
+        setCompileErrors([error instanceof Error ? error.message : 'Failed to load the compiler']);
+        setPreviewDocument(null);
+      })
+      .finally(() => {
+        if (!cancelled) setIsCompiling(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [code, outputTarget, theme]);
+
+  useEffect(() => {
+    const handleMessage = (event: MessageEvent<PreviewMessage>) => {
+      // The sandbox has an opaque origin, so trust the frame identity instead
+      if (event.source !== iframeRef.current?.contentWindow) return;
+      if (event.data?.source !== 'wbc-preview') return;
+
+      if (event.data.type === 'error' && event.data.message) {
+        const message = event.data.message;
+        setRuntimeErrors(prev => (prev.includes(message) ? prev : [...prev, message]));
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  const errors = [...compileErrors, ...runtimeErrors];
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex-1 relative bg-white">
+        {isCompiling && (
+          <div className="absolute inset-0 flex items-center justify-center bg-white/70 z-10 text-gray-600 text-sm">
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            Compiling preview...
+          </div>
+        )}
+        {previewDocument && (
+          <iframe
+            ref={iframeRef}
+            title="Component preview"
+            sandbox="allow-scripts"
+            srcDoc={previewDocument}
+            className="w-full h-full border-0"
+          />
+        )}
+      </div>
+
+      {errors.length > 0 && (
+        <div className="max-h-48 overflow-y-auto border-t border-red-700 bg-red-950/80 p-3 text-xs font-mono text-red-200 space-y-1">
+          <div className="flex items-center space-x-1 font-sans font-medium text-red-300">
+            <AlertTriangle className="w-3 h-3" />
+            <span>{compileErrors.length > 0 ? 'Compile errors' : 'Runtime errors'}</span>
+          </div>
+          {errors.map((error, index) => (
+            <div key={index} className="whitespace-pre-wrap">{error}</div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LivePreview;
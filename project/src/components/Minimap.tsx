@@ -0,0 +1,115 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CanvasElement } from '../types';
+import { Camera, Viewport, getVisibleBounds } from '../utils/camera';
+import { Bounds, Point, expandBounds, getElementBounds, getElementsBounds } from '../utils/elementGeometry';
+
+interface MinimapProps {
+  elements: CanvasElement[];
+  camera: Camera;
+  viewport: Viewport;
+  // Called with the world point the user clicked or dragged to
+  onNavigate: (point: Point) => void;
+}
+
+const MINIMAP_WIDTH = 160;
+const MINIMAP_HEIGHT = 110;
+
+// World area shown in the minimap: everything drawn plus the current viewport
+const getWorldBounds = (elements: CanvasElement[], visible: Bounds): Bounds => {
+  const content = getElementsBounds(elements);
+  if (!content) return expandBounds(visible, 20);
+
+  const x = Math.min(content.x, visible.x);
+  const y = Math.min(content.y, visible.y);
+  return expandBounds({
+    x,
+    y,
+    width: Math.max(content.x + content.width, visible.x + visible.width) - x,
+    height: Math.max(content.y + content.height, visible.y + visible.height) - y,
+  }, 20);
+};
+
+const Minimap: React.FC<MinimapProps> = ({ elements, camera, viewport, onNavigate }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // The mapping is frozen while dragging so moving the viewport cannot shift it under the pointer
+  const [dragWorld, setDragWorld] = useState<Bounds | null>(null);
+
+  const visible = getVisibleBounds(camera, viewport);
+  const world = dragWorld || getWorldBounds(elements, visible);
+  const scale = Math.min(MINIMAP_WIDTH / world.width, MINIMAP_HEIGHT / world.height);
+  // Center the world inside the minimap
+  const offsetX = (MINIMAP_WIDTH - world.width * scale) / 2;
+  const offsetY = (MINIMAP_HEIGHT - world.height * scale) / 2;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    canvas.width = MINIMAP_WIDTH * window.devicePixelRatio;
+    canvas.height = MINIMAP_HEIGHT * window.devicePixelRatio;
+    ctx.scale(window.devicePixelRatio, window.devicePixelRatio);
+    ctx.clearRect(0, 0, MINIMAP_WIDTH, MINIMAP_HEIGHT);
+
+    const toMap = (x: number, y: number) => ({
+      x: offsetX + (x - world.x) * scale,
+      y: offsetY + (y - world.y) * scale,
+    });
+
+    ctx.strokeStyle = '#9ca3af';
+    ctx.fillStyle = '#e5e7eb';
+    ctx.lineWidth = 1;
+    elements.forEach(element => {
+      // Strokes, lines and arrows are drawn as polylines, everything else as its bounding box
+      if (element.data.points && element.data.points.length > 1) {
+        ctx.beginPath();
+        element.data.points.forEach((point, index) => {
+          const mapped = toMap(point.x, point.y);
+          if (index === 0) ctx.moveTo(mapped.x, mapped.y);
+          else ctx.lineTo(mapped.x, mapped.y);
+        });
+        ctx.stroke();
+        return;
+      }
+      const bounds = getElementBounds(element);
+      const corner = toMap(bounds.x, bounds.y);
+      const width = Math.max(bounds.width * scale, 1);
+      const height = Math.max(bounds.height * scale, 1);
+      ctx.fillRect(corner.x, corner.y, width, height);
+      ctx.strokeRect(corner.x, corner.y, width, height);
+    });
+
+    const view = toMap(visible.x, visible.y);
+    ctx.strokeStyle = '#3b82f6';
+    ctx.fillStyle = 'rgba(59, 130, 246, 0.1)';
+    ctx.fillRect(view.x, view.y, visible.width * scale, visible.height * scale);
+    ctx.strokeRect(view.x, view.y, visible.width * scale, visible.height * scale);
+  }, [elements, world.x, world.y, scale, offsetX, offsetY, visible.x, visible.y, visible.width, visible.height]);
+
+  const navigate = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onNavigate({
+      x: world.x + (e.clientX - rect.left - offsetX) / scale,
+      y: world.y + (e.clientY - rect.top - offsetY) / scale,
+    });
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute bottom-4 right-4 z-10 bg-white/90 border border-gray-200 rounded-md shadow-sm cursor-pointer"
+      style={{ width: MINIMAP_WIDTH, height: MINIMAP_HEIGHT }}
+      onMouseDown={(e) => {
+        setDragWorld(world);
+        navigate(e);
+      }}
+      onMouseMove={(e) => {
+        if (dragWorld) navigate(e);
+      }}
+      onMouseUp={() => setDragWorld(null)}
+      onMouseLeave={() => setDragWorld(null)}
+    />
+  );
+};
+
+export default Minimap;
@@ -0,0 +1,159 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Settings } from 'lucide-react';
+import {
+  DEFAULT_MODELS,
+  PROVIDER_NAMES,
+  ProviderConfig,
+  ProviderId,
+  isProviderConfigured,
+} from '../utils/llmProviders';
+
+interface ProviderSettingsProps {
+  config: ProviderConfig;
+  onChange: (config: ProviderConfig) => void;
+}
+
+const ProviderSettings: React.FC<ProviderSettingsProps> = ({ config, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<ProviderConfig>(config);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const handleToggle = () => {
+    if (!isOpen) {
+      setDraft(config);
+    }
+    setIsOpen(!isOpen);
+  };
+
+  const handleSave = () => {
+    onChange(draft);
+    setIsOpen(false);
+  };
+
+  const inputClass = 'w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={handleToggle}
+        className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors"
+        title="Settings"
+      >
+        <Settings className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white rounded-lg shadow-lg border border-gray-200 z-50 p-4 space-y-3">
+          <div className="text-sm font-medium text-gray-900">AI Provider</div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Provider</label>
+            <select
+              value={draft.provider}
+              onChange={(e) => setDraft({ ...draft, provider: e.target.value as ProviderId, model: '' })}
+              className={inputClass}
+            >
+              {(Object.keys(PROVIDER_NAMES) as ProviderId[]).map(id => (
+                <option key={id} value={id}>{PROVIDER_NAMES[id]}</option>
+              ))}
+            </select>
+          </div>
+
+          {draft.provider !== 'mock' && (
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Model</label>
+              <input
+                type="text"
+                value={draft.model}
+                onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+                placeholder={DEFAULT_MODELS[draft.provider]}
+                className={inputClass}
+              />
+            </div>
+          )}
+
+          {draft.provider === 'openai' && (
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">Base URL</label>
+              <input
+                type="text"
+                value={draft.baseUrl}
+                onChange={(e) => setDraft({ ...draft, baseUrl: e.target.value })}
+                placeholder="http://localhost:11434/v1"
+                className={inputClass}
+              />
+            </div>
+          )}
+
+          {draft.provider !== 'mock' && (
+            <div>
+              <label className="block text-xs font-medium text-gray-600 mb-1">
+                API Key{draft.provider === 'openai' && ' (optional)'}
+              </label>
+              <input
+                type="password"
+                value={draft.apiKey}
+                onChange={(e) => setDraft({ ...draft, apiKey: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          )}
+
+          {draft.provider === 'mock' && (
+            <p className="text-xs text-gray-500">
+              Returns fixed responses without any network access. Useful for demos and tests.
+            </p>
+          )}
+
+          <label className="flex items-start gap-2 text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={draft.autoRepair}
+              onChange={(e) => setDraft({ ...draft, autoRepair: e.target.checked })}
+              className="mt-0.5"
+            />
+            Automatically repair code with compiler errors (one extra request)
+          </label>
+
+          {draft.provider !== 'mock' && (
+            <label className="flex items-start gap-2 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={draft.sendImage}
+                onChange={(e) => setDraft({ ...draft, sendImage: e.target.checked })}
+                className="mt-0.5"
+              />
+              Send a snapshot of the board with each request (the model must accept images)
+            </label>
+          )}
+
+          <button
+            onClick={handleSave}
+            disabled={!isProviderConfigured(draft)}
+            className="w-full bg-blue-600 text-white px-4 py-2 text-sm rounded-md hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            Save
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProviderSettings;
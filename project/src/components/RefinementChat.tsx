@@ -0,0 +1,170 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, MessageSquare, Send, X } from 'lucide-react';
+import { GeneratedComponent } from '../utils/aiIntegration';
+import CodeDiff from './CodeDiff';
+
+interface RefinementChatProps {
+  code: string;
+  canRefine: boolean;
+  onRefine: (instruction: string, previousInstructions: string[]) => Promise<GeneratedComponent>;
+  onAccept: (revision: GeneratedComponent, instruction: string) => void;
+}
+
+type RevisionStatus = 'pending' | 'proposed' | 'accepted' | 'rejected' | 'failed';
+
+interface RefinementMessage {
+  id: string;
+  instruction: string;
+  status: RevisionStatus;
+  // Code the revision was requested against, used as the left side of the diff
+  baseCode: string;
+  revision?: GeneratedComponent;
+  error?: string;
+}
+
+const STATUS_LABELS: Partial<Record<RevisionStatus, string>> = {
+  accepted: 'Accepted',
+  rejected: 'Rejected',
+};
+
+const RefinementChat: React.FC<RefinementChatProps> = ({ code, canRefine, onRefine, onAccept }) => {
+  const [messages, setMessages] = useState<RefinementMessage[]>([]);
+  const [instruction, setInstruction] = useState('');
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const isRefining = messages.some(message => message.status === 'pending');
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight });
+  }, [messages]);
+
+  const updateMessage = (id: string, changes: Partial<RefinementMessage>) => {
+    setMessages(prev => prev.map(message => (message.id === id ? { ...message, ...changes } : message)));
+  };
+
+  const handleSend = async () => {
+    const text = instruction.trim();
+    if (!text || isRefining || !canRefine) return;
+
+    // Only instructions that made it into the current code are sent as context
+    const previousInstructions = messages
+      .filter(message => message.status === 'accepted')
+      .map(message => message.instruction);
+    const message: RefinementMessage = {
+      id: Date.now().toString(),
+      instruction: text,
+      status: 'pending',
+      baseCode: code,
+    };
+    setMessages(prev => [...prev, message]);
+    setInstruction('');
+
+    try {
+      const revision = await onRefine(text, previousInstructions);
+      updateMessage(message.id, { status: 'proposed', revision });
+    } catch (error) {
+      updateMessage(message.id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  };
+
+  const handleAccept = (message: RefinementMessage) => {
+    if (!message.revision) return;
+    onAccept(message.revision, message.instruction);
+    updateMessage(message.id, { status: 'accepted' });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  return (
+    <div className="flex flex-col max-h-[45%] border-t border-gray-700 bg-gray-900 text-white">
+      <div className="flex items-center space-x-2 px-4 py-2 border-b border-gray-700 text-sm font-medium">
+        <MessageSquare className="w-4 h-4 text-blue-400" />
+        <span>Refine</span>
+      </div>
+
+      {messages.length > 0 && (
+        <div ref={scrollRef} className="flex-1 overflow-y-auto p-3 space-y-3">
+          {messages.map(message => {
+            // A proposal is stale once the code it was based on has been replaced
+            const isOutdated = message.status === 'proposed' && message.baseCode !== code;
+            return (
+              <div key={message.id} className="space-y-2">
+                <div className="ml-8 px-3 py-2 bg-blue-600/30 rounded-lg text-sm">
+                  {message.instruction}
+                </div>
+
+                {message.status === 'pending' && (
+                  <div className="flex items-center space-x-2 text-xs text-gray-400">
+                    <div className="animate-spin w-3 h-3 border-2 border-blue-500 border-t-transparent rounded-full"></div>
+                    <span>Revising component...</span>
+                  </div>
+                )}
+
+                {message.status === 'failed' && (
+                  <div className="text-xs text-red-400">{message.error}</div>
+                )}
+
+                {message.revision && (
+                  <div className="space-y-2">
+                    <CodeDiff oldCode={message.baseCode} newCode={message.revision.code} />
+                    {message.status === 'proposed' && !isOutdated ? (
+                      <div className="flex space-x-2">
+                        <button
+                          onClick={() => handleAccept(message)}
+                          className="flex items-center space-x-1 px-2 py-1 bg-green-600 hover:bg-green-700 rounded text-xs transition-colors"
+                        >
+                          <Check className="w-3 h-3" />
+                          <span>Accept</span>
+                        </button>
+                        <button
+                          onClick={() => updateMessage(message.id, { status: 'rejected' })}
+                          className="flex items-center space-x-1 px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs transition-colors"
+                        >
+                          <X className="w-3 h-3" />
+                          <span>Reject</span>
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="text-xs text-gray-500">
+                        {isOutdated ? 'Outdated - the code changed since this revision' : STATUS_LABELS[message.status]}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="p-3 flex items-end space-x-2">
+        <textarea
+          value={instruction}
+          onChange={(e) => setInstruction(e.target.value)}
+          onKeyDown={handleKeyDown}
+          rows={2}
+          disabled={!canRefine}
+          placeholder={canRefine ? 'e.g. "make the button primary blue"' : 'Configure an AI provider in Settings to refine code'}
+          className="flex-1 resize-none bg-gray-800 border border-gray-700 rounded px-2 py-1 text-sm text-gray-200 placeholder-gray-500 focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:opacity-50"
+        />
+        <button
+          onClick={handleSend}
+          disabled={!canRefine || isRefining || !instruction.trim()}
+          className="p-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:cursor-not-allowed rounded transition-colors"
+          title="Send instruction"
+        >
+          <Send className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RefinementChat;
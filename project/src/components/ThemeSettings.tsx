@@ -0,0 +1,206 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Palette, Plus, X } from 'lucide-react';
+import { ComponentLibrary, DesignTheme } from '../types';
+import { COMPONENT_LIBRARIES, DEFAULT_THEME, formatScale, parseScale } from '../utils/designTokens';
+
+interface ThemeSettingsProps {
+  theme?: DesignTheme;
+  onChange: (theme: DesignTheme | undefined) => void;
+}
+
+type ScaleKey = 'typography' | 'radii' | 'spacing';
+
+const SCALES: { key: ScaleKey; label: string }[] = [
+  { key: 'typography', label: 'Type scale (px)' },
+  { key: 'radii', label: 'Radii (px)' },
+  { key: 'spacing', label: 'Spacing (px)' },
+];
+
+// Colors are edited as a list so tokens can be renamed without losing their place
+type ColorEntry = { name: string; value: string };
+
+const toScaleTexts = (theme: DesignTheme): Record<ScaleKey, string> => ({
+  typography: formatScale(theme.typography),
+  radii: formatScale(theme.radii),
+  spacing: formatScale(theme.spacing),
+});
+
+const ThemeSettings: React.FC<ThemeSettingsProps> = ({ theme, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [enabled, setEnabled] = useState(!!theme);
+  const [draft, setDraft] = useState<DesignTheme>(theme || DEFAULT_THEME);
+  const [colors, setColors] = useState<ColorEntry[]>([]);
+  const [scales, setScales] = useState<Record<ScaleKey, string>>(() => toScaleTexts(theme || DEFAULT_THEME));
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const loadDraft = (source: DesignTheme) => {
+    setDraft(source);
+    setColors(Object.entries(source.colors).map(([name, value]) => ({ name, value })));
+    setScales(toScaleTexts(source));
+  };
+
+  const handleToggle = () => {
+    if (!isOpen) {
+      setEnabled(!!theme);
+      loadDraft(theme || DEFAULT_THEME);
+    }
+    setIsOpen(!isOpen);
+  };
+
+  const updateColor = (index: number, changes: Partial<ColorEntry>) => {
+    setColors(colors.map((entry, i) => (i === index ? { ...entry, ...changes } : entry)));
+  };
+
+  const handleSave = () => {
+    onChange(enabled
+      ? {
+        ...draft,
+        colors: Object.fromEntries(colors
+          .map(entry => [entry.name.trim().toLowerCase().replace(/[^a-z0-9-]+/g, '-'), entry.value])
+          .filter(([name]) => name)),
+        typography: parseScale(scales.typography),
+        radii: parseScale(scales.radii),
+        spacing: parseScale(scales.spacing),
+      }
+      : undefined);
+    setIsOpen(false);
+  };
+
+  const inputClass = 'w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={handleToggle}
+        className={`p-2 transition-colors ${theme ? 'text-blue-400 hover:text-blue-300' : 'text-gray-400 hover:text-white'}`}
+        title="Design system"
+      >
+        <Palette className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 max-h-[70vh] overflow-y-auto bg-white text-gray-900 rounded-lg shadow-lg border border-gray-200 z-50 p-4 space-y-3">
+          <div className="text-sm font-medium">Design System</div>
+
+          <label className="flex items-start gap-2 text-xs text-gray-600">
+            <input
+              type="checkbox"
+              checked={enabled}
+              onChange={(e) => setEnabled(e.target.checked)}
+              className="mt-0.5"
+            />
+            Generate code with this board's tokens instead of invented colors and sizes
+          </label>
+
+          {enabled && (
+            <>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Colors</label>
+                <div className="space-y-1">
+                  {colors.map((entry, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <input
+                        type="color"
+                        value={entry.value}
+                        onChange={(e) => updateColor(index, { value: e.target.value })}
+                        className="w-8 h-8 p-0 border border-gray-300 rounded cursor-pointer"
+                      />
+                      <input
+                        type="text"
+                        value={entry.name}
+                        onChange={(e) => updateColor(index, { name: e.target.value })}
+                        className={inputClass}
+                      />
+                      <button
+                        onClick={() => setColors(colors.filter((_, i) => i !== index))}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                        title="Remove color"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  onClick={() => setColors([...colors, { name: `color-${colors.length + 1}`, value: '#000000' }])}
+                  className="mt-1 flex items-center gap-1 text-xs text-blue-600 hover:text-blue-700"
+                >
+                  <Plus className="w-3 h-3" />
+                  Add color
+                </button>
+              </div>
+
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Font family</label>
+                <input
+                  type="text"
+                  value={draft.fontFamily}
+                  onChange={(e) => setDraft({ ...draft, fontFamily: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+
+              {SCALES.map(scale => (
+                <div key={scale.key}>
+                  <label className="block text-xs font-medium text-gray-600 mb-1">{scale.label}</label>
+                  <input
+                    type="text"
+                    value={scales[scale.key]}
+                    onChange={(e) => setScales({ ...scales, [scale.key]: e.target.value })}
+                    placeholder="sm: 4, md: 8"
+                    className={inputClass}
+                  />
+                </div>
+              ))}
+
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Component library (React targets)</label>
+                <select
+                  value={draft.componentLibrary}
+                  onChange={(e) => setDraft({ ...draft, componentLibrary: e.target.value as ComponentLibrary })}
+                  className={inputClass}
+                >
+                  {(Object.keys(COMPONENT_LIBRARIES) as ComponentLibrary[]).map(id => (
+                    <option key={id} value={id}>{COMPONENT_LIBRARIES[id].label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <button
+                onClick={() => loadDraft(DEFAULT_THEME)}
+                className="text-xs text-gray-500 hover:text-gray-700"
+              >
+                Reset to defaults
+              </button>
+            </>
+          )}
+
+          <button
+            onClick={handleSave}
+            className="w-full bg-blue-600 text-white px-4 py-2 text-sm rounded-md hover:bg-blue-700"
+          >
+            Save
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ThemeSettings;
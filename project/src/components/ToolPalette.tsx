@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useRef, useEffect } from 'react';
 import { 
   Pen, 
   Square, 
@@ -10,15 +10,59 @@ import {
   Trash2,
   Undo,
   Redo,
-  Eraser
+  Eraser,
+  LayoutTemplate,
+  RectangleHorizontal,
+  TextCursorInput,
+  CheckSquare,
+  ChevronDownSquare,
+  PanelTop,
+  CreditCard,
+  Image,
+  Table,
+  AppWindow,
+  Workflow,
+  MoveRight,
+  CornerDownRight,
+  Spline,
+  Frame,
+  StickyNote,
+  LucideIcon
 } from 'lucide-react';
-import { Tool, WhiteboardSettings } from '../types';
+import { ConnectorRouting, StencilKind, Tool, WhiteboardSettings } from '../types';
+import { ROUTING_LABELS } from '../utils/connectors';
+import { STENCILS, STENCIL_KINDS } from '../utils/stencils';
 import ColorPalette from './ColorPalette';
 
+const STENCIL_ICONS: Record<StencilKind, LucideIcon> = {
+  button: RectangleHorizontal,
+  input: TextCursorInput,
+  checkbox: CheckSquare,
+  dropdown: ChevronDownSquare,
+  navbar: PanelTop,
+  card: CreditCard,
+  image: Image,
+  table: Table,
+  modal: AppWindow,
+};
+
+const ROUTING_ICONS: Record<ConnectorRouting, LucideIcon> = {
+  straight: MoveRight,
+  elbow: CornerDownRight,
+  curved: Spline,
+};
+
 interface ToolPaletteProps {
   selectedTool: Tool;
   onToolSelect: (tool: Tool) => void;
+  stencilKind: StencilKind;
+  onStencilSelect: (kind: StencilKind) => void;
+  connectorRouting: ConnectorRouting;
+  onConnectorRoutingSelect: (routing: ConnectorRouting) => void;
   onGenerateCode: () => void;
+  onExportProject: () => void;
+  // Whether there is generated code that can be exported as a Vite project
+  canExportProject: boolean;
   onClear?: () => void;
   onUndo?: () => void;
   onRedo?: () => void;
@@ -32,7 +76,13 @@ interface ToolPaletteProps {
 const ToolPalette: React.FC<ToolPaletteProps> = ({
   selectedTool,
   onToolSelect,
+  stencilKind,
+  onStencilSelect,
+  connectorRouting,
+  onConnectorRoutingSelect,
   onGenerateCode,
+  onExportProject,
+  canExportProject,
   onClear,
   onUndo,
   onRedo,
@@ -43,6 +93,28 @@ const ToolPalette: React.FC<ToolPaletteProps> = ({
   onSettingsChange
 }) => {
   const [showColorPalette, setShowColorPalette] = useState(false);
+  // Flyout menu opened from the stencil or connector tool
+  const [openMenu, setOpenMenu] = useState<'stencil' | 'connector' | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setOpenMenu(null);
+      }
+    };
+
+    if (openMenu) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [openMenu]);
+
+  const StencilIcon = STENCIL_ICONS[stencilKind];
+  const RoutingIcon = ROUTING_ICONS[connectorRouting];
 
   const tools = [
     { id: 'select' as Tool, icon: MousePointer, label: 'Select' },
@@ -50,22 +122,11 @@ const ToolPalette: React.FC<ToolPaletteProps> = ({
     { id: 'rectangle' as Tool, icon: Square, label: 'Rectangle' },
     { id: 'circle' as Tool, icon: Circle, label: 'Circle' },
     { id: 'text' as Tool, icon: Type, label: 'Text' },
+    { id: 'frame' as Tool, icon: Frame, label: 'Frame' },
+    { id: 'note' as Tool, icon: StickyNote, label: 'Note' },
     { id: 'eraser' as Tool, icon: Eraser, label: 'Eraser' },
   ];
 
-  const handleDownload = () => {
-    // Create and download the generated component
-    const blob = new Blob(['// Generated component code would be here'], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'GeneratedComponent.tsx';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  };
-
   return (
     <div className="w-20 bg-white border-r border-gray-200 flex flex-col items-center py-4 space-y-2 relative">
       {/* Drawing Tools */}
@@ -94,6 +155,100 @@ const ToolPalette: React.FC<ToolPaletteProps> = ({
             </button>
           );
         })}
+
+        <div className="space-y-2" ref={menuRef}>
+          {/* Stencil Library */}
+          <div className="relative">
+            <button
+              onClick={() => setOpenMenu(openMenu === 'stencil' ? null : 'stencil')}
+              className={`
+                w-12 h-12 rounded-lg flex items-center justify-center transition-all duration-200
+                ${selectedTool === 'stencil'
+                  ? 'bg-blue-600 text-white shadow-lg'
+                  : 'text-gray-600 hover:bg-gray-100 hover:text-gray-900'
+                }
+              `}
+              title={`UI Stencils (${STENCILS[stencilKind].label})`}
+              style={{
+                backgroundColor: selectedTool === 'stencil' ? settings.strokeColor : undefined
+              }}
+            >
+              {selectedTool === 'stencil' ? <StencilIcon className="w-5 h-5" /> : <LayoutTemplate className="w-5 h-5" />}
+            </button>
+
+            {openMenu === 'stencil' && (
+              <div className="absolute left-14 top-0 w-56 bg-white border border-gray-200 rounded-lg shadow-lg p-2 z-50">
+                <div className="px-1 pb-2 text-xs font-medium text-gray-500">UI Stencils</div>
+                <div className="grid grid-cols-3 gap-1">
+                  {STENCIL_KINDS.map(kind => {
+                    const Icon = STENCIL_ICONS[kind];
+                    const isActive = selectedTool === 'stencil' && stencilKind === kind;
+                    return (
+                      <button
+                        key={kind}
+                        onClick={() => {
+                          onStencilSelect(kind);
+                          setOpenMenu(null);
+                        }}
+                        className={`flex flex-col items-center p-2 rounded-md text-xs transition-colors ${
+                          isActive ? 'bg-blue-50 text-blue-700' : 'text-gray-600 hover:bg-gray-100 hover:text-gray-900'
+                        }`}
+                      >
+                        <Icon className="w-5 h-5 mb-1" />
+                        {STENCILS[kind].label}
+                      </button>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Connectors */}
+          <div className="relative">
+            <button
+              onClick={() => setOpenMenu(openMenu === 'connector' ? null : 'connector')}
+              className={`
+                w-12 h-12 rounded-lg flex items-center justify-center transition-all duration-200
+                ${selectedTool === 'connector'
+                  ? 'bg-blue-600 text-white shadow-lg'
+                  : 'text-gray-600 hover:bg-gray-100 hover:text-gray-900'
+                }
+              `}
+              title={`Connector (${ROUTING_LABELS[connectorRouting]})`}
+              style={{
+                backgroundColor: selectedTool === 'connector' ? settings.strokeColor : undefined
+              }}
+            >
+              {selectedTool === 'connector' ? <RoutingIcon className="w-5 h-5" /> : <Workflow className="w-5 h-5" />}
+            </button>
+
+            {openMenu === 'connector' && (
+              <div className="absolute left-14 top-0 w-40 bg-white border border-gray-200 rounded-lg shadow-lg p-2 z-50">
+                <div className="px-1 pb-2 text-xs font-medium text-gray-500">Connector routing</div>
+                {(Object.keys(ROUTING_LABELS) as ConnectorRouting[]).map(routing => {
+                  const Icon = ROUTING_ICONS[routing];
+                  const isActive = selectedTool === 'connector' && connectorRouting === routing;
+                  return (
+                    <button
+                      key={routing}
+                      onClick={() => {
+                        onConnectorRoutingSelect(routing);
+                        setOpenMenu(null);
+                      }}
+                      className={`w-full flex items-center space-x-2 px-2 py-1.5 rounded-md text-sm transition-colors ${
+                        isActive ? 'bg-blue-50 text-blue-700' : 'text-gray-600 hover:bg-gray-100 hover:text-gray-900'
+                      }`}
+                    >
+                      <Icon className="w-4 h-4" />
+                      <span>{ROUTING_LABELS[routing]}</span>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
       </div>
 
       {/* Color Palette */}
@@ -164,9 +319,16 @@ const ToolPalette: React.FC<ToolPaletteProps> = ({
         </button>
         
         <button
-          onClick={handleDownload}
-          className="w-12 h-12 rounded-lg flex items-center justify-center bg-green-600 text-white hover:bg-green-700 transition-colors shadow-lg"
-          title="Download Code"
+          onClick={onExportProject}
+          disabled={!canExportProject}
+          className={`
+            w-12 h-12 rounded-lg flex items-center justify-center transition-colors
+            ${canExportProject
+              ? 'bg-green-600 text-white hover:bg-green-700 shadow-lg'
+              : 'bg-gray-100 text-gray-400 cursor-not-allowed'
+            }
+          `}
+          title={canExportProject ? 'Export as Vite project (.zip)' : 'Generate React code to export a project'}
         >
           <Download className="w-5 h-5" />
         </button>
@@ -1,10 +1,76 @@
-import React, { useRef, useEffect, useState, useImperativeHandle, forwardRef, useCallback } from 'react';
-import { CanvasElement, Tool, WhiteboardSettings } from '../types';
+import React, { useRef, useEffect, useState, useImperativeHandle, forwardRef, useCallback, useMemo } from 'react';
+import { Focus, Maximize, MousePointer2, Wand2, ZoomIn, ZoomOut } from 'lucide-react';
+import { CanvasElement, ConnectorRouting, StencilKind, Tool, WhiteboardSettings } from '../types';
+import {
+  NOTE_STYLE,
+  createNote,
+  getNoteLeaders,
+  getNoteLines,
+  getNoteTargetIds,
+  getNoteText,
+  isNote,
+  setNoteTargets,
+  setNoteText,
+} from '../utils/annotations';
+import { RemoteCursor } from '../utils/collaboration';
+import { ROUTING_LABELS, createConnector, getPolylineMidpoint, routeConnector, routeConnectors } from '../utils/connectors';
+import {
+  Camera,
+  DEFAULT_CAMERA,
+  Viewport,
+  centerCamera,
+  fitCamera,
+  getVisibleBounds,
+  panCamera,
+  screenToWorld,
+  worldToScreen,
+  zoomCamera,
+} from '../utils/camera';
+import {
+  Bounds,
+  Point,
+  ResizeHandle,
+  boundsIntersect,
+  distanceToSegment,
+  expandBounds,
+  getArrowHeadPoints,
+  getElementBounds,
+  getElementsBounds,
+  getHandlePositions,
+  isBoxElement,
+  isResizable,
+  normalizeRect,
+  resizeElement,
+  translateElement,
+} from '../utils/elementGeometry';
+import { createElementId } from '../utils/elementIds';
+import { FRAME_STYLE, createFrame, framesFirst, getFrameName, isFrame, withFrameContents } from '../utils/frames';
+import { RecognizedShape, SHAPE_LABELS, recognizeElement, recognizeStroke, shapeToElement } from '../utils/shapeRecognizer';
+import {
+  STENCILS,
+  StencilPrimitive,
+  createStencil,
+  getStencilField,
+  getStencilPrimitives,
+  isStencil,
+  setStencilField,
+} from '../utils/stencils';
+import Minimap from './Minimap';
 
 interface WhiteboardProps {
   selectedTool: Tool;
+  // Stencil placed by the stencil tool
+  stencilKind: StencilKind;
+  // Routing of new connectors
+  connectorRouting: ConnectorRouting;
   onElementsChange: (elements: CanvasElement[]) => void;
   settings: WhiteboardSettings;
+  initialElements?: CanvasElement[];
+  remoteCursors?: RemoteCursor[];
+  onCursorMove?: (position: Point | null) => void;
+  // Elements to point out, e.g. the ones behind the code line under the pointer
+  highlightedIds?: string[];
+  onSelectionChange?: (ids: string[]) => void;
 }
 
 export interface WhiteboardRef {
@@ -13,17 +79,156 @@ export interface WhiteboardRef {
   getElements: () => CanvasElement[];
   getCanvasDimensions: () => { width: number; height: number };
   addElement: (element: CanvasElement) => void;
+  // Adds several elements as one change, e.g. a wireframe imported from code
+  addElements: (elements: CanvasElement[]) => void;
+  // Pass notify = false for changes that did not originate here, such as undo or remote edits
+  replaceElements: (elements: CanvasElement[], notify?: boolean) => void;
+  // World area covered by exports: everything drawn plus a margin, or the viewport when empty
+  getExportBounds: () => Bounds;
+  // Renders the export bounds at 1:1 scale in world coordinates
+  getExportCanvas: () => HTMLCanvasElement | null;
 }
 
-const Whiteboard = forwardRef<WhiteboardRef, WhiteboardProps>(({ selectedTool, onElementsChange, settings }, ref) => {
+interface SelectionDrag {
+  mode: 'move' | 'resize' | 'marquee';
+  start: Point;
+  origin: CanvasElement[];
+  handle?: ResizeHandle;
+  baseSelection?: string[];
+  // Elements carried by a move: the selection plus the contents of selected frames
+  moving?: string[];
+  changed?: boolean;
+}
+
+interface PanDrag {
+  start: Point;
+  origin: Camera;
+}
+
+// A freehand stroke that can be replaced by the structured shape it resembles
+interface ShapeConversion {
+  id: string;
+  shape: RecognizedShape;
+}
+
+// Handle size, hit tolerances and selection outlines are in screen pixels
+const HANDLE_SIZE = 8;
+const HIT_TOLERANCE = 10;
+const SELECTION_COLOR = '#3b82f6';
+const HIGHLIGHT_COLOR = '#f59e0b';
+const NO_HIGHLIGHTS: string[] = [];
+const GRID_SIZE = 20;
+const EXPORT_PADDING = 20;
+const ZOOM_STEP = 1.2;
+
+// Dashed lines from each note to the elements it describes, ending in a dot on the target
+const drawNoteLeaders = (ctx: CanvasRenderingContext2D, elements: CanvasElement[]) => {
+  elements.filter(isNote).forEach(note => {
+    getNoteLeaders(note, elements).forEach(([from, to]) => {
+      ctx.save();
+      ctx.strokeStyle = NOTE_STYLE.leader;
+      ctx.fillStyle = NOTE_STYLE.leader;
+      ctx.lineWidth = 1.5;
+      ctx.setLineDash([6, 4]);
+      ctx.beginPath();
+      ctx.moveTo(from.x, from.y);
+      ctx.lineTo(to.x, to.y);
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.arc(to.x, to.y, 3, 0, 2 * Math.PI);
+      ctx.fill();
+      ctx.restore();
+    });
+  });
+};
+
+const drawPrimitives = (ctx: CanvasRenderingContext2D, primitives: StencilPrimitive[], color: string) => {
+  primitives.forEach(primitive => {
+    ctx.save();
+    switch (primitive.type) {
+      case 'rect':
+      case 'ellipse':
+        ctx.beginPath();
+        if (primitive.type === 'rect') {
+          ctx.roundRect(primitive.x, primitive.y, primitive.width, primitive.height, primitive.radius || 0);
+        } else {
+          ctx.ellipse(primitive.cx, primitive.cy, primitive.rx, primitive.ry, 0, 0, 2 * Math.PI);
+        }
+        if (primitive.fill) {
+          ctx.fillStyle = primitive.fill;
+          ctx.fill();
+        }
+        if (primitive.stroke !== false) ctx.stroke();
+        break;
+      case 'polyline':
+        ctx.strokeStyle = primitive.color || color;
+        ctx.beginPath();
+        primitive.points.forEach((point, index) => {
+          if (index === 0) ctx.moveTo(point.x, point.y);
+          else ctx.lineTo(point.x, point.y);
+        });
+        ctx.stroke();
+        break;
+      case 'text':
+        ctx.font = `${primitive.bold ? '600 ' : ''}${primitive.size}px Inter, system-ui, sans-serif`;
+        ctx.fillStyle = primitive.color || color;
+        ctx.textAlign = primitive.align || 'left';
+        ctx.textBaseline = 'middle';
+        ctx.fillText(primitive.text, primitive.x, primitive.y);
+        break;
+    }
+    ctx.restore();
+  });
+};
+
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const Whiteboard = forwardRef<WhiteboardRef, WhiteboardProps>(({
+  selectedTool,
+  stencilKind,
+  connectorRouting,
+  onElementsChange,
+  settings,
+  initialElements = [],
+  remoteCursors = [],
+  onCursorMove,
+  highlightedIds = NO_HIGHLIGHTS,
+  onSelectionChange,
+}, ref) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [isDrawing, setIsDrawing] = useState(false);
-  const [elements, setElements] = useState<CanvasElement[]>([]);
+  const [elements, setElements] = useState<CanvasElement[]>(initialElements);
   const [currentPath, setCurrentPath] = useState<{ x: number; y: number }[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [marquee, setMarquee] = useState<Bounds | null>(null);
+  const selectionDrag = useRef<SelectionDrag | null>(null);
+  const [camera, setCamera] = useState<Camera>(DEFAULT_CAMERA);
+  const [viewport, setViewport] = useState<Viewport>({ width: 0, height: 0 });
+  const [isSpaceDown, setIsSpaceDown] = useState(false);
+  const [isPanning, setIsPanning] = useState(false);
+  const panDrag = useRef<PanDrag | null>(null);
+  // Where the stencil or frame being placed was first clicked
+  const placementStart = useRef<Point | null>(null);
+  // Offered right after a pen stroke that resembles a shape
+  const [suggestion, setSuggestion] = useState<ShapeConversion | null>(null);
+
+  // Selection only makes sense while the select tool is active
+  useEffect(() => {
+    setSelectedIds([]);
+    setSuggestion(null);
+  }, [selectedTool]);
+
+  useEffect(() => {
+    onSelectionChange?.(selectedIds);
+  }, [selectedIds, onSelectionChange]);
 
   const clearCanvas = () => {
     setElements([]);
     setCurrentPath([]);
+    setSelectedIds([]);
+    setSuggestion(null);
     onElementsChange([]);
   };
 
@@ -33,6 +238,35 @@ const Whiteboard = forwardRef<WhiteboardRef, WhiteboardProps>(({ selectedTool, o
     onElementsChange(newElements);
   };
 
+  // Zooms to fit afterwards, since a batch usually lands next to the drawing rather than in view
+  const addElements = (added: CanvasElement[]) => {
+    const newElements = [...elements, ...added];
+    setElements(newElements);
+    onElementsChange(newElements);
+    zoomToBounds(getElementsBounds(newElements));
+  };
+
+  const replaceElements = (incoming: CanvasElement[], notify = true) => {
+    // Keep a shape that is still being dragged out on top of the incoming elements
+    const drawnShape = isDrawing && ['rectangle', 'circle', 'stencil', 'connector', 'frame'].includes(selectedTool)
+      ? elements[elements.length - 1]
+      : undefined;
+    const newElements = drawnShape && !incoming.some(element => element.id === drawnShape.id)
+      ? [...incoming, drawnShape]
+      : incoming;
+
+    setElements(newElements);
+    // Keep the selection on elements that still exist
+    setSelectedIds(prev => prev.filter(id => newElements.some(element => element.id === id)));
+    // Drop the suggestion when its stroke was undone, erased or changed elsewhere
+    setSuggestion(prev =>
+      prev && newElements.some(element => element.id === prev.id && element.type === 'path') ? prev : null
+    );
+    if (notify) {
+      onElementsChange(newElements);
+    }
+  };
+
   useImperativeHandle(ref, () => ({
     clearCanvas,
     getCanvasRef: () => canvasRef.current,
@@ -43,7 +277,11 @@ const Whiteboard = forwardRef<WhiteboardRef, WhiteboardProps>(({ selectedTool, o
       const rect = canvas.getBoundingClientRect();
       return { width: rect.width, height: rect.height };
     },
-    addElement
+    addElement,
+    addElements,
+    replaceElements,
+    getExportBounds,
+    getExportCanvas
   }));
 
   const drawElement = useCallback((ctx: CanvasRenderingContext2D, element: CanvasElement) => {
@@ -75,6 +313,51 @@ const Whiteboard = forwardRef<WhiteboardRef, WhiteboardProps>(({ selectedTool, o
         ctx.strokeRect(element.position.x, element.position.y, rectWidth, rectHeight);
         break;
       }
+      case 'frame': {
+        const width = element.dimensions?.width || 100;
+        const height = element.dimensions?.height || 100;
+        ctx.fillStyle = FRAME_STYLE.fill;
+        ctx.fillRect(element.position.x, element.position.y, width, height);
+        ctx.strokeStyle = FRAME_STYLE.border;
+        ctx.lineWidth = 1;
+        ctx.strokeRect(element.position.x, element.position.y, width, height);
+        ctx.font = `${FRAME_STYLE.titleSize}px Inter, system-ui, sans-serif`;
+        ctx.fillStyle = FRAME_STYLE.title;
+        ctx.fillText(getFrameName(element), element.position.x, element.position.y - 6);
+        break;
+      }
+      case 'note': {
+        const { x, y } = element.position;
+        const width = element.dimensions?.width || 100;
+        const height = element.dimensions?.height || 100;
+        const fold = Math.min(12, width / 4, height / 4);
+        // A sticky note with its bottom-right corner folded over
+        ctx.beginPath();
+        ctx.moveTo(x, y);
+        ctx.lineTo(x + width, y);
+        ctx.lineTo(x + width, y + height - fold);
+        ctx.lineTo(x + width - fold, y + height);
+        ctx.lineTo(x, y + height);
+        ctx.closePath();
+        ctx.fillStyle = NOTE_STYLE.fill;
+        ctx.fill();
+        ctx.strokeStyle = NOTE_STYLE.border;
+        ctx.lineWidth = 1;
+        ctx.stroke();
+        ctx.beginPath();
+        ctx.moveTo(x + width, y + height - fold);
+        ctx.lineTo(x + width - fold, y + height - fold);
+        ctx.lineTo(x + width - fold, y + height);
+        ctx.stroke();
+        ctx.font = `${NOTE_STYLE.fontSize}px Inter, system-ui, sans-serif`;
+        ctx.fillStyle = NOTE_STYLE.text;
+        ctx.textBaseline = 'top';
+        getNoteLines(getNoteText(element), width).forEach((line, index) => {
+          ctx.fillText(line, x + NOTE_STYLE.padding, y + NOTE_STYLE.padding + index * NOTE_STYLE.lineHeight);
+        });
+        ctx.textBaseline = 'alphabetic';
+        break;
+      }
       case 'circle': {
         const radius = element.dimensions?.width || 50;
         ctx.beginPath();
@@ -89,29 +372,156 @@ const Whiteboard = forwardRef<WhiteboardRef, WhiteboardProps>(({ selectedTool, o
         ctx.stroke();
         break;
       }
+      case 'ellipse': {
+        const width = element.dimensions?.width || 100;
+        const height = element.dimensions?.height || 100;
+        ctx.beginPath();
+        ctx.ellipse(element.position.x + width / 2, element.position.y + height / 2, width / 2, height / 2, 0, 0, 2 * Math.PI);
+        if (element.fillColor && element.fillColor !== 'transparent') {
+          ctx.fill();
+        }
+        ctx.stroke();
+        break;
+      }
+      case 'line':
+      case 'arrow':
+      case 'triangle':
+      case 'connector': {
+        const points = element.data.points || [];
+        if (points.length < 2) break;
+        ctx.beginPath();
+        ctx.moveTo(points[0].x, points[0].y);
+        points.slice(1).forEach(point => ctx.lineTo(point.x, point.y));
+        if (element.type === 'triangle') {
+          ctx.closePath();
+          if (element.fillColor && element.fillColor !== 'transparent') {
+            ctx.fill();
+          }
+        }
+        ctx.stroke();
+
+        if (element.type === 'arrow' || element.type === 'connector') {
+          const tip = points[points.length - 1];
+          const [left, right] = getArrowHeadPoints(points[points.length - 2], tip, Math.max(10, ctx.lineWidth * 4));
+          ctx.beginPath();
+          ctx.moveTo(left.x, left.y);
+          ctx.lineTo(tip.x, tip.y);
+          ctx.lineTo(right.x, right.y);
+          ctx.stroke();
+        }
+
+        if (element.type === 'connector' && typeof element.data.label === 'string' && element.data.label) {
+          // Labels sit on a white box in the middle of the route
+          const middle = getPolylineMidpoint(points);
+          ctx.font = `13px Inter, system-ui, sans-serif`;
+          const width = ctx.measureText(element.data.label).width + 12;
+          ctx.fillStyle = '#ffffff';
+          ctx.fillRect(middle.x - width / 2, middle.y - 10, width, 20);
+          ctx.fillStyle = element.color || settings.strokeColor;
+          ctx.textAlign = 'center';
+          ctx.textBaseline = 'middle';
+          ctx.fillText(element.data.label, middle.x, middle.y);
+          ctx.textAlign = 'left';
+          ctx.textBaseline = 'alphabetic';
+        }
+        break;
+      }
       case 'text':
         ctx.font = `${settings.fontSize}px Inter, system-ui, sans-serif`;
         ctx.fillStyle = element.color || settings.strokeColor;
         ctx.fillText(element.data.text || 'Text', element.position.x, element.position.y);
         break;
+      default:
+        // Stencils and form control glyphs
+        drawPrimitives(ctx, getStencilPrimitives(element), element.color || settings.strokeColor);
     }
   }, [settings]);
 
-  useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
+  const drawSelection = useCallback((ctx: CanvasRenderingContext2D) => {
+    const selected = elements.filter(el => selectedIds.includes(el.id));
+    // Convert screen pixels to world units so outlines keep their size at any zoom
+    const pixel = 1 / camera.zoom;
+    const handleSize = HANDLE_SIZE * pixel;
 
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
+    ctx.save();
+    ctx.strokeStyle = HIGHLIGHT_COLOR;
+    ctx.fillStyle = 'rgba(245, 158, 11, 0.12)';
+    ctx.lineWidth = 2 * pixel;
+    elements.filter(element => highlightedIds.includes(element.id)).forEach(element => {
+      const bounds = expandBounds(getElementBounds(element), 6 * pixel);
+      ctx.fillRect(bounds.x, bounds.y, bounds.width, bounds.height);
+      ctx.strokeRect(bounds.x, bounds.y, bounds.width, bounds.height);
+    });
+    ctx.restore();
 
-    // Set canvas size
-    const rect = canvas.getBoundingClientRect();
-    canvas.width = rect.width * window.devicePixelRatio;
-    canvas.height = rect.height * window.devicePixelRatio;
-    ctx.scale(window.devicePixelRatio, window.devicePixelRatio);
+    ctx.save();
+    ctx.strokeStyle = SELECTION_COLOR;
+    ctx.lineWidth = pixel;
+    ctx.setLineDash([4 * pixel, 4 * pixel]);
+
+    selected.forEach(element => {
+      const bounds = expandBounds(getElementBounds(element), 4 * pixel);
+      ctx.strokeRect(bounds.x, bounds.y, bounds.width, bounds.height);
+    });
+
+    if (marquee) {
+      ctx.fillStyle = 'rgba(59, 130, 246, 0.08)';
+      ctx.fillRect(marquee.x, marquee.y, marquee.width, marquee.height);
+      ctx.strokeRect(marquee.x, marquee.y, marquee.width, marquee.height);
+    }
+
+    // Corner handles are only offered for a single resizable element
+    ctx.setLineDash([]);
+    if (selected.length === 1 && isResizable(selected[0])) {
+      const handles = getHandlePositions(getElementBounds(selected[0]));
+      ctx.fillStyle = '#ffffff';
+      Object.values(handles).forEach(handle => {
+        ctx.fillRect(handle.x - handleSize / 2, handle.y - handleSize / 2, handleSize, handleSize);
+        ctx.strokeRect(handle.x - handleSize / 2, handle.y - handleSize / 2, handleSize, handleSize);
+      });
+    }
+    ctx.restore();
+  }, [elements, selectedIds, highlightedIds, marquee, camera.zoom]);
+
+  // Grid lines covering the visible world area; spacing doubles when zoomed out so lines stay apart
+  const drawGrid = useCallback((ctx: CanvasRenderingContext2D, view: Camera, size: Viewport) => {
+    const visible = getVisibleBounds(view, size);
+    let step = GRID_SIZE;
+    while (step * view.zoom < 8) step *= 2;
+
+    ctx.strokeStyle = '#f3f4f6';
+    ctx.lineWidth = 1 / view.zoom;
+
+    for (let x = Math.floor(visible.x / step) * step; x <= visible.x + visible.width; x += step) {
+      ctx.beginPath();
+      ctx.moveTo(x, visible.y);
+      ctx.lineTo(x, visible.y + visible.height);
+      ctx.stroke();
+    }
+
+    for (let y = Math.floor(visible.y / step) * step; y <= visible.y + visible.height; y += step) {
+      ctx.beginPath();
+      ctx.moveTo(visible.x, y);
+      ctx.lineTo(visible.x + visible.width, y);
+      ctx.stroke();
+    }
+  }, []);
+
+  // Draws the board as seen through `view` onto a canvas sized `size` CSS pixels
+  const renderScene = useCallback((
+    ctx: CanvasRenderingContext2D,
+    view: Camera,
+    size: Viewport,
+    withOverlays: boolean
+  ) => {
+    const scale = window.devicePixelRatio * view.zoom;
 
     // Clear canvas
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+
+    // Everything below is drawn in world coordinates
+    ctx.setTransform(scale, 0, 0, scale, -view.x * scale, -view.y * scale);
     
     // Set drawing style based on settings
     ctx.lineCap = 'round';
@@ -120,15 +530,20 @@ const Whiteboard = forwardRef<WhiteboardRef, WhiteboardProps>(({ selectedTool, o
     ctx.lineWidth = settings.strokeWidth;
 
     // Draw grid
-    drawGrid(ctx, rect.width, rect.height);
+    drawGrid(ctx, view, size);
     
-    // Redraw all elements
-    elements.forEach(element => {
+    // Redraw all elements, frames underneath
+    framesFirst(elements).forEach(element => {
       drawElement(ctx, element);
     });
+    drawNoteLeaders(ctx, elements);
+
+    if (!withOverlays) return;
 
     // Draw current path
     if (currentPath.length > 1) {
+      ctx.strokeStyle = settings.strokeColor;
+      ctx.lineWidth = settings.strokeWidth;
       ctx.beginPath();
       ctx.moveTo(currentPath[0].x, currentPath[0].y);
       currentPath.slice(1).forEach(point => {
@@ -136,29 +551,131 @@ const Whiteboard = forwardRef<WhiteboardRef, WhiteboardProps>(({ selectedTool, o
       });
       ctx.stroke();
     }
-  }, [elements, currentPath, settings, drawElement]);
 
-  const drawGrid = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
-    const gridSize = 20;
-    ctx.strokeStyle = '#f3f4f6';
-    ctx.lineWidth = 1;
+    drawSelection(ctx);
+  }, [elements, currentPath, settings, drawGrid, drawElement, drawSelection]);
 
-    for (let x = 0; x <= width; x += gridSize) {
-      ctx.beginPath();
-      ctx.moveTo(x, 0);
-      ctx.lineTo(x, height);
-      ctx.stroke();
-    }
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
 
-    for (let y = 0; y <= height; y += gridSize) {
-      ctx.beginPath();
-      ctx.moveTo(0, y);
-      ctx.lineTo(width, y);
-      ctx.stroke();
-    }
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    // Set canvas size
+    const rect = canvas.getBoundingClientRect();
+    canvas.width = rect.width * window.devicePixelRatio;
+    canvas.height = rect.height * window.devicePixelRatio;
+
+    renderScene(ctx, camera, { width: rect.width, height: rect.height }, true);
+  }, [renderScene, camera, viewport]);
+
+  // Track the viewport size so resizing the window redraws and keeps zoom-to-fit accurate
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const observer = new ResizeObserver(() => {
+      const rect = canvas.getBoundingClientRect();
+      setViewport({ width: rect.width, height: rect.height });
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  // Wheel and trackpad pinch (reported as ctrl+wheel) zoom around the pointer
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      const anchor = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+      const factor = Math.exp(-e.deltaY * (e.ctrlKey ? 0.01 : 0.0015));
+      setCamera(prev => zoomCamera(prev, factor, anchor));
+    };
+
+    // Registered natively because React wheel listeners are passive and cannot prevent page scrolling
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const zoomToBounds = (bounds: Bounds | null) => {
+    setCamera(bounds ? fitCamera(bounds, viewport) : DEFAULT_CAMERA);
+  };
+
+  const zoomToFit = () => zoomToBounds(getElementsBounds(elements));
+
+  const zoomToSelection = () => {
+    const selected = elements.filter(element => selectedIds.includes(element.id));
+    if (selected.length > 0) zoomToBounds(getElementsBounds(selected));
   };
 
-  const getMousePos = (e: React.MouseEvent<HTMLCanvasElement>) => {
+  const zoomBy = (factor: number) => {
+    setCamera(prev => zoomCamera(prev, factor, { x: viewport.width / 2, y: viewport.height / 2 }));
+  };
+
+  // Space held down turns dragging into panning; Shift+1 fits the board, Shift+2 the selection
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target)) return;
+
+      if (e.code === 'Space') {
+        e.preventDefault();
+        setIsSpaceDown(true);
+      } else if (e.shiftKey && e.code === 'Digit1') {
+        zoomToFit();
+      } else if (e.shiftKey && e.code === 'Digit2') {
+        zoomToSelection();
+      }
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setIsSpaceDown(false);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  });
+
+  const getExportBounds = (): Bounds => {
+    const content = getElementsBounds(elements);
+    return content ? expandBounds(content, EXPORT_PADDING) : getVisibleBounds(camera, viewport);
+  };
+
+  const getExportCanvas = () => {
+    const bounds = getExportBounds();
+    if (bounds.width <= 0 || bounds.height <= 0) return null;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(bounds.width * window.devicePixelRatio);
+    canvas.height = Math.ceil(bounds.height * window.devicePixelRatio);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    renderScene(ctx, { x: bounds.x, y: bounds.y, zoom: 1 }, bounds, false);
+    return canvas;
+  };
+
+  const getHandleAt = (pos: Point): ResizeHandle | null => {
+    if (selectedIds.length !== 1) return null;
+    const element = elements.find(el => el.id === selectedIds[0]);
+    if (!element || !isResizable(element)) return null;
+
+    const handles = getHandlePositions(getElementBounds(element));
+    const tolerance = HANDLE_SIZE / camera.zoom;
+    const handle = (Object.keys(handles) as ResizeHandle[]).find(key =>
+      Math.abs(pos.x - handles[key].x) <= tolerance &&
+      Math.abs(pos.y - handles[key].y) <= tolerance
+    );
+    return handle || null;
+  };
+
+  const getScreenPos = (e: React.MouseEvent<HTMLCanvasElement>): Point => {
     const canvas = canvasRef.current;
     if (!canvas) return { x: 0, y: 0 };
 
@@ -169,11 +686,25 @@ const Whiteboard = forwardRef<WhiteboardRef, WhiteboardProps>(({ selectedTool, o
     };
   };
 
+  // Pointer position in world coordinates, which is what elements are stored in
+  const getMousePos = (e: React.MouseEvent<HTMLCanvasElement>): Point => screenToWorld(getScreenPos(e), camera);
+
   const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    // Middle mouse button or space + drag pans the camera
+    if (e.button === 1 || isSpaceDown) {
+      e.preventDefault();
+      panDrag.current = { start: getScreenPos(e), origin: camera };
+      setIsPanning(true);
+      return;
+    }
+
     const pos = getMousePos(e);
     setIsDrawing(true);
+    setSuggestion(null);
 
-    if (selectedTool === 'eraser') {
+    if (selectedTool === 'select') {
+      handleSelectMouseDown(pos, e.shiftKey);
+    } else if (selectedTool === 'eraser') {
       // Find and remove elements at this position
       const elementToRemove = elements.find(element => isPointInElement(pos, element));
       if (elementToRemove) {
@@ -185,7 +716,7 @@ const Whiteboard = forwardRef<WhiteboardRef, WhiteboardProps>(({ selectedTool, o
       setCurrentPath([pos]);
     } else if (selectedTool === 'rectangle' || selectedTool === 'circle') {
       const newElement: CanvasElement = {
-        id: Date.now().toString(),
+        id: createElementId(),
         type: selectedTool,
         data: {},
         position: pos,
@@ -196,11 +727,35 @@ const Whiteboard = forwardRef<WhiteboardRef, WhiteboardProps>(({ selectedTool, o
         fillColor: settings.fillColor,
       };
       setElements(prev => [...prev, newElement]);
+    } else if (selectedTool === 'connector') {
+      // Starting on an element attaches the connector to it
+      const source = findConnectable(pos, elements);
+      const connector = createConnector(pos, source?.id, connectorRouting, { color: settings.strokeColor, strokeWidth: settings.strokeWidth });
+      setElements(prev => [...prev, routeConnector(connector, prev)]);
+    } else if (selectedTool === 'stencil') {
+      // A click places the stencil at its default size; dragging sizes it
+      placementStart.current = pos;
+      const newElement = createStencil(stencilKind, pos, { color: settings.strokeColor, strokeWidth: settings.strokeWidth });
+      setElements(prev => [...prev, newElement]);
+    } else if (selectedTool === 'frame') {
+      // Frames are placed like stencils and named once they are in place
+      placementStart.current = pos;
+      const newElement = createFrame(pos, `Page ${elements.filter(isFrame).length + 1}`, { color: settings.strokeColor, strokeWidth: 1 });
+      setElements(prev => [...prev, newElement]);
+    } else if (selectedTool === 'note') {
+      // Clicking an element annotates it; clicking empty space leaves a note about the whole drawing
+      const target = findElementAt(pos, elements.filter(element => !isNote(element)));
+      const text = prompt(target ? `Note about this ${target.type}:` : 'Note about the drawing:');
+      if (text && text.trim()) {
+        const newElements = [...elements, createNote(pos, text.trim(), target ? [target] : [])];
+        setElements(newElements);
+        onElementsChange(newElements);
+      }
     } else if (selectedTool === 'text') {
       const text = prompt('Enter text:');
       if (text) {
         const newElement: CanvasElement = {
-          id: Date.now().toString(),
+          id: createElementId(),
           type: 'text',
           data: { text },
           position: pos,
@@ -213,8 +768,106 @@ const Whiteboard = forwardRef<WhiteboardRef, WhiteboardProps>(({ selectedTool, o
     }
   };
 
+  const handleSelectMouseDown = (pos: Point, additive: boolean) => {
+    const handle = getHandleAt(pos);
+    if (handle) {
+      selectionDrag.current = { mode: 'resize', start: pos, origin: elements, handle };
+      return;
+    }
+
+    const hit = findElementAt(pos, elements);
+    if (hit) {
+      let nextSelection: string[];
+      if (additive) {
+        nextSelection = selectedIds.includes(hit.id)
+          ? selectedIds.filter(id => id !== hit.id)
+          : [...selectedIds, hit.id];
+      } else {
+        nextSelection = selectedIds.includes(hit.id) ? selectedIds : [hit.id];
+      }
+      setSelectedIds(nextSelection);
+
+      if (nextSelection.includes(hit.id)) {
+        selectionDrag.current = { mode: 'move', start: pos, origin: elements, moving: withFrameContents(nextSelection, elements) };
+      }
+      return;
+    }
+
+    // Empty space starts a rubber-band selection
+    if (!additive) setSelectedIds([]);
+    selectionDrag.current = {
+      mode: 'marquee',
+      start: pos,
+      origin: elements,
+      baseSelection: additive ? selectedIds : [],
+    };
+    setMarquee({ x: pos.x, y: pos.y, width: 0, height: 0 });
+  };
+
+  const handleSelectMouseMove = (pos: Point) => {
+    const drag = selectionDrag.current;
+    if (!drag) return;
+
+    switch (drag.mode) {
+      case 'move': {
+        const dx = pos.x - drag.start.x;
+        const dy = pos.y - drag.start.y;
+        drag.changed = dx !== 0 || dy !== 0;
+        const moving = drag.moving || selectedIds;
+        setElements(routeConnectors(drag.origin.map(element =>
+          moving.includes(element.id) ? translateElement(element, dx, dy) : element
+        )));
+        break;
+      }
+      case 'resize':
+        drag.changed = true;
+        setElements(routeConnectors(drag.origin.map(element =>
+          element.id === selectedIds[0] && drag.handle ? resizeElement(element, drag.handle, pos) : element
+        )));
+        break;
+      case 'marquee':
+        setMarquee(normalizeRect(drag.start, pos));
+        break;
+    }
+  };
+
+  const handleSelectMouseUp = () => {
+    const drag = selectionDrag.current;
+    selectionDrag.current = null;
+    if (!drag) return;
+
+    if (drag.mode === 'marquee') {
+      if (marquee && (marquee.width > 0 || marquee.height > 0)) {
+        const hits = elements
+          .filter(element => boundsIntersect(marquee, getElementBounds(element)))
+          .map(element => element.id);
+        setSelectedIds([...new Set([...(drag.baseSelection || []), ...hits])]);
+      }
+      setMarquee(null);
+    } else if (drag.changed) {
+      onElementsChange(elements);
+    }
+  };
+
+  // Topmost element wins, so search from the end of the draw order, in which frames come first
+  const findElementAt = (pos: Point, candidates: CanvasElement[]) =>
+    [...framesFirst(candidates)].reverse().find(element => isPointInElement(pos, element));
+
+  // Element a connector end attaches to: the element under the pointer, or else the frame it is inside of
+  const findConnectable = (pos: Point, candidates: CanvasElement[], excludeId?: string) => {
+    const attachable = candidates.filter(element => element.type !== 'connector' && !isNote(element) && element.id !== excludeId);
+    return findElementAt(pos, attachable) || [...attachable].reverse().find(element => {
+      if (!isFrame(element)) return false;
+      const bounds = getElementBounds(element);
+      return pos.x >= bounds.x && pos.x <= bounds.x + bounds.width && pos.y >= bounds.y && pos.y <= bounds.y + bounds.height;
+    });
+  };
+
   // Helper function to check if a point is inside an element
   const isPointInElement = (point: { x: number; y: number }, element: CanvasElement): boolean => {
+    // Same on-screen tolerance at any zoom
+    const tolerance = HIT_TOLERANCE / camera.zoom;
+
     switch (element.type) {
       case 'rectangle': {
         const width = element.dimensions?.width || 100;
@@ -236,9 +889,41 @@ const Whiteboard = forwardRef<WhiteboardRef, WhiteboardProps>(({ selectedTool, o
         return element.data.points.some((pathPoint: { x: number; y: number }) => {
           const dx = point.x - pathPoint.x;
           const dy = point.y - pathPoint.y;
-          return Math.sqrt(dx * dx + dy * dy) <= 10; // 10px tolerance
+          return Math.sqrt(dx * dx + dy * dy) <= tolerance;
         });
       }
+      case 'ellipse': {
+        const bounds = getElementBounds(element);
+        const rx = bounds.width / 2;
+        const ry = bounds.height / 2;
+        return Math.hypot((point.x - bounds.x - rx) / rx, (point.y - bounds.y - ry) / ry) <= 1;
+      }
+      case 'line':
+      case 'arrow':
+      case 'triangle':
+      case 'connector': {
+        const points = element.data.points || [];
+        const edges = element.type === 'triangle' ? [...points, points[0]] : points;
+        const onEdge = edges.slice(1).some((end, index) => distanceToSegment(point, edges[index], end) <= tolerance);
+        if (onEdge || element.type !== 'triangle' || points.length !== 3) return onEdge;
+        // Inside when the point is on the same side of all three edges
+        const sides = points.map((start, index) => {
+          const end = points[(index + 1) % 3];
+          return Math.sign((end.x - start.x) * (point.y - start.y) - (end.y - start.y) * (point.x - start.x));
+        });
+        return sides.every(side => side >= 0) || sides.every(side => side <= 0);
+      }
+      case 'frame': {
+        // Frames are grabbed by their name or border, so clicks inside reach what is drawn in them
+        const bounds = getElementBounds(element);
+        const inTitle = point.x >= bounds.x && point.x <= bounds.x + bounds.width &&
+          point.y >= bounds.y - FRAME_STYLE.titleHeight && point.y <= bounds.y;
+        const inOuter = point.x >= bounds.x - tolerance && point.x <= bounds.x + bounds.width + tolerance &&
+          point.y >= bounds.y - tolerance && point.y <= bounds.y + bounds.height + tolerance;
+        const inInner = point.x > bounds.x + tolerance && point.x < bounds.x + bounds.width - tolerance &&
+          point.y > bounds.y + tolerance && point.y < bounds.y + bounds.height - tolerance;
+        return inTitle || (inOuter && !inInner);
+      }
       case 'text': {
         // Simple bounding box check for text
         const textWidth = (element.data.text?.length || 0) * 10; // Rough estimate
@@ -248,17 +933,32 @@ const Whiteboard = forwardRef<WhiteboardRef, WhiteboardProps>(({ selectedTool, o
                point.y >= element.position.y - textHeight && 
                point.y <= element.position.y;
       }
-      default:
-        return false;
+      default: {
+        // Stencils and form control glyphs are hit anywhere inside their box
+        if (!isBoxElement(element)) return false;
+        const bounds = getElementBounds(element);
+        return point.x >= bounds.x && point.x <= bounds.x + bounds.width &&
+               point.y >= bounds.y && point.y <= bounds.y + bounds.height;
+      }
     }
   };
 
   const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (!isDrawing) return;
-
     const pos = getMousePos(e);
+    onCursorMove?.(pos);
+
+    const pan = panDrag.current;
+    if (pan) {
+      const screen = getScreenPos(e);
+      setCamera(panCamera(pan.origin, screen.x - pan.start.x, screen.y - pan.start.y));
+      return;
+    }
 
-    if (selectedTool === 'pen') {
+    if (!isDrawing) return;
+
+    if (selectedTool === 'select') {
+      handleSelectMouseMove(pos);
+    } else if (selectedTool === 'pen') {
       setCurrentPath(prev => [...prev, pos]);
     } else if (selectedTool === 'rectangle' || selectedTool === 'circle') {
       setElements(prev => {
@@ -272,16 +972,51 @@ const Whiteboard = forwardRef<WhiteboardRef, WhiteboardProps>(({ selectedTool, o
         }
         return newElements;
       });
+    } else if (selectedTool === 'connector') {
+      setElements(prev => {
+        const connector = prev[prev.length - 1];
+        if (!connector || connector.type !== 'connector') return prev;
+        // The loose end follows the pointer and snaps to the element under it
+        const target = findConnectable(pos, prev, connector.data.sourceId as string | undefined);
+        const start = connector.data.points?.[0] || connector.position;
+        const moved = { ...connector, data: { ...connector.data, targetId: target?.id, points: [start, pos] } };
+        return [...prev.slice(0, -1), routeConnector(moved, prev)];
+      });
+    } else if ((selectedTool === 'stencil' || selectedTool === 'frame') && placementStart.current) {
+      const start = placementStart.current;
+      // Small pointer jitter keeps the default size
+      if (Math.max(Math.abs(pos.x - start.x), Math.abs(pos.y - start.y)) * camera.zoom < 4) return;
+      const rect = normalizeRect(start, pos);
+      setElements(prev => {
+        const newElements = [...prev];
+        const lastElement = newElements[newElements.length - 1];
+        if (lastElement) {
+          newElements[newElements.length - 1] = {
+            ...lastElement,
+            position: { x: rect.x, y: rect.y },
+            dimensions: { width: Math.max(rect.width, 1), height: Math.max(rect.height, 1) },
+          };
+        }
+        return newElements;
+      });
     }
   };
 
   const handleMouseUp = () => {
+    if (panDrag.current) {
+      panDrag.current = null;
+      setIsPanning(false);
+      return;
+    }
+
     if (!isDrawing) return;
     setIsDrawing(false);
 
-    if (selectedTool === 'pen' && currentPath.length > 1) {
+    if (selectedTool === 'select') {
+      handleSelectMouseUp();
+    } else if (selectedTool === 'pen' && currentPath.length > 1) {
       const newElement: CanvasElement = {
-        id: Date.now().toString(),
+        id: createElementId(),
         type: 'path',
         data: { points: currentPath },
         position: currentPath[0],
@@ -293,9 +1028,239 @@ const Whiteboard = forwardRef<WhiteboardRef, WhiteboardProps>(({ selectedTool, o
       setElements(newElements);
       onElementsChange(newElements);
       setCurrentPath([]);
+
+      const shape = recognizeStroke(currentPath);
+      setSuggestion(shape ? { id: newElement.id, shape } : null);
     } else if (selectedTool === 'rectangle' || selectedTool === 'circle') {
       onElementsChange(elements);
+    } else if (selectedTool === 'stencil') {
+      placementStart.current = null;
+      onElementsChange(elements);
+    } else if (selectedTool === 'frame') {
+      placementStart.current = null;
+      const frame = elements[elements.length - 1];
+      const name = frame?.type === 'frame' ? prompt('Frame name:', getFrameName(frame)) : null;
+      const newElements = name && name.trim() && frame
+        ? [...elements.slice(0, -1), { ...frame, data: { ...frame.data, name: name.trim() } }]
+        : elements;
+      setElements(newElements);
+      onElementsChange(newElements);
+    } else if (selectedTool === 'connector') {
+      const connector = elements[elements.length - 1];
+      const points = connector?.type === 'connector' ? connector.data.points || [] : [];
+      const length = points.length > 1
+        ? Math.hypot(points[points.length - 1].x - points[0].x, points[points.length - 1].y - points[0].y)
+        : 0;
+      // A click without a drag does not leave a stray connector behind
+      if (connector?.type === 'connector' && !connector.data.targetId && length * camera.zoom < 8) {
+        setElements(elements.slice(0, -1));
+      } else {
+        onElementsChange(elements);
+      }
+    }
+  };
+
+  // Double-clicking a stencil edits its main text, such as a button label or dropdown options
+  const handleDoubleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (selectedTool !== 'select') return;
+
+    const pos = getMousePos(e);
+    const hit = findElementAt(pos, elements);
+    if (hit?.type === 'connector') {
+      editConnectorLabel(hit);
+      return;
+    }
+    if (hit?.type === 'frame') {
+      renameFrame(hit);
+      return;
+    }
+    if (hit && isNote(hit)) {
+      editNote(hit);
+      return;
     }
+    if (!hit || !isStencil(hit)) return;
+
+    const text = prompt(STENCILS[hit.type as StencilKind].editField.prompt, getStencilField(hit));
+    if (text === null) return;
+
+    const newElements = elements.map(element => (element.id === hit.id ? setStencilField(element, text) : element));
+    setElements(newElements);
+    onElementsChange(newElements);
+  };
+
+  const renameFrame = (frame: CanvasElement) => {
+    const name = prompt('Frame name:', getFrameName(frame));
+    if (!name || !name.trim()) return;
+
+    const newElements = elements.map(element =>
+      element.id === frame.id ? { ...element, data: { ...element.data, name: name.trim() } } : element
+    );
+    setElements(newElements);
+    onElementsChange(newElements);
+  };
+
+  const updateNote = (note: CanvasElement) => {
+    const newElements = elements.map(element => (element.id === note.id ? note : element));
+    setElements(newElements);
+    onElementsChange(newElements);
+  };
+
+  const editNote = (note: CanvasElement) => {
+    const text = prompt('Note:', getNoteText(note));
+    if (text !== null && text.trim()) {
+      updateNote(setNoteText(note, text.trim()));
+    }
+  };
+
+  const updateConnector = (id: string, data: CanvasElement['data']) => {
+    const newElements = elements.map(element =>
+      element.id === id ? routeConnector({ ...element, data: { ...element.data, ...data } }, elements) : element
+    );
+    setElements(newElements);
+    onElementsChange(newElements);
+  };
+
+  const editConnectorLabel = (connector: CanvasElement) => {
+    const label = prompt('Connector label:', typeof connector.data.label === 'string' ? connector.data.label : '');
+    if (label !== null) {
+      updateConnector(connector.id, { label: label.trim() });
+    }
+  };
+
+  // Selected sketches that can be turned into shapes; recognition is skipped while dragging
+  const selectedConversions = useMemo<ShapeConversion[]>(() => {
+    if (selectedTool !== 'select' || isDrawing) return [];
+    return elements
+      .filter(element => selectedIds.includes(element.id))
+      .map(element => ({ id: element.id, shape: recognizeElement(element) }))
+      .filter((conversion): conversion is ShapeConversion => conversion.shape !== null);
+  }, [elements, selectedIds, selectedTool, isDrawing]);
+
+  const conversions = suggestion ? [suggestion] : selectedConversions;
+
+  const convertStrokes = () => {
+    const newElements = routeConnectors(elements.map(element => {
+      const conversion = conversions.find(candidate => candidate.id === element.id);
+      return conversion ? shapeToElement(conversion.shape, element) : element;
+    }));
+    setElements(newElements);
+    onElementsChange(newElements);
+    setSuggestion(null);
+  };
+
+  const renderConversionPrompt = () => {
+    if (conversions.length === 0) return null;
+
+    // Anchored just above the top-right corner of the strokes, kept inside the board
+    const bounds = conversions.map(conversion => conversion.shape.bounds);
+    const corner = worldToScreen({
+      x: Math.max(...bounds.map(box => box.x + box.width)),
+      y: Math.min(...bounds.map(box => box.y)),
+    }, camera);
+    const label = conversions.length === 1
+      ? `Looks like a ${SHAPE_LABELS[conversions[0].shape.kind]}`
+      : `${conversions.length} sketches look like shapes`;
+
+    return (
+      <div
+        className="absolute z-20 flex items-center space-x-2 px-2 py-1 bg-white border border-gray-200 rounded-md shadow-sm text-xs text-gray-600"
+        style={{
+          left: Math.min(Math.max(corner.x + 8, 8), Math.max(viewport.width - 260, 8)),
+          top: Math.min(Math.max(corner.y - 36, 8), Math.max(viewport.height - 40, 8)),
+        }}
+      >
+        <Wand2 className="w-3.5 h-3.5 text-blue-600" />
+        <span className="whitespace-nowrap">{label}</span>
+        <button onClick={convertStrokes} className="px-2 py-0.5 bg-blue-600 text-white rounded hover:bg-blue-700">
+          Convert
+        </button>
+        {suggestion && (
+          <button onClick={() => setSuggestion(null)} className="px-2 py-0.5 text-gray-500 hover:text-gray-900">
+            Keep sketch
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  // Routing and label controls for a single selected connector
+  const renderConnectorToolbar = () => {
+    const connector = selectedIds.length === 1 && !isDrawing
+      ? elements.find(element => element.id === selectedIds[0] && element.type === 'connector')
+      : undefined;
+    if (!connector || !connector.data.points || connector.data.points.length < 2) return null;
+
+    const anchor = worldToScreen(getPolylineMidpoint(connector.data.points), camera);
+    return (
+      <div
+        className="absolute z-20 flex items-center space-x-1 px-1 py-1 bg-white border border-gray-200 rounded-md shadow-sm text-xs text-gray-600"
+        style={{
+          left: Math.min(Math.max(anchor.x - 110, 8), Math.max(viewport.width - 230, 8)),
+          top: Math.min(Math.max(anchor.y + 16, 8), Math.max(viewport.height - 40, 8)),
+        }}
+      >
+        {(Object.keys(ROUTING_LABELS) as ConnectorRouting[]).map(routing => (
+          <button
+            key={routing}
+            onClick={() => updateConnector(connector.id, { routing })}
+            className={`px-2 py-0.5 rounded ${
+              (connector.data.routing || 'straight') === routing ? 'bg-blue-50 text-blue-700' : 'hover:bg-gray-100 hover:text-gray-900'
+            }`}
+          >
+            {ROUTING_LABELS[routing]}
+          </button>
+        ))}
+        <div className="w-px h-4 bg-gray-200" />
+        <button onClick={() => editConnectorLabel(connector)} className="px-2 py-0.5 rounded hover:bg-gray-100 hover:text-gray-900">
+          Label
+        </button>
+      </div>
+    );
+  };
+
+  // Editing and attaching for a selected note; selecting a note together with other elements offers to attach it to them
+  const renderNoteToolbar = () => {
+    if (selectedTool !== 'select' || isDrawing) return null;
+    const selected = elements.filter(element => selectedIds.includes(element.id));
+    const notes = selected.filter(isNote);
+    if (notes.length !== 1) return null;
+
+    const note = notes[0];
+    const others = selected.filter(element => !isNote(element)).map(element => element.id);
+    const attached = getNoteTargetIds(note);
+    const anchor = worldToScreen(note.position, camera);
+    return (
+      <div
+        className="absolute z-20 flex items-center space-x-1 px-1 py-1 bg-white border border-gray-200 rounded-md shadow-sm text-xs text-gray-600"
+        style={{
+          left: Math.min(Math.max(anchor.x, 8), Math.max(viewport.width - 230, 8)),
+          top: Math.min(Math.max(anchor.y - 40, 8), Math.max(viewport.height - 40, 8)),
+        }}
+      >
+        {others.length > 0 ? (
+          <button
+            onClick={() => updateNote(setNoteTargets(note, [...attached, ...others]))}
+            className="px-2 py-0.5 rounded hover:bg-gray-100 hover:text-gray-900"
+          >
+            Attach to {others.length} element{others.length === 1 ? '' : 's'}
+          </button>
+        ) : (
+          <>
+            <button onClick={() => editNote(note)} className="px-2 py-0.5 rounded hover:bg-gray-100 hover:text-gray-900">
+              Edit
+            </button>
+            {attached.length > 0 && (
+              <button
+                onClick={() => updateNote(setNoteTargets(note, []))}
+                className="px-2 py-0.5 rounded hover:bg-gray-100 hover:text-gray-900"
+              >
+                Detach
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    );
   };
 
   return (
@@ -305,16 +1270,84 @@ const Whiteboard = forwardRef<WhiteboardRef, WhiteboardProps>(({ selectedTool, o
         {selectedTool === 'rectangle' && 'Click and drag to create rectangle'}
         {selectedTool === 'circle' && 'Click and drag to create circle'}
         {selectedTool === 'text' && 'Click to add text'}
-        {selectedTool === 'select' && 'Click to select elements'}
+        {selectedTool === 'stencil' && `Click to place a ${STENCILS[stencilKind].label.toLowerCase()}, or drag to size it`}
+        {selectedTool === 'connector' && 'Drag from one element to another to connect them, or between frames to link pages'}
+        {selectedTool === 'frame' && 'Click to place a page frame, or drag to size it'}
+        {selectedTool === 'note' && 'Click an element to add a note for the generator about it, or empty space for a note about the drawing'}
+        {selectedTool === 'select' && 'Click or drag to select, shift-click to add, drag to move, double-click a stencil, connector, note or frame name to edit it'}
       </div>
       
       <canvas
         ref={canvasRef}
-        className="w-full h-full cursor-crosshair"
+        className={`w-full h-full ${
+          isPanning ? 'cursor-grabbing' : isSpaceDown ? 'cursor-grab' : selectedTool === 'select' ? 'cursor-default' : 'cursor-crosshair'
+        }`}
         onMouseDown={handleMouseDown}
         onMouseMove={handleMouseMove}
         onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseUp}
+        onDoubleClick={handleDoubleClick}
+        onMouseLeave={() => {
+          onCursorMove?.(null);
+          handleMouseUp();
+        }}
+      />
+
+      {remoteCursors.map(({ user, position }) => {
+        const screen = worldToScreen(position, camera);
+        return (
+          <div
+            key={user.id}
+            className="absolute pointer-events-none z-20"
+            style={{ left: screen.x, top: screen.y }}
+          >
+            <MousePointer2 className="w-4 h-4" style={{ color: user.color, fill: user.color }} />
+            <span
+              className="ml-3 px-1.5 py-0.5 rounded text-xs text-white whitespace-nowrap"
+              style={{ backgroundColor: user.color }}
+            >
+              {user.name}
+            </span>
+          </div>
+        );
+      })}
+
+      {renderConversionPrompt()}
+      {renderConnectorToolbar()}
+      {renderNoteToolbar()}
+
+      <div className="absolute bottom-4 left-4 z-10 flex items-center bg-white/90 border border-gray-200 rounded-md shadow-sm text-gray-600">
+        <button onClick={() => zoomBy(1 / ZOOM_STEP)} className="p-2 hover:text-gray-900" title="Zoom out">
+          <ZoomOut className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => setCamera(prev => zoomCamera(prev, 1 / prev.zoom, { x: viewport.width / 2, y: viewport.height / 2 }))}
+          className="w-12 text-xs hover:text-gray-900"
+          title="Reset zoom to 100%"
+        >
+          {Math.round(camera.zoom * 100)}%
+        </button>
+        <button onClick={() => zoomBy(ZOOM_STEP)} className="p-2 hover:text-gray-900" title="Zoom in">
+          <ZoomIn className="w-4 h-4" />
+        </button>
+        <div className="w-px h-5 bg-gray-200" />
+        <button onClick={zoomToFit} className="p-2 hover:text-gray-900" title="Zoom to fit (Shift+1)">
+          <Maximize className="w-4 h-4" />
+        </button>
+        <button
+          onClick={zoomToSelection}
+          disabled={selectedIds.length === 0}
+          className="p-2 hover:text-gray-900 disabled:text-gray-300"
+          title="Zoom to selection (Shift+2)"
+        >
+          <Focus className="w-4 h-4" />
+        </button>
+      </div>
+
+      <Minimap
+        elements={elements}
+        camera={camera}
+        viewport={viewport}
+        onNavigate={(point) => setCamera(prev => centerCamera(prev, point, viewport))}
       />
     </div>
   );
@@ -1,9 +1,21 @@
-export type Tool = 'pen' | 'rectangle' | 'circle' | 'text' | 'select' | 'eraser';
+export type Tool = 'pen' | 'rectangle' | 'circle' | 'text' | 'select' | 'eraser' | 'stencil' | 'connector' | 'frame' | 'note';
+
+// Wireframe UI components that can be placed from the stencil library
+export type StencilKind = 'button' | 'input' | 'checkbox' | 'dropdown' | 'navbar' | 'card' | 'image' | 'table' | 'modal';
+
+export type ConnectorRouting = 'straight' | 'elbow' | 'curved';
 export type Mode = 'code' | 'mentor';
+export type DownloadFormat = 'svg' | 'png' | 'jpg' | 'pdf' | 'json';
+export type OutputTarget = 'react-tailwind' | 'react-css-modules' | 'vue' | 'svelte' | 'html' | 'react-native';
+export type ComponentLibrary = 'none' | 'shadcn' | 'mui' | 'chakra';
 
 export interface CanvasElement {
   id: string;
-  type: 'path' | 'rectangle' | 'circle' | 'text';
+  // Lines, arrows, triangles and connectors keep their vertices in data.points; the other shapes use position and dimensions.
+  // Connectors also store data.sourceId/targetId of the elements they join, data.routing and an optional data.label.
+  // Frames are named artboards (data.name) that group the elements drawn inside them into one page.
+  // Notes are instructions for the generator (data.text) about the elements in data.targetIds; they are not part of the UI
+  type: 'path' | 'rectangle' | 'circle' | 'text' | 'ellipse' | 'line' | 'arrow' | 'triangle' | 'radio' | 'connector' | 'frame' | 'note' | StencilKind;
   data: {
     points?: { x: number; y: number }[];
     text?: string;
@@ -17,8 +29,15 @@ export interface CanvasElement {
   fillColor?: string;
 }
 
+// One element's state before and after an edit; null when it did not exist
+export interface ElementChange {
+  id: string;
+  before: CanvasElement | null;
+  after: CanvasElement | null;
+}
+
 export interface HistoryState {
-  elements: CanvasElement[];
+  changes: ElementChange[];
   timestamp: number;
 }
 
@@ -27,8 +46,65 @@ export interface WhiteboardSettings {
   fillColor: string;
   strokeWidth: number;
   fontSize: number;
+  // Sketch conventions of this board; missing on boards saved before legends existed
+  legend?: LegendEntry[];
+}
+
+// What a drawing style means, e.g. red stroke = error; matching elements carry the meaning into the prompt
+export interface LegendEntry {
+  id: string;
+  // Stroke and fill entries match that exact color; stroke width entries match widths of at least `width`
+  property: 'stroke' | 'fill' | 'strokeWidth';
+  color?: string;
+  width?: number;
+  meaning: string;
+}
+
+// Design system generated code has to follow; scales map token names to pixels, e.g. { sm: 14, base: 16 }
+export interface DesignTheme {
+  // Token name to hex color, e.g. { primary: '#2563eb' }
+  colors: Record<string, string>;
+  fontFamily: string;
+  typography: Record<string, number>;
+  radii: Record<string, number>;
+  spacing: Record<string, number>;
+  componentLibrary: ComponentLibrary;
+}
+
+export type GenerationSource = 'ai' | 'offline' | 'refinement';
+
+export interface GenerationRecord {
+  id: string;
+  createdAt: number;
+  source: GenerationSource;
+  // Provider or generator that produced the code, e.g. "Google Gemini"
+  generator: string;
+  outputTarget: OutputTarget;
+  // Drawing the code was generated from
+  elements: CanvasElement[];
+  prompt: string;
+  code: string;
+  // Refinement instruction, for refinement records
+  instruction?: string;
 }
 
+export interface Board {
+  id: string;
+  name: string;
+  elements: CanvasElement[];
+  generatedCode: string;
+  outputTarget?: OutputTarget;
+  // Missing when the board has no design system, in which case the generator picks its own styles
+  theme?: DesignTheme;
+  // Newest first; missing on boards saved before history was kept
+  generations?: GenerationRecord[];
+  settings: WhiteboardSettings;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type BoardSummary = Pick<Board, 'id' | 'name' | 'updatedAt'>;
+
 export interface DrawingPath {
   points: { x: number; y: number }[];
   color: string;
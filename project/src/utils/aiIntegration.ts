@@ -1,6 +1,16 @@
 // File: src/utils/aiIntegration.ts
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import { CanvasElement } from '../types';
+import { CanvasElement, DesignTheme, LegendEntry, OutputTarget } from '../types';
+import { describeAnnotations, isNote } from './annotations';
+import { CodeDiagnostic, formatDiagnostic, validateCode } from './codeValidator';
+import { describeConnections, describeEndpoint } from './connectors';
+import { describeTheme, findNearestColorToken, getComponentLibrary } from './designTokens';
+import { FrameLink } from './frames';
+import { GenerateOptions, LLMProvider, PromptImage, generateWithRetry, isAbortError } from './llmProviders';
+import { analyzeScene, describeScene } from './layoutAnalyzer';
+import { OutputTargetConfig, getOutputTarget } from './outputTargets';
+import { ELEMENT_ID_ATTRIBUTE, removeUnknownElementIds } from './sourceMap';
+import { describeStencil, isStencil } from './stencils';
+import { describeStyleIntent } from './styleLegend';
 
 export interface DrawingData {
   elements: CanvasElement[];
@@ -8,101 +18,354 @@ export interface DrawingData {
     width: number;
     height: number;
   };
+  // Set when the drawing is one frame of a multi-page app
+  page?: PageContext;
+  // Snapshot of the drawn area, attached to the prompt for multimodal models
+  image?: PromptImage;
+  // What colors and stroke widths mean on this board
+  legend?: LegendEntry[];
+}
+
+export interface PageContext {
+  name: string;
+  componentName: string;
+  // Navigation drawn as connectors from this frame to other frames
+  links: FrameLink[];
+  // Display name of every page by route id
+  pageNames: Record<string, string>;
 }
 
 export interface GeneratedComponent {
   code: string;
   preview: string;
   filename: string;
+  // Prompt sent to the model, absent for offline generation
+  prompt?: string;
+}
+
+export interface GeneratorOptions {
+  // Sends compiler errors in the generated code back to the model for one repair round
+  autoRepair?: boolean;
+  // Design system of the board; drawn colors are mapped to its tokens
+  theme?: DesignTheme;
 }
 
-export class AICodeGenerator {
-  private genAI: GoogleGenerativeAI;
+export interface ComponentGenerator {
+  // options.onProgress receives the code generated so far, for generators that stream
+  generateComponent(drawingData: DrawingData, options?: GenerateOptions): Promise<GeneratedComponent>;
+}
+
+// Compass direction of a vector in canvas coordinates, where y grows downwards
+const describeDirection = (dx: number, dy: number): string =>
+  Math.abs(dx) >= Math.abs(dy) ? (dx >= 0 ? 'right' : 'left') : (dy >= 0 ? 'down' : 'up');
+
+// Code streamed so far: the text inside the opening fence, once it is complete
+const extractPartialCode = (text: string): string => {
+  const opening = text.match(/```[\w-]*[^\n]*\n/);
+  if (!opening || opening.index === undefined) return text.includes('`') ? '' : text;
+  const code = text.slice(opening.index + opening[0].length);
+  const closing = code.indexOf('```');
+  return closing < 0 ? code : code.slice(0, closing);
+};
 
-  constructor(apiKey: string) {
-    this.genAI = new GoogleGenerativeAI(apiKey);
+// Stopping keeps its AbortError so callers can tell it apart from a failure
+const describeFailure = (action: string, providerName: string, error: unknown): Error => {
+  if (isAbortError(error)) return error as Error;
+  const reason = error instanceof Error ? error.message : String(error);
+  return new Error(`Failed to ${action} with ${providerName}: ${reason}`);
+};
+
+export const generateFilename = (drawingData: DrawingData, extension = '.tsx'): string => {
+  const hasText = drawingData.elements.some(el => el.type === 'text' && el.data?.text);
+  
+  if (hasText) {
+    const textElement = drawingData.elements.find(el => el.type === 'text' && el.data?.text);
+    const text = textElement?.data?.text || '';
+    const cleanText = text.replace(/[^a-zA-Z0-9]/g, '').slice(0, 20);
+    if (cleanText) {
+      return `${cleanText}Component${extension}`;
+    }
+  }
+
+  const elementTypes = [...new Set(drawingData.elements.map(el => el.type))];
+  if (elementTypes.length === 1) {
+    return `${elementTypes[0].charAt(0).toUpperCase()}${elementTypes[0].slice(1)}Component${extension}`;
   }
 
-  async generateComponent(drawingData: DrawingData): Promise<GeneratedComponent> {
+  return `GeneratedComponent${extension}`;
+};
+
+export class AICodeGenerator implements ComponentGenerator {
+  private provider: LLMProvider;
+  private target: OutputTargetConfig;
+  private autoRepair: boolean;
+  private theme?: DesignTheme;
+
+  constructor(provider: LLMProvider, target?: OutputTarget, options: GeneratorOptions = {}) {
+    this.provider = provider;
+    this.target = getOutputTarget(target);
+    this.autoRepair = !!options.autoRepair;
+    this.theme = options.theme;
+  }
+
+  async generateComponent(drawingData: DrawingData, options: GenerateOptions = {}): Promise<GeneratedComponent> {
     try {
-      const prompt = this.createPrompt(drawingData);
-      const response = await this.callGeminiAPI(prompt);
-      const code = this.extractCodeFromMarkdown(response);
+      const generated = await this.generateCode(this.createPrompt(drawingData), { ...options, images: this.getImages(drawingData) });
+      const code = removeUnknownElementIds(generated.code, drawingData.elements);
       
       return {
         code,
         preview: this.generatePreviewFromCode(code),
-        filename: this.generateFilename(drawingData)
+        filename: generateFilename(drawingData, this.target.extension),
+        prompt: generated.prompt
       };
     } catch (error) {
       console.error('Error generating component:', error);
-      throw new Error('Failed to generate component. Please check your API key and try again.');
+      throw describeFailure('generate component', this.provider.name, error);
     }
   }
 
-  private createPrompt(drawingData: DrawingData): string {
-    const elementsDescription = this.analyzeElements(drawingData.elements);
-    const layoutDescription = this.analyzeLayout(drawingData.elements, drawingData.canvas);
-    
-    return `
-You are an expert React developer that converts whiteboard drawings into functional React components. 
+  async refineComponent(
+    drawingData: DrawingData,
+    currentCode: string,
+    instruction: string,
+    previousInstructions: string[] = [],
+    options: GenerateOptions = {}
+  ): Promise<GeneratedComponent> {
+    try {
+      const generated = await this.generateCode(
+        this.createRefinementPrompt(drawingData, currentCode, instruction, previousInstructions),
+        { ...options, images: this.getImages(drawingData) }
+      );
+      const code = removeUnknownElementIds(generated.code, drawingData.elements);
 
-WHITEBOARD ANALYSIS:
+      return {
+        code,
+        preview: this.generatePreviewFromCode(code),
+        filename: generateFilename(drawingData, this.target.extension),
+        prompt: generated.prompt
+      };
+    } catch (error) {
+      console.error('Error refining component:', error);
+      throw describeFailure('refine component', this.provider.name, error);
+    }
+  }
+
+  private describeDrawing(drawingData: DrawingData): string {
+    const elementsDescription = this.analyzeElements(drawingData.elements, drawingData.legend);
+    const scene = describeScene(analyzeScene(drawingData.elements));
+
+    return `WHITEBOARD ANALYSIS:
 - Canvas dimensions: ${drawingData.canvas.width}x${drawingData.canvas.height}px
 - Total elements: ${drawingData.elements.length}
 - Element types: ${elementsDescription.types}
-- Layout pattern: ${layoutDescription}
+- Layout pattern: ${scene.summary}
 
-ELEMENTS DETAILS:
+ELEMENTS DETAILS (element id in brackets):
 ${elementsDescription.details}
 
+LAYOUT HIERARCHY (nesting, rows and spacing inferred from the sketch; #N refers to ELEMENTS DETAILS):
+${scene.hierarchy}
+
+ALIGNMENT GROUPS:
+${scene.alignment}
+
+CONNECTIONS (arrows drawn from one element to another):
+${describeConnections(drawingData.elements)}
+
+ANNOTATIONS (notes the user attached to elements; requirements, not visible UI):
+${describeAnnotations(drawingData.elements)}${drawingData.image ? `
+
+IMAGE:
+A snapshot of the whiteboard, cropped to the drawing, is attached. Use it to interpret freehand strokes and the overall look; ELEMENTS DETAILS stays authoritative for text, positions and sizes.` : ''}`;
+  }
+
+  private createPrompt(drawingData: DrawingData): string {
+    const requirements = [
+      ...this.target.requirements,
+      'Make the component responsive and modern',
+      'Add hover effects and interactions where appropriate',
+      'If there are buttons, add click handlers',
+      'If there are forms, add proper form handling',
+      ...(this.target.usesSemanticHtml ? ['Use semantic HTML elements'] : []),
+      'Mirror the LAYOUT HIERARCHY: nest elements exactly as listed, use rows/columns or a grid as described, and keep the measured gaps',
+      `Put ${ELEMENT_ID_ATTRIBUTE}="<id>" on the outermost tag rendered for each element in ELEMENTS DETAILS, using the id in brackets, so the code can be traced back to the drawing (skip notes and connectors)`,
+    ].map((requirement, index) => `${index + 1}. ${requirement}`).join('\n');
+    
+    return `
+You are ${this.target.expert} that converts whiteboard drawings into functional ${this.target.label} components. 
+
+${this.describeDrawing(drawingData)}${drawingData.page ? `\n\n${this.describePage(drawingData.elements, drawingData.page)}` : ''}${this.describeTheme()}
+
 REQUIREMENTS:
-1. Create a React TypeScript functional component
-2. Use Tailwind CSS for styling
-3. Make the component responsive and modern
-4. Include proper TypeScript interfaces for props
-5. Add hover effects and interactions where appropriate
-6. If there are buttons, add onClick handlers
-7. If there are forms, add proper form handling
-8. Use semantic HTML elements
-9. Follow React best practices
+${requirements}
 
 COMPONENT GUIDELINES:
+- ANNOTATIONS are the user's explicit requirements for the listed elements → follow them over anything inferred from the shapes (e.g. "dropdown of countries" → a select filled with countries), and never render the notes themselves
+- Elements marked INTENT were styled according to the user's sketch legend → honor that meaning in styling and behavior (e.g. danger → destructive or error styling, primary action → the main call to action, emphasis → stronger visual weight)
+- Elements marked STENCIL are explicit UI components → render exactly that component with the given labels, options and columns instead of reinterpreting the shape
 - If drawing contains rectangles → create cards, buttons, or containers
 - If drawing contains circles → create avatars, icons, or decorative elements  
+- If drawing contains checkboxes or radio buttons → create form controls with their neighbouring text as labels
+- If drawing contains lines → create dividers or separators; arrows → show flow or navigation between sections
+- If drawing contains triangles → create dropdown carets, play buttons, or disclosure icons depending on direction
 - If drawing contains text → use as headings, labels, or content
 - If drawing shows a layout → create the corresponding UI layout
 - If drawing shows navigation → create nav components
+- If CONNECTIONS link screens, cards or buttons → treat them as navigation or flow between those parts (links, tabs or view state), using connector labels as the trigger
 - If drawing shows forms → create form components
 
-Please generate a complete, production-ready React component. Return ONLY the code inside triple backticks with tsx language specification.
+Please generate a complete, production-ready ${this.target.label} component. Return ONLY the code inside triple backticks with ${this.target.fence} language specification.
+    `;
+  }
+
+  private describeTheme(): string {
+    return this.theme ? `\n\n${describeTheme(this.theme, this.target)}` : '';
+  }
+
+  // Instructions for one page of a multi-page app; the router file that imports it is generated separately
+  private describePage(elements: CanvasElement[], page: PageContext): string {
+    const links = page.links.map(link => {
+      const trigger = link.elementId ? describeEndpoint(elements, link.elementId) : 'A link or button of your choice';
+      const label = link.label ? ` labeled "${link.label}"` : '';
+      return `  - ${trigger}${label} → onNavigate('${link.pageId}') opens "${page.pageNames[link.pageId]}"`;
+    }).join('\n') || '  None';
+
+    return `PAGE:
+This drawing is the "${page.name}" screen of a multi-page app whose router renders one page component at a time.
+- Name the component ${page.componentName} and make it the default export
+- Type its props with \`import type { PageProps } from '../App';\` and take \`onNavigate\` from them
+- Call onNavigate with the page id for each navigation below:
+${links}`;
+  }
+
+  private createRefinementPrompt(
+    drawingData: DrawingData,
+    currentCode: string,
+    instruction: string,
+    previousInstructions: string[]
+  ): string {
+    const history = previousInstructions.length > 0
+      ? previousInstructions.map((previous, index) => `${index + 1}. ${previous}`).join('\n')
+      : 'None';
+
+    return `
+You are ${this.target.expert} refining a ${this.target.label} component that was generated from a whiteboard drawing.
+
+${this.describeDrawing(drawingData)}${this.describeTheme()}
+
+CURRENT CODE:
+\`\`\`${this.target.fence}
+${currentCode}
+\`\`\`
+
+EARLIER INSTRUCTIONS (already applied to the current code):
+${history}
+
+INSTRUCTION:
+${instruction}
+
+Apply the instruction to the current code. Keep everything the instruction does not mention unchanged, including the ${ELEMENT_ID_ATTRIBUTE} attributes, keep the layout faithful to the drawing, and keep the result a complete ${this.target.label} component. Return ONLY the full updated code inside triple backticks with ${this.target.fence} language specification.
     `;
   }
 
-  private async callGeminiAPI(prompt: string): Promise<string> {
-    const model = this.genAI.getGenerativeModel({ model: "gemini-1.5-flash" });
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    return response.text();
+  private getImages(drawingData: DrawingData): PromptImage[] | undefined {
+    return drawingData.image ? [drawingData.image] : undefined;
+  }
+
+  private async callModel(prompt: string, { images, signal, onProgress }: GenerateOptions): Promise<string> {
+    return generateWithRetry(this.provider, prompt, {
+      images,
+      signal,
+      onProgress: onProgress && (text => onProgress(extractPartialCode(text))),
+    });
+  }
+
+  // Asks the model for code; with auto-repair, compiler errors get one repair round, whose result is kept only if it has fewer errors
+  private async generateCode(prompt: string, options: GenerateOptions): Promise<{ code: string; prompt: string }> {
+    const code = this.extractCodeFromMarkdown(await this.callModel(prompt, options));
+    if (!this.autoRepair) return { code, prompt };
+
+    const errors = await this.findErrors(code);
+    if (errors.length === 0) return { code, prompt };
+
+    const repairPrompt = this.createRepairPrompt(code, errors);
+    // The compiler errors are all the repair needs, so the image is not sent again
+    const repaired = this.extractCodeFromMarkdown(await this.callModel(repairPrompt, { ...options, images: undefined }));
+    const remaining = await this.findErrors(repaired);
+    return remaining.length < errors.length
+      ? { code: repaired, prompt: `${prompt.trim()}\n\nREPAIR ROUND:\n${repairPrompt.trim()}` }
+      : { code, prompt };
+  }
+
+  private async findErrors(code: string): Promise<CodeDiagnostic[]> {
+    try {
+      return (await validateCode(code, this.target.id, this.getLibraryPackages())).filter(diagnostic => diagnostic.severity === 'error');
+    } catch (error) {
+      // A checker that fails to load must not block generation
+      console.error('Error validating generated code:', error);
+      return [];
+    }
+  }
+
+  private getLibraryPackages(): string[] {
+    return this.target.supportsComponentLibraries ? getComponentLibrary(this.theme).packages : [];
+  }
+
+  private createRepairPrompt(code: string, errors: CodeDiagnostic[]): string {
+    return `
+You are ${this.target.expert} fixing a ${this.target.label} component that was generated from a whiteboard drawing.
+
+CODE:
+\`\`\`${this.target.fence}
+${code}
+\`\`\`
+
+PROBLEMS FOUND BY THE COMPILER:
+${errors.map(error => `- ${formatDiagnostic(error)}`).join('\n')}
+
+Fix every problem with the smallest possible change: add missing imports or declarations, and replace imports of packages other than ${[...(this.target.packages || []), ...this.getLibraryPackages()].join(', ')}. Keep the layout, styling and behavior otherwise unchanged. Return ONLY the full corrected code inside triple backticks with ${this.target.fence} language specification.
+    `;
   }
 
   private extractCodeFromMarkdown(text: string): string {
-    const match = text.match(/```(?:tsx|jsx|typescript)?\n([\s\S]*?)```/);
-    return match ? match[1].trim() : text;
+    const blocks = [...text.matchAll(/```([\w-]*)[^\n]*\n([\s\S]*?)```/g)]
+      .map(match => ({ language: match[1].toLowerCase(), code: match[2].trim() }));
+    if (blocks.length === 0) return text;
+
+    // Prefer fences in the target's priority order, e.g. vue before html
+    const main = this.target.acceptedFences
+      .map(language => blocks.find(block => block.language === language))
+      .find(Boolean)
+      || blocks.find(block => !block.language)
+      || blocks[0];
+
+    // CSS module targets answer with a second css block; keep it with the component as a trailing comment
+    const stylesheet = this.target.id === 'react-css-modules'
+      ? blocks.find(block => block.language === 'css')
+      : undefined;
+
+    return stylesheet
+      ? `${main.code}\n\n/* Component.module.css\n${stylesheet.code}\n*/`
+      : main.code;
   }
 
-  private analyzeElements(elements: CanvasElement[]): { types: string; details: string } {
+  private analyzeElements(elements: CanvasElement[], legend: LegendEntry[] = []): { types: string; details: string } {
     const typeCount = elements.reduce((acc, el) => {
       acc[el.type] = (acc[el.type] || 0) + 1;
       return acc;
     }, {} as Record<string, number>);
 
     const types = Object.entries(typeCount)
-      .map(([type, count]) => `${count} ${type}${count > 1 ? 's' : ''}`)
+      .map(([type, count]) => `${count} ${type}${count > 1 ? (type.endsWith('x') ? 'es' : 's') : ''}`)
       .join(', ');
 
     const details = elements.map((el, index) => {
-      let description = `${index + 1}. ${el.type.toUpperCase()}`;
+      let description = `${index + 1}. ${el.type.toUpperCase()} [${el.id}]`;
+
+      if (isNote(el)) {
+        return `${description} (annotation, see ANNOTATIONS; not part of the UI)`;
+      }
       
       if (el.position) {
         description += ` at position (${Math.round(el.position.x)}, ${Math.round(el.position.y)})`;
@@ -115,6 +378,44 @@ Please generate a complete, production-ready React component. Return ONLY the co
       if (el.data?.text) {
         description += ` containing text: "${el.data.text}"`;
       }
+
+      if (this.theme) {
+        const stroke = findNearestColorToken(el.color, this.theme);
+        const fill = findNearestColorToken(el.fillColor, this.theme);
+        if (stroke) description += ` in color token ${stroke}`;
+        if (fill) description += ` filled with color token ${fill}`;
+      }
+
+      const points = el.data?.points || [];
+      if ((el.type === 'line' || el.type === 'arrow') && points.length >= 2) {
+        const start = points[0];
+        const end = points[points.length - 1];
+        description += ` from (${Math.round(start.x)}, ${Math.round(start.y)}) to (${Math.round(end.x)}, ${Math.round(end.y)})`;
+        if (el.type === 'arrow') {
+          description += ` pointing ${describeDirection(end.x - start.x, end.y - start.y)}`;
+        }
+      } else if (el.type === 'triangle' && points.length === 3) {
+        // The apex is the corner opposite the longest side
+        const sideLength = (index: number) => {
+          const a = points[(index + 1) % 3];
+          const b = points[(index + 2) % 3];
+          return Math.hypot(a.x - b.x, a.y - b.y);
+        };
+        const apex = [0, 1, 2].reduce((best, index) => (sideLength(index) > sideLength(best) ? index : best), 0);
+        const [b, c] = [points[(apex + 1) % 3], points[(apex + 2) % 3]];
+        description += ` pointing ${describeDirection(points[apex].x - (b.x + c.x) / 2, points[apex].y - (b.y + c.y) / 2)}`;
+      } else if (el.type === 'path') {
+        description += ' (unrecognized freehand stroke)';
+      } else if (el.type === 'connector') {
+        description += ` (${el.data.routing || 'straight'} arrow, see CONNECTIONS)`;
+      } else if (isStencil(el)) {
+        description += ` - STENCIL: ${describeStencil(el)}`;
+      }
+
+      const intent = describeStyleIntent(el, legend);
+      if (intent) {
+        description += ` - INTENT: ${intent}`;
+      }
       
       return description;
     }).join('\n');
@@ -122,38 +423,6 @@ Please generate a complete, production-ready React component. Return ONLY the co
     return { types, details };
   }
 
-  private analyzeLayout(elements: CanvasElement[], canvas: { width: number; height: number }): string {
-    if (elements.length === 0) return "Empty canvas";
-    
-    const hasText = elements.some(el => el.type === 'text');
-    const hasShapes = elements.some(el => el.type === 'rectangle' || el.type === 'circle');
-    const hasLines = elements.some(el => el.type === 'path');
-
-    // Analyze positioning patterns
-    const topElements = elements.filter(el => el.position.y < canvas.height * 0.3);
-    const centerElements = elements.filter(el => 
-      el.position.y >= canvas.height * 0.3 && el.position.y <= canvas.height * 0.7
-    );
-    const bottomElements = elements.filter(el => el.position.y > canvas.height * 0.7);
-
-    let layout = "";
-    if (topElements.length > 0) layout += "Header section, ";
-    if (centerElements.length > 0) layout += "Main content area, ";
-    if (bottomElements.length > 0) layout += "Footer section, ";
-
-    if (hasText && hasShapes) {
-      layout += "Mixed content with text and UI elements";
-    } else if (hasText) {
-      layout += "Text-focused design";
-    } else if (hasShapes) {
-      layout += "UI component layout";
-    } else if (hasLines) {
-      layout += "Freeform drawing";
-    }
-
-    return layout || "Simple layout";
-  }
-
   private generatePreviewFromCode(code: string): string {
     // Extract component name and basic structure for preview
     const componentMatch = code.match(/const\s+(\w+):/);
@@ -161,24 +430,4 @@ Please generate a complete, production-ready React component. Return ONLY the co
     
     return `Preview of ${componentName} - A React component generated from your whiteboard drawing`;
   }
-
-  private generateFilename(drawingData: DrawingData): string {
-    const hasText = drawingData.elements.some(el => el.type === 'text' && el.data?.text);
-    
-    if (hasText) {
-      const textElement = drawingData.elements.find(el => el.type === 'text' && el.data?.text);
-      const text = textElement?.data?.text || '';
-      const cleanText = text.replace(/[^a-zA-Z0-9]/g, '').slice(0, 20);
-      if (cleanText) {
-        return `${cleanText}Component.tsx`;
-      }
-    }
-
-    const elementTypes = [...new Set(drawingData.elements.map(el => el.type))];
-    if (elementTypes.length === 1) {
-      return `${elementTypes[0].charAt(0).toUpperCase()}${elementTypes[0].slice(1)}Component.tsx`;
-    }
-
-    return `GeneratedComponent.tsx`;
-  }
 }
@@ -0,0 +1,112 @@
+import { CanvasElement } from '../types';
+import { describeEndpoint, outlinePoint } from './connectors';
+import { Point, getElementBounds } from './elementGeometry';
+import { createElementId } from './elementIds';
+
+// Notes render as yellow sticky notes with dashed leader lines to the elements they describe
+export const NOTE_STYLE = {
+  fill: '#fef3c7',
+  border: '#f59e0b',
+  text: '#78350f',
+  leader: '#d97706',
+  fontSize: 13,
+  lineHeight: 18,
+  padding: 10,
+  // Rough width of a character, used to wrap text the same way on the canvas and in SVG exports
+  charWidth: 7,
+};
+
+export const DEFAULT_NOTE_WIDTH = 180;
+
+export const isNote = (element: CanvasElement): boolean => element.type === 'note';
+
+export const getNoteText = (note: CanvasElement): string => (typeof note.data.text === 'string' ? note.data.text : '');
+
+// Ids of the annotated elements; missing ones are skipped wherever notes are used
+export const getNoteTargetIds = (note: CanvasElement): string[] =>
+  Array.isArray(note.data.targetIds) ? note.data.targetIds.filter((id): id is string => typeof id === 'string') : [];
+
+// Annotated elements that still exist, in target order
+export const getNoteTargets = (note: CanvasElement, elements: CanvasElement[]): CanvasElement[] =>
+  getNoteTargetIds(note)
+    .map(id => elements.find(element => element.id === id && !isNote(element)))
+    .filter((element): element is CanvasElement => element !== undefined);
+
+// Wraps the note text into lines that fit its width, keeping the line breaks that were typed
+export const getNoteLines = (text: string, width: number): string[] => {
+  const maxChars = Math.max(Math.floor((width - NOTE_STYLE.padding * 2) / NOTE_STYLE.charWidth), 8);
+  return text.split('\n').flatMap(paragraph => {
+    const lines: string[] = [];
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      if (line && line.length + 1 + word.length > maxChars) {
+        lines.push(line);
+        line = '';
+      }
+      line = line ? `${line} ${word}` : word;
+    });
+    return [...lines, line];
+  });
+};
+
+// Grows the note to fit its text; it never shrinks below the size it was given
+const fitNote = (note: CanvasElement): CanvasElement => {
+  const width = note.dimensions?.width || DEFAULT_NOTE_WIDTH;
+  const lines = getNoteLines(getNoteText(note), width);
+  const height = lines.length * NOTE_STYLE.lineHeight + NOTE_STYLE.padding * 2;
+  return { ...note, dimensions: { width, height: Math.max(height, note.dimensions?.height || 0) } };
+};
+
+/**
+ * Creates a note about `targets`. When there are any, the note is placed just above and
+ * to the right of them instead of at `position`, so it does not cover what it describes.
+ */
+export const createNote = (position: Point, text: string, targets: CanvasElement[]): CanvasElement => {
+  let origin = position;
+  if (targets.length > 0) {
+    const bounds = targets.map(getElementBounds);
+    origin = {
+      x: Math.max(...bounds.map(box => box.x + box.width)) + 24,
+      y: Math.min(...bounds.map(box => box.y)) - 24,
+    };
+  }
+
+  return fitNote({
+    id: createElementId(),
+    type: 'note',
+    data: { text, targetIds: targets.map(target => target.id) },
+    position: origin,
+    dimensions: { width: DEFAULT_NOTE_WIDTH, height: 0 },
+    timestamp: Date.now(),
+  });
+};
+
+export const setNoteText = (note: CanvasElement, text: string): CanvasElement =>
+  fitNote({ ...note, data: { ...note.data, text }, dimensions: { width: note.dimensions?.width || DEFAULT_NOTE_WIDTH, height: 0 } });
+
+export const setNoteTargets = (note: CanvasElement, targetIds: string[]): CanvasElement =>
+  ({ ...note, data: { ...note.data, targetIds: [...new Set(targetIds)] } });
+
+// Leader lines from the note's outline to the outline of each target
+export const getNoteLeaders = (note: CanvasElement, elements: CanvasElement[]): [Point, Point][] => {
+  const noteBounds = getElementBounds(note);
+  const noteCenter = { x: noteBounds.x + noteBounds.width / 2, y: noteBounds.y + noteBounds.height / 2 };
+  return getNoteTargets(note, elements).map(target => {
+    const bounds = getElementBounds(target);
+    const targetCenter = { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+    return [outlinePoint(note, targetCenter), outlinePoint(target, noteCenter)];
+  });
+};
+
+// Lists the notes as requirements for the code generation prompt, using the #N numbering of ELEMENTS DETAILS
+export const describeAnnotations = (elements: CanvasElement[]): string =>
+  elements
+    .filter(element => isNote(element) && getNoteText(element).trim())
+    .map(note => {
+      const targets = getNoteTargets(note, elements);
+      const subject = targets.length > 0
+        ? targets.map(target => describeEndpoint(elements, target.id)).join(', ')
+        : 'Whole drawing';
+      return `- ${subject}: ${getNoteText(note).trim().replace(/\s*\n\s*/g, '; ')}`;
+    })
+    .join('\n') || 'None';
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { CanvasElement } from '../types';
+import { BOARD_FILE_FORMAT, BOARD_FILE_VERSION, parseBoardFile, serializeBoard } from './boardFormat';
+import { DEFAULT_SETTINGS } from './boardStorage';
+
+const rectangle: CanvasElement = {
+  id: 'a',
+  type: 'rectangle',
+  data: {},
+  position: { x: 10, y: 20 },
+  dimensions: { width: 100, height: 50 },
+};
+
+describe('parseBoardFile', () => {
+  it('round-trips a serialized board', () => {
+    const file = serializeBoard('Login', [rectangle], { width: 800.4, height: 600 }, DEFAULT_SETTINGS);
+    const { board, issues } = parseBoardFile(JSON.stringify(file));
+
+    expect(issues).toEqual([]);
+    expect(board.name).toBe('Login');
+    expect(board.canvas).toEqual({ width: 800, height: 600 });
+    expect(board.elements).toEqual([rectangle]);
+  });
+
+  it('migrates a bare element array from version 0', () => {
+    const { board } = parseBoardFile(JSON.stringify([rectangle]));
+
+    expect(board.format).toBe(BOARD_FILE_FORMAT);
+    expect(board.version).toBe(BOARD_FILE_VERSION);
+    expect(board.name).toBe('Imported board');
+    expect(board.settings).toEqual(DEFAULT_SETTINGS);
+    expect(board.elements).toEqual([rectangle]);
+  });
+
+  it('rejects files from a newer version or another format', () => {
+    expect(() => parseBoardFile(JSON.stringify({ version: BOARD_FILE_VERSION + 1, elements: [] })))
+      .toThrow(/newer than this app supports/);
+    expect(() => parseBoardFile(JSON.stringify({ format: 'other', elements: [] }))).toThrow(/Unsupported board format/);
+    expect(() => parseBoardFile('{')).toThrow(/not valid JSON/);
+  });
+
+  it('skips invalid and duplicate elements and reports them', () => {
+    const file = serializeBoard('Board', [rectangle], { width: 800, height: 600 }, DEFAULT_SETTINGS);
+    const raw = { ...file, elements: [rectangle, { ...rectangle }, { id: 'b', type: 'blob', position: {}, data: {} }] };
+    const { board, issues } = parseBoardFile(JSON.stringify(raw));
+
+    expect(board.elements).toEqual([rectangle]);
+    expect(issues).toHaveLength(2);
+    expect(issues[0]).toMatch(/duplicate id/);
+    expect(issues[1]).toMatch(/Element 3 \(id "b"\) skipped/);
+  });
+
+  it('keeps valid theme tokens and drops invalid ones', () => {
+    const file = serializeBoard('Board', [], { width: 800, height: 600 }, DEFAULT_SETTINGS);
+    const theme = {
+      colors: { primary: '#2563eb', broken: 3 },
+      fontFamily: 'Inter',
+      typography: { body: 16 },
+      radii: 'round',
+      spacing: { md: 16 },
+      componentLibrary: 'bootstrap',
+    };
+    const { board, issues } = parseBoardFile(JSON.stringify({ ...file, theme }));
+
+    expect(board.theme).toEqual({
+      colors: { primary: '#2563eb' },
+      fontFamily: 'Inter',
+      typography: { body: 16 },
+      radii: {},
+      spacing: { md: 16 },
+      componentLibrary: 'none',
+    });
+    expect(issues).toEqual([
+      'theme.componentLibrary is unknown; using none.',
+      'theme.colors.broken is invalid; skipping it.',
+      'theme.radii is invalid; leaving it empty.',
+    ]);
+  });
+
+  it('rejects component library names inherited from Object', () => {
+    const file = serializeBoard('Board', [], { width: 800, height: 600 }, DEFAULT_SETTINGS);
+    const theme = { colors: {}, fontFamily: '', typography: {}, radii: {}, spacing: {}, componentLibrary: 'constructor' };
+    const { board, issues } = parseBoardFile(JSON.stringify({ ...file, theme }));
+
+    expect(board.theme?.componentLibrary).toBe('none');
+    expect(issues).toContain('theme.componentLibrary is unknown; using none.');
+  });
+
+  it('rejects tables too large to draw', () => {
+    const table = { id: 't', type: 'table', data: { columns: ['Name'], rows: 1e9 }, position: { x: 0, y: 0 } };
+    const file = serializeBoard('Board', [], { width: 800, height: 600 }, DEFAULT_SETTINGS);
+    const { board, issues } = parseBoardFile(JSON.stringify({ ...file, elements: [table] }));
+
+    expect(board.elements).toEqual([]);
+    expect(issues[0]).toMatch(/data.rows must be a number from 1 to/);
+  });
+});
@@ -0,0 +1,273 @@
+import { CanvasElement, ComponentLibrary, DesignTheme, LegendEntry, WhiteboardSettings } from '../types';
+import { DEFAULT_SETTINGS } from './boardStorage';
+import { COMPONENT_LIBRARIES } from './designTokens';
+import { MAX_TABLE_COLUMNS, MAX_TABLE_ROWS } from './stencils';
+
+export const BOARD_FILE_FORMAT = 'whiteboard-to-code';
+export const BOARD_FILE_VERSION = 1;
+export const BOARD_FILE_EXTENSION = '.wbc.json';
+
+export const ELEMENT_TYPES: CanvasElement['type'][] = [
+  'path', 'rectangle', 'circle', 'text', 'ellipse', 'line', 'arrow', 'triangle', 'radio', 'connector', 'frame', 'note',
+  'button', 'input', 'checkbox', 'dropdown', 'navbar', 'card', 'image', 'table', 'modal',
+];
+
+export interface BoardFile {
+  format: typeof BOARD_FILE_FORMAT;
+  version: number;
+  name: string;
+  exportedAt: string;
+  canvas: { width: number; height: number };
+  settings: WhiteboardSettings;
+  // Optional, so files from before themes existed stay at version 1
+  theme?: DesignTheme;
+  elements: CanvasElement[];
+}
+
+export interface BoardImportResult {
+  board: BoardFile;
+  // Human readable problems with entries that were skipped or repaired
+  issues: string[];
+}
+
+type RawObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is RawObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isPoint = (value: unknown): value is { x: number; y: number } =>
+  isObject(value) && isNumber(value.x) && isNumber(value.y);
+
+export const serializeBoard = (
+  name: string,
+  elements: CanvasElement[],
+  canvas: { width: number; height: number },
+  settings: WhiteboardSettings,
+  theme?: DesignTheme
+): BoardFile => ({
+  format: BOARD_FILE_FORMAT,
+  version: BOARD_FILE_VERSION,
+  name,
+  exportedAt: new Date().toISOString(),
+  canvas: { width: Math.round(canvas.width), height: Math.round(canvas.height) },
+  settings,
+  ...(theme ? { theme } : {}),
+  elements,
+});
+
+// Each migration upgrades a file from version N to N + 1
+const migrations: Record<number, (file: RawObject) => RawObject> = {
+  // Version 0: a bare CanvasElement[] array, as returned by WhiteboardRef.getElements()
+  0: (file) => ({
+    format: BOARD_FILE_FORMAT,
+    version: 1,
+    name: 'Imported board',
+    exportedAt: new Date().toISOString(),
+    canvas: { width: 800, height: 600 },
+    settings: { ...DEFAULT_SETTINGS },
+    elements: file.elements,
+  }),
+};
+
+const migrate = (raw: unknown): RawObject => {
+  let file: RawObject;
+  if (Array.isArray(raw)) {
+    file = { version: 0, elements: raw };
+  } else if (isObject(raw)) {
+    file = raw;
+  } else {
+    throw new Error('Board file must contain a JSON object.');
+  }
+
+  if (file.format !== undefined && file.format !== BOARD_FILE_FORMAT) {
+    throw new Error(`Unsupported board format "${String(file.format)}".`);
+  }
+
+  let version = isNumber(file.version) ? file.version : 0;
+  if (version > BOARD_FILE_VERSION) {
+    throw new Error(`Board file version ${version} is newer than this app supports (${BOARD_FILE_VERSION}).`);
+  }
+
+  while (version < BOARD_FILE_VERSION) {
+    const upgrade = migrations[version];
+    if (!upgrade) {
+      throw new Error(`No migration available for board file version ${version}.`);
+    }
+    file = upgrade(file);
+    version = file.version as number;
+  }
+
+  return file;
+};
+
+// Returns a list of problems; an empty list means the entry is a valid CanvasElement
+export const validateElement = (raw: unknown): string[] => {
+  if (!isObject(raw)) return ['is not an object'];
+
+  const errors: string[] = [];
+  if (typeof raw.id !== 'string' || !raw.id) errors.push('id must be a non-empty string');
+  if (!ELEMENT_TYPES.includes(raw.type as CanvasElement['type'])) {
+    errors.push(`type must be one of ${ELEMENT_TYPES.join(', ')}`);
+  }
+  if (!isPoint(raw.position)) errors.push('position must be an {x, y} point');
+  if (!isObject(raw.data)) {
+    errors.push('data must be an object');
+  } else {
+    if (raw.data.points !== undefined && !(Array.isArray(raw.data.points) && raw.data.points.every(isPoint))) {
+      errors.push('data.points must be an array of {x, y} points');
+    }
+    if (raw.data.text !== undefined && typeof raw.data.text !== 'string') {
+      errors.push('data.text must be a string');
+    }
+    if (raw.data.targetIds !== undefined &&
+        !(Array.isArray(raw.data.targetIds) && raw.data.targetIds.every(id => typeof id === 'string'))) {
+      errors.push('data.targetIds must be an array of element ids');
+    }
+    if (raw.data.rows !== undefined &&
+        !(isNumber(raw.data.rows) && raw.data.rows >= 1 && raw.data.rows <= MAX_TABLE_ROWS)) {
+      errors.push(`data.rows must be a number from 1 to ${MAX_TABLE_ROWS}`);
+    }
+    if (raw.data.columns !== undefined &&
+        !(Array.isArray(raw.data.columns) && raw.data.columns.length <= MAX_TABLE_COLUMNS)) {
+      errors.push(`data.columns must be a list of at most ${MAX_TABLE_COLUMNS} headers`);
+    }
+  }
+  if (raw.dimensions !== undefined &&
+      !(isObject(raw.dimensions) && isNumber(raw.dimensions.width) && isNumber(raw.dimensions.height))) {
+    errors.push('dimensions must have numeric width and height');
+  }
+  if (raw.color !== undefined && typeof raw.color !== 'string') errors.push('color must be a string');
+  if (raw.fillColor !== undefined && typeof raw.fillColor !== 'string') errors.push('fillColor must be a string');
+  if (raw.strokeWidth !== undefined && !isNumber(raw.strokeWidth)) errors.push('strokeWidth must be a number');
+  if (raw.timestamp !== undefined && !isNumber(raw.timestamp)) errors.push('timestamp must be a number');
+
+  return errors;
+};
+
+const validateSettings = (raw: unknown, issues: string[]): WhiteboardSettings => {
+  if (!isObject(raw)) {
+    issues.push('Settings are missing; using defaults.');
+    return { ...DEFAULT_SETTINGS };
+  }
+
+  const settings = { ...DEFAULT_SETTINGS };
+  (['strokeColor', 'fillColor'] as const).forEach(key => {
+    if (typeof raw[key] === 'string') settings[key] = raw[key] as string;
+    else issues.push(`settings.${key} is invalid; using default.`);
+  });
+  (['strokeWidth', 'fontSize'] as const).forEach(key => {
+    if (isNumber(raw[key])) settings[key] = raw[key] as number;
+    else issues.push(`settings.${key} is invalid; using default.`);
+  });
+
+  if (Array.isArray(raw.legend)) {
+    settings.legend = raw.legend.filter((entry: unknown, index: number) => {
+      const valid = isObject(entry) &&
+        typeof entry.id === 'string' &&
+        typeof entry.meaning === 'string' &&
+        (entry.property === 'strokeWidth' ? isNumber(entry.width) : (entry.property === 'stroke' || entry.property === 'fill') && typeof entry.color === 'string');
+      if (!valid) issues.push(`settings.legend entry ${index + 1} is invalid; skipping it.`);
+      return valid;
+    }) as LegendEntry[];
+  } else if (raw.legend !== undefined) {
+    issues.push('settings.legend is invalid; ignoring it.');
+  }
+  return settings;
+};
+
+// Invalid tokens are dropped one by one; a theme that is not an object is dropped as a whole
+const validateTheme = (raw: unknown, issues: string[]): DesignTheme | undefined => {
+  if (raw === undefined) return undefined;
+  if (!isObject(raw)) {
+    issues.push('theme is invalid; ignoring it.');
+    return undefined;
+  }
+
+  const readTokens = <T>(key: string, isValid: (value: unknown) => value is T): Record<string, T> => {
+    const tokens = raw[key];
+    if (!isObject(tokens)) {
+      issues.push(`theme.${key} is invalid; leaving it empty.`);
+      return {};
+    }
+    return Object.fromEntries(Object.entries(tokens).filter(([name, value]) => {
+      if (isValid(value)) return true;
+      issues.push(`theme.${key}.${name} is invalid; skipping it.`);
+      return false;
+    })) as Record<string, T>;
+  };
+
+  const library = raw.componentLibrary as ComponentLibrary;
+  // Own keys only, so names like "constructor" from the prototype are rejected (Object.hasOwn needs ES2022)
+  const isKnownLibrary = typeof library === 'string' && Object.prototype.hasOwnProperty.call(COMPONENT_LIBRARIES, library);
+  if (raw.componentLibrary !== undefined && !isKnownLibrary) {
+    issues.push('theme.componentLibrary is unknown; using none.');
+  }
+
+  return {
+    colors: readTokens('colors', (value): value is string => typeof value === 'string'),
+    fontFamily: typeof raw.fontFamily === 'string' ? raw.fontFamily : '',
+    typography: readTokens('typography', isNumber),
+    radii: readTokens('radii', isNumber),
+    spacing: readTokens('spacing', isNumber),
+    componentLibrary: isKnownLibrary ? library : 'none',
+  };
+};
+
+export const parseBoardFile = (text: string): BoardImportResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Board file is not valid JSON.');
+  }
+
+  const file = migrate(raw);
+  if (!Array.isArray(file.elements)) {
+    throw new Error('Board file has no elements array.');
+  }
+
+  const issues: string[] = [];
+  const seenIds = new Set<string>();
+  const elements: CanvasElement[] = [];
+
+  file.elements.forEach((entry: unknown, index: number) => {
+    const errors = validateElement(entry);
+    const label = isObject(entry) && typeof entry.id === 'string'
+      ? `Element ${index + 1} (id "${entry.id}")`
+      : `Element ${index + 1}`;
+
+    if (errors.length > 0) {
+      issues.push(`${label} skipped: ${errors.join('; ')}`);
+      return;
+    }
+
+    const element = entry as unknown as CanvasElement;
+    if (seenIds.has(element.id)) {
+      issues.push(`${label} skipped: duplicate id`);
+      return;
+    }
+    seenIds.add(element.id);
+    elements.push(element);
+  });
+
+  const canvas = isObject(file.canvas) && isNumber(file.canvas.width) && isNumber(file.canvas.height)
+    ? { width: file.canvas.width, height: file.canvas.height }
+    : { width: 800, height: 600 };
+
+  return {
+    board: {
+      format: BOARD_FILE_FORMAT,
+      version: BOARD_FILE_VERSION,
+      name: typeof file.name === 'string' && file.name.trim() ? file.name : 'Imported board',
+      exportedAt: typeof file.exportedAt === 'string' ? file.exportedAt : new Date().toISOString(),
+      canvas,
+      settings: validateSettings(file.settings, issues),
+      theme: validateTheme(file.theme, issues),
+      elements,
+    },
+    issues,
+  };
+};
@@ -0,0 +1,18 @@
+import { drawOnWhite } from './downloadUtils';
+import { PromptImage } from './llmProviders';
+
+// Large enough to read sketched labels, small enough to keep requests light
+const MAX_IMAGE_SIZE = 1024;
+
+/**
+ * Turns a board export canvas into an image for multimodal models. The export canvas is
+ * already cropped to the drawn content, so only the white background and downscaling are added.
+ */
+export const captureBoardImage = (canvas: HTMLCanvasElement): PromptImage | null => {
+  const image = drawOnWhite(canvas, MAX_IMAGE_SIZE);
+  if (!image) return null;
+
+  // PNG keeps thin strokes crisp, and the mostly white sketches compress well
+  const dataUrl = image.toDataURL('image/png');
+  return { mimeType: 'image/png', data: dataUrl.slice(dataUrl.indexOf(',') + 1) };
+};
@@ -0,0 +1,141 @@
+import { Board, BoardSummary, CanvasElement, DesignTheme, GenerationRecord, OutputTarget, WhiteboardSettings } from '../types';
+
+const STORAGE_PREFIX = 'whiteboard-to-code';
+const INDEX_KEY = `${STORAGE_PREFIX}:boards`;
+const ACTIVE_KEY = `${STORAGE_PREFIX}:active-board`;
+const boardKey = (id: string) => `${STORAGE_PREFIX}:board:${id}`;
+
+// Older generations are dropped beyond this to stay within the storage quota
+export const MAX_GENERATIONS = 25;
+
+export const DEFAULT_SETTINGS: WhiteboardSettings = {
+  strokeColor: '#374151',
+  fillColor: 'transparent',
+  strokeWidth: 2,
+  fontSize: 16,
+};
+
+class BoardStorage {
+  listBoards(): BoardSummary[] {
+    const index = this.read<BoardSummary[]>(INDEX_KEY) || [];
+    return [...index].sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  getBoard(id: string): Board | null {
+    const board = this.read<Board>(boardKey(id));
+    // Boards saved before generation history was kept have no generations list
+    return board && { ...board, generations: board.generations || [] };
+  }
+
+  createBoard(name = 'Untitled board', contents: Partial<Pick<Board, 'elements' | 'generatedCode' | 'outputTarget' | 'theme' | 'generations' | 'settings'>> = {}): Board {
+    const now = Date.now();
+    const board: Board = {
+      id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+      name,
+      elements: contents.elements || [],
+      generatedCode: contents.generatedCode || '',
+      outputTarget: contents.outputTarget,
+      theme: contents.theme,
+      generations: contents.generations || [],
+      settings: contents.settings || { ...DEFAULT_SETTINGS },
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.writeBoard(board);
+    return board;
+  }
+
+  saveBoard(id: string, changes: { elements?: CanvasElement[]; generatedCode?: string; outputTarget?: OutputTarget; theme?: DesignTheme; generations?: GenerationRecord[]; settings?: WhiteboardSettings }): Board | null {
+    const board = this.getBoard(id);
+    if (!board) return null;
+
+    // Skip no-op saves so opening a board does not bump its edit time
+    const unchanged = (Object.keys(changes) as (keyof typeof changes)[]).every(key =>
+      JSON.stringify(changes[key]) === JSON.stringify(board[key])
+    );
+    if (unchanged) return board;
+
+    const updated: Board = { ...board, ...changes, updatedAt: Date.now() };
+    this.writeBoard(updated);
+    return updated;
+  }
+
+  renameBoard(id: string, name: string): Board | null {
+    const board = this.getBoard(id);
+    if (!board) return null;
+
+    const updated: Board = { ...board, name, updatedAt: Date.now() };
+    this.writeBoard(updated);
+    return updated;
+  }
+
+  duplicateBoard(id: string): Board | null {
+    const board = this.getBoard(id);
+    if (!board) return null;
+
+    return this.createBoard(`${board.name} (copy)`, {
+      elements: JSON.parse(JSON.stringify(board.elements)), // Deep clone
+      generatedCode: board.generatedCode,
+      outputTarget: board.outputTarget,
+      theme: board.theme && JSON.parse(JSON.stringify(board.theme)),
+      generations: JSON.parse(JSON.stringify(board.generations || [])),
+      settings: { ...board.settings },
+    });
+  }
+
+  deleteBoard(id: string): void {
+    localStorage.removeItem(boardKey(id));
+    this.write(INDEX_KEY, this.listBoards().filter(board => board.id !== id));
+    if (this.getActiveBoardId() === id) {
+      localStorage.removeItem(ACTIVE_KEY);
+    }
+  }
+
+  getActiveBoardId(): string | null {
+    return localStorage.getItem(ACTIVE_KEY);
+  }
+
+  setActiveBoardId(id: string): void {
+    localStorage.setItem(ACTIVE_KEY, id);
+  }
+
+  // Reopens the last active board, falling back to the most recent one or a fresh board
+  loadInitialBoard(): Board {
+    const activeId = this.getActiveBoardId();
+    const board =
+      (activeId && this.getBoard(activeId)) ||
+      this.listBoards().map(summary => this.getBoard(summary.id)).find(Boolean) ||
+      this.createBoard();
+
+    this.setActiveBoardId(board.id);
+    return board;
+  }
+
+  private writeBoard(board: Board): void {
+    this.write(boardKey(board.id), board);
+
+    const summary: BoardSummary = { id: board.id, name: board.name, updatedAt: board.updatedAt };
+    const index = this.listBoards().filter(entry => entry.id !== board.id);
+    this.write(INDEX_KEY, [summary, ...index]);
+  }
+
+  private read<T>(key: string): T | null {
+    try {
+      const raw = localStorage.getItem(key);
+      return raw ? (JSON.parse(raw) as T) : null;
+    } catch (error) {
+      console.error(`Error reading ${key} from storage:`, error);
+      return null;
+    }
+  }
+
+  private write(key: string, value: unknown): void {
+    try {
+      localStorage.setItem(key, JSON.stringify(value));
+    } catch (error) {
+      console.error(`Error writing ${key} to storage:`, error);
+    }
+  }
+}
+
+export const boardStorage = new BoardStorage();
@@ -0,0 +1,80 @@
+import { Bounds, Point } from './elementGeometry';
+
+/**
+ * Maps the unbounded world (where elements live) onto the whiteboard viewport.
+ * (x, y) is the world point shown at the top-left corner of the viewport and
+ * zoom is the number of screen pixels per world unit.
+ */
+export interface Camera {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+export interface Viewport {
+  width: number;
+  height: number;
+}
+
+export const DEFAULT_CAMERA: Camera = { x: 0, y: 0, zoom: 1 };
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 8;
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+export const screenToWorld = (point: Point, camera: Camera): Point => ({
+  x: point.x / camera.zoom + camera.x,
+  y: point.y / camera.zoom + camera.y,
+});
+
+export const worldToScreen = (point: Point, camera: Camera): Point => ({
+  x: (point.x - camera.x) * camera.zoom,
+  y: (point.y - camera.y) * camera.zoom,
+});
+
+// World area currently visible in the viewport
+export const getVisibleBounds = (camera: Camera, viewport: Viewport): Bounds => ({
+  x: camera.x,
+  y: camera.y,
+  width: viewport.width / camera.zoom,
+  height: viewport.height / camera.zoom,
+});
+
+// Pans by a distance measured in screen pixels
+export const panCamera = (camera: Camera, dx: number, dy: number): Camera => ({
+  ...camera,
+  x: camera.x - dx / camera.zoom,
+  y: camera.y - dy / camera.zoom,
+});
+
+// Zooms by `factor` while keeping the world point under `anchor` (a screen point) in place
+export const zoomCamera = (camera: Camera, factor: number, anchor: Point): Camera => {
+  const zoom = clampZoom(camera.zoom * factor);
+  const world = screenToWorld(anchor, camera);
+  return {
+    x: world.x - anchor.x / zoom,
+    y: world.y - anchor.y / zoom,
+    zoom,
+  };
+};
+
+// Centers the viewport on a world point without changing the zoom
+export const centerCamera = (camera: Camera, point: Point, viewport: Viewport): Camera => ({
+  ...camera,
+  x: point.x - viewport.width / camera.zoom / 2,
+  y: point.y - viewport.height / camera.zoom / 2,
+});
+
+// Frames `bounds` in the viewport, never zooming in past `maxZoom`
+export const fitCamera = (bounds: Bounds, viewport: Viewport, padding = 40, maxZoom = 2): Camera => {
+  const zoom = clampZoom(Math.min(
+    (viewport.width - padding * 2) / Math.max(bounds.width, 1),
+    (viewport.height - padding * 2) / Math.max(bounds.height, 1),
+    maxZoom
+  ));
+  return centerCamera(
+    { x: 0, y: 0, zoom },
+    { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 },
+    viewport
+  );
+};
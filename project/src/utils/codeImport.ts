@@ -0,0 +1,501 @@
+import type * as TypeScript from 'typescript';
+import { CanvasElement, StencilKind } from '../types';
+import { getElementsBounds, translateElement } from './elementGeometry';
+import { createElementId } from './elementIds';
+import { createFrame } from './frames';
+import { getFileName, splitFiles } from './generatedFiles';
+import { loadTypeScript } from './previewRuntime';
+import { MAX_TABLE_COLUMNS, MAX_TABLE_ROWS, STENCILS } from './stencils';
+
+type ElementStyle = Pick<CanvasElement, 'color' | 'strokeWidth'>;
+
+// Markup read from JSX or HTML; text nodes have the tag '#text'
+interface MarkupNode {
+  tag: string;
+  attributes: Record<string, string>;
+  children: MarkupNode[];
+  text?: string;
+}
+
+interface Layout {
+  elements: CanvasElement[];
+  width: number;
+  height: number;
+}
+
+type NodeKind = StencilKind | 'radio' | 'text' | 'divider' | 'container' | 'skip';
+
+// Width of an imported screen when the code does not state one
+const SCREEN_WIDTH = 640;
+const DEFAULT_GAP = 12;
+const BOX_PADDING = 16;
+const TEXT_LINE_HEIGHT = 24;
+// Same rough estimate the board uses for the width of text
+const CHAR_WIDTH = 10;
+const TOGGLE_SIZE = { width: 140, height: 20 };
+const FRAME_GAP = 80;
+// Components defined in the imported file are inlined up to this depth
+const MAX_COMPONENT_DEPTH = 4;
+
+const SKIPPED_TAGS = ['script', 'style', 'head', 'meta', 'title', 'svg', 'br', 'noscript'];
+const INLINE_TAGS = ['a', 'span', 'strong', 'em', 'b', 'i', 'small', 'code', 'label', 'link', 'navlink', 'abbr', 'mark', 'sup', 'sub'];
+// Containers that read as a box even without any styling
+const BOXED_TAGS = ['form', 'fieldset', 'section', 'article', 'aside', 'dialog'];
+const BOXED_CLASS = /^(border|bg-|shadow|rounded|ring-|card|panel)/;
+const OPTION_TAGS = ['option', 'menuitem', 'selectitem'];
+const LINK_TAGS = ['a', 'link', 'navlink', 'button'];
+
+// Library and custom components recognized by name, e.g. <Button>, <TextField> or <DataGrid>
+const COMPONENT_KINDS: [RegExp, NodeKind][] = [
+  [/^(icon)?button$/, 'button'],
+  [/^(input|textfield|textinput|textarea)$/, 'input'],
+  [/^(select|dropdown|combobox|autocomplete)$/, 'dropdown'],
+  [/^(checkbox|switch|toggle)$/, 'checkbox'],
+  [/^radio$/, 'radio'],
+  [/^(img|image|avatar)$/, 'image'],
+  [/^(table|datagrid|datatable)$/, 'table'],
+  [/^(navbar|appbar|toolbar)$/, 'navbar'],
+  [/^(dialog|modal)$/, 'modal'],
+  [/^(divider|separator|hr)$/, 'divider'],
+];
+
+const textNode = (text: string): MarkupNode => ({ tag: '#text', attributes: {}, children: [], text });
+
+const kebabCase = (name: string) => name.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+
+// ---- JSX ----
+
+// The JSX elements in a subtree that are not nested in other JSX
+const findOuterJsx = (ts: typeof TypeScript, node: TypeScript.Node): TypeScript.Node[] => {
+  if (ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node) || ts.isJsxFragment(node)) return [node];
+  const found: TypeScript.Node[] = [];
+  ts.forEachChild(node, child => {
+    found.push(...findOuterJsx(ts, child));
+  });
+  return found;
+};
+
+// The largest JSX in a subtree, which is the rendered markup of a component
+const findMainJsx = (ts: typeof TypeScript, node: TypeScript.Node): TypeScript.Node | undefined =>
+  findOuterJsx(ts, node).sort((a, b) => b.getWidth() - a.getWidth())[0];
+
+const readJsxAttributes = (ts: typeof TypeScript, attributes: TypeScript.JsxAttributes): Record<string, string> => {
+  const result: Record<string, string> = {};
+  attributes.properties.forEach(property => {
+    if (!ts.isJsxAttribute(property)) return;
+    const name = property.name.getText();
+    const key = name === 'className' ? 'class' : name === 'htmlFor' ? 'for' : name.toLowerCase();
+    const initializer = property.initializer;
+    if (!initializer) {
+      result[key] = 'true';
+    } else if (ts.isStringLiteral(initializer)) {
+      result[key] = initializer.text;
+    } else if (ts.isJsxExpression(initializer) && initializer.expression) {
+      const expression = initializer.expression;
+      if (ts.isStringLiteral(expression) || ts.isNoSubstitutionTemplateLiteral(expression) || ts.isNumericLiteral(expression)) {
+        result[key] = expression.text;
+      } else if (ts.isTemplateExpression(expression)) {
+        // Static parts of class names built from template strings
+        result[key] = [expression.head.text, ...expression.templateSpans.map(span => span.literal.text)].join(' ');
+      } else if (ts.isObjectLiteralExpression(expression)) {
+        // Inline styles become CSS text, e.g. {{ flexDirection: 'row' }} → "flex-direction: row"
+        result[key] = expression.properties
+          .filter(ts.isPropertyAssignment)
+          .filter(entry => ts.isStringLiteral(entry.initializer) || ts.isNumericLiteral(entry.initializer))
+          .map(entry => `${kebabCase(entry.name.getText().replace(/['"]/g, ''))}: ${(entry.initializer as TypeScript.LiteralExpression).text}`)
+          .join('; ');
+      }
+    }
+  });
+  return result;
+};
+
+const parseJsx = (ts: typeof TypeScript, source: string): MarkupNode[] => {
+  const sourceFile = ts.createSourceFile('Imported.tsx', source, ts.ScriptTarget.Latest, true, ts.ScriptKind.TSX);
+
+  // Markup of every component declared in the file, so <Card /> can be expanded in place
+  const components = new Map<string, TypeScript.Node>();
+  let defaultExport: string | undefined;
+  const visit = (node: TypeScript.Node) => {
+    let name: string | undefined;
+    let body: TypeScript.Node | undefined;
+    if (ts.isFunctionDeclaration(node) && node.name) {
+      name = node.name.text;
+      body = node.body;
+      if (node.modifiers?.some(modifier => modifier.kind === ts.SyntaxKind.DefaultKeyword)) defaultExport = name;
+    } else if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.initializer) {
+      name = node.name.text;
+      body = node.initializer;
+    } else if (ts.isClassDeclaration(node) && node.name) {
+      name = node.name.text;
+      body = node;
+    } else if (ts.isExportAssignment(node) && ts.isIdentifier(node.expression)) {
+      defaultExport = node.expression.text;
+    }
+
+    const markup = name && /^[A-Z]/.test(name) && body ? findMainJsx(ts, body) : undefined;
+    if (name && markup) components.set(name, markup);
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  const convert = (node: TypeScript.Node, depth: number): MarkupNode[] => {
+    if (ts.isJsxText(node)) {
+      const text = node.text.replace(/\s+/g, ' ').trim();
+      return text ? [textNode(text)] : [];
+    }
+    if (ts.isJsxExpression(node)) {
+      return node.expression ? convertExpression(node.expression, depth) : [];
+    }
+    if (ts.isJsxFragment(node)) {
+      return node.children.flatMap(child => convert(child, depth));
+    }
+    if (ts.isJsxElement(node) || ts.isJsxSelfClosingElement(node)) {
+      const opening = ts.isJsxElement(node) ? node.openingElement : node;
+      const tag = opening.tagName.getText();
+      const local = components.get(tag);
+      if (local && depth < MAX_COMPONENT_DEPTH) {
+        return convert(local, depth + 1);
+      }
+      return [{
+        tag,
+        attributes: readJsxAttributes(ts, opening.attributes),
+        children: ts.isJsxElement(node) ? node.children.flatMap(child => convert(child, depth)) : [],
+      }];
+    }
+    return [];
+  };
+
+  // Literals become text, lists and conditionals contribute the markup they render, other values show as {name}
+  const convertExpression = (expression: TypeScript.Expression, depth: number): MarkupNode[] => {
+    if (ts.isStringLiteral(expression) || ts.isNoSubstitutionTemplateLiteral(expression) || ts.isNumericLiteral(expression)) {
+      return expression.text.trim() ? [textNode(expression.text.trim())] : [];
+    }
+    const markup = findOuterJsx(ts, expression);
+    if (markup.length > 0) return markup.flatMap(node => convert(node, depth));
+    const text = expression.getText().replace(/\s+/g, ' ');
+    return text.length <= 40 ? [textNode(`{${text}}`)] : [];
+  };
+
+  const entry = (defaultExport && components.get(defaultExport)) || findMainJsx(ts, sourceFile);
+  return entry ? convert(entry, 0) : [];
+};
+
+// ---- HTML ----
+
+const fromDom = (node: Node): MarkupNode[] => {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const text = (node.textContent || '').replace(/\s+/g, ' ').trim();
+    return text ? [textNode(text)] : [];
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return [];
+
+  const element = node as Element;
+  const tag = element.tagName.toLowerCase();
+  if (tag === 'template') {
+    return Array.from((element as HTMLTemplateElement).content.childNodes).flatMap(fromDom);
+  }
+  return [{
+    tag,
+    attributes: Object.fromEntries(Array.from(element.attributes).map(attribute => [attribute.name.toLowerCase(), attribute.value])),
+    children: Array.from(element.childNodes).flatMap(fromDom),
+  }];
+};
+
+// Plain HTML, and the markup part of Vue and Svelte components
+const parseHtml = (source: string): MarkupNode[] => {
+  const document = new DOMParser().parseFromString(source, 'text/html');
+  const template = document.querySelector('template');
+  return template ? fromDom(template) : Array.from(document.body.childNodes).flatMap(fromDom);
+};
+
+const looksLikeJsx = (source: string) => /\bclassName=|\bimport\s|\bexport\s|\breturn\s*\(|=>/.test(source);
+
+// ---- Layout ----
+
+const lower = (node: MarkupNode) => node.tag.toLowerCase();
+
+const getText = (node: MarkupNode): string =>
+  node.tag === '#text' ? node.text || '' : node.children.map(getText).filter(Boolean).join(' ');
+
+const findAll = (node: MarkupNode, match: (candidate: MarkupNode) => boolean): MarkupNode[] =>
+  node.children.flatMap(child => [...(match(child) ? [child] : []), ...findAll(child, match)]);
+
+const classTokens = (node: MarkupNode) => (node.attributes.class || '').split(/\s+/).filter(Boolean);
+
+const styleOf = (node: MarkupNode): Record<string, string> =>
+  Object.fromEntries((node.attributes.style || '').split(';')
+    .map(declaration => declaration.split(':').map(part => part.trim()))
+    .filter(([property, value]) => property && value)
+    .map(([property, value]) => [property.toLowerCase(), value]));
+
+// Tailwind spacing steps are 4px
+const tailwindSize = (tokens: string[], prefixes: string[]): number | undefined => {
+  for (const token of tokens) {
+    const match = token.match(/^([a-z-]+)-(\d+(?:\.\d+)?|\[(\d+)px\])$/);
+    if (match && prefixes.includes(match[1])) {
+      return match[3] ? Number(match[3]) : Number(match[2]) * 4;
+    }
+  }
+  return undefined;
+};
+
+const pixels = (value: string | undefined) => {
+  const number = value ? parseFloat(value) : NaN;
+  return Number.isFinite(number) ? number : undefined;
+};
+
+const inputType = (node: MarkupNode) => (node.attributes.type || '').toLowerCase();
+
+const classify = (node: MarkupNode): NodeKind => {
+  const tag = lower(node);
+  if (node.tag === '#text') return 'text';
+  if (SKIPPED_TAGS.includes(tag) || node.attributes.hidden !== undefined) return 'skip';
+  if (tag === 'input') {
+    const type = inputType(node);
+    if (type === 'hidden') return 'skip';
+    if (type === 'checkbox' || type === 'radio') return type;
+    return type === 'submit' || type === 'button' ? 'button' : 'input';
+  }
+  if (tag === 'hr') return 'divider';
+  if (tag === 'nav' || tag === 'header') {
+    return findAll(node, child => LINK_TAGS.includes(lower(child))).length > 1 ? 'navbar' : 'container';
+  }
+  if (node.attributes.role === 'dialog') return 'modal';
+  // A label around a checkbox or radio button is drawn as that control with the label's text
+  const toggle = findAll(node, child => lower(child) === 'input' && ['checkbox', 'radio'].includes(inputType(child)))[0];
+  if (tag === 'label' && toggle) return inputType(toggle) as NodeKind;
+
+  const named = COMPONENT_KINDS.find(([pattern]) => pattern.test(tag));
+  if (named) return named[1];
+  if (/^h[1-6]$|^p$|^li$/.test(tag) || INLINE_TAGS.includes(tag)) {
+    // Text blocks hold only text and inline markup
+    const inline = node.children.every(child => child.tag === '#text' || (INLINE_TAGS.includes(lower(child)) && classify(child) === 'text'));
+    if (inline) return 'text';
+  }
+  return 'container';
+};
+
+const isBoxed = (node: MarkupNode) =>
+  BOXED_TAGS.includes(lower(node)) ||
+  /card|panel/i.test(node.tag) ||
+  classTokens(node).some(token => BOXED_CLASS.test(token)) ||
+  Object.keys(styleOf(node)).some(property => /^(border|background)/.test(property));
+
+const stencilData = (kind: StencilKind, node: MarkupNode): CanvasElement['data'] => {
+  const texts = (tags: string[]) => findAll(node, child => tags.includes(lower(child))).map(getText).filter(Boolean);
+  const heading = texts(['h1', 'h2', 'h3', 'h4', 'strong', 'title', 'dialogtitle'])[0];
+
+  switch (kind) {
+    case 'button':
+      return { label: getText(node) || node.attributes.value || node.attributes['aria-label'] || 'Button', variant: 'primary' };
+    case 'input':
+      return { placeholder: node.attributes.placeholder || node.attributes.label || node.attributes['aria-label'] || node.attributes.value || '' };
+    case 'checkbox':
+      return { label: getText(node) || node.attributes.label || '', checked: node.attributes.checked !== undefined };
+    case 'dropdown': {
+      const options = texts(OPTION_TAGS);
+      return { placeholder: options[0] || node.attributes.placeholder || 'Select an option', options };
+    }
+    case 'navbar':
+      return {
+        title: heading || texts(['span', 'div']).find(text => !texts(LINK_TAGS).includes(text)) || 'Brand',
+        links: texts(LINK_TAGS),
+      };
+    case 'image':
+      return { alt: node.attributes.alt || node.attributes.src?.split('/').pop() || 'Image' };
+    case 'table': {
+      const rows = findAll(node, child => lower(child) === 'tr' || lower(child) === 'tablerow').length;
+      return {
+        columns: texts(['th', 'tablehead', 'tableheader']).slice(0, MAX_TABLE_COLUMNS),
+        rows: Math.min(Math.max(rows - 1, 1), MAX_TABLE_ROWS),
+      };
+    }
+    case 'modal':
+      return { title: heading || 'Dialog', actions: texts(['button']) };
+    default:
+      return JSON.parse(JSON.stringify(STENCILS[kind].defaultData));
+  }
+};
+
+const stencilWidth = (kind: StencilKind, data: CanvasElement['data'], available: number) => {
+  if (kind === 'button') return Math.min(Math.max(String(data.label).length * 9 + 32, 80), available);
+  if (kind === 'navbar' || kind === 'table') return available;
+  return Math.min(STENCILS[kind].defaultSize.width, available);
+};
+
+const wrapText = (text: string, width: number): string[] => {
+  const maxChars = Math.max(Math.floor(width / CHAR_WIDTH), 8);
+  const lines: string[] = [];
+  let line = '';
+  text.split(/\s+/).filter(Boolean).forEach(word => {
+    if (line && line.length + 1 + word.length > maxChars) {
+      lines.push(line);
+      line = '';
+    }
+    line = line ? `${line} ${word}` : word;
+  });
+  return line ? [...lines, line] : lines;
+};
+
+const layoutNode = (node: MarkupNode, x: number, y: number, available: number, style: ElementStyle): Layout => {
+  const kind = classify(node);
+  const tokens = classTokens(node);
+  const css = styleOf(node);
+  const width = Math.min(tailwindSize(tokens, ['w', 'max-w']) ?? pixels(css.width) ?? pixels(node.attributes.width) ?? available, available);
+  const base = { timestamp: Date.now(), ...style };
+
+  switch (kind) {
+    case 'skip':
+      return { elements: [], width: 0, height: 0 };
+    case 'text': {
+      const lines = wrapText(getText(node), width);
+      return {
+        elements: lines.map((text, index) => ({
+          ...base,
+          id: createElementId(),
+          type: 'text' as const,
+          data: { text },
+          // Text is positioned by its baseline
+          position: { x, y: y + index * TEXT_LINE_HEIGHT + 20 },
+        })),
+        width: Math.max(0, ...lines.map(text => text.length * CHAR_WIDTH)),
+        height: lines.length * TEXT_LINE_HEIGHT,
+      };
+    }
+    case 'divider':
+      return {
+        elements: [{ ...base, id: createElementId(), type: 'line', data: { points: [{ x, y: y + 8 }, { x: x + width, y: y + 8 }] }, position: { x, y: y + 8 } }],
+        width,
+        height: 16,
+      };
+    case 'radio':
+      return {
+        elements: [{
+          ...base,
+          id: createElementId(),
+          type: 'radio',
+          data: { label: getText(node) || node.attributes.label || '', checked: node.attributes.checked !== undefined },
+          position: { x, y },
+          dimensions: { ...TOGGLE_SIZE },
+        }],
+        ...TOGGLE_SIZE,
+      };
+    case 'container':
+      return layoutContainer(node, x, y, width, style);
+    default: {
+      const data = stencilData(kind, node);
+      const size = {
+        width: stencilWidth(kind, data, width),
+        height: pixels(css.height) ?? pixels(node.attributes.height) ??
+          (lower(node) === 'textarea' ? 96 : kind === 'checkbox' ? TOGGLE_SIZE.height : STENCILS[kind].defaultSize.height),
+      };
+      return { elements: [{ ...base, id: createElementId(), type: kind, data, position: { x, y }, dimensions: size }], ...size };
+    }
+  }
+};
+
+/**
+ * Lays out a container's children as a column, a row or a grid, read from flex and grid
+ * classes or inline styles. Styled containers, cards and forms are drawn as rectangles
+ * that fill the available width; other containers only group their children.
+ */
+const layoutContainer = (node: MarkupNode, x: number, y: number, available: number, style: ElementStyle): Layout => {
+  const tokens = classTokens(node);
+  const css = styleOf(node);
+  const boxed = isBoxed(node);
+  const padding = boxed ? BOX_PADDING : 0;
+  const inner = Math.max(available - padding * 2, 40);
+
+  const isFlex = tokens.includes('flex') || tokens.includes('inline-flex') || /flex/.test(css.display || '');
+  const isRow = isFlex && !tokens.includes('flex-col') && !/column/.test(css['flex-direction'] || '');
+  const columns = Number(tokens.find(token => /^grid-cols-\d+$/.test(token))?.slice('grid-cols-'.length) || 1);
+  const gap = tailwindSize(tokens, isRow ? ['gap', 'gap-x', 'space-x'] : ['gap', 'gap-y', 'space-y']) ?? pixels(css.gap) ?? DEFAULT_GAP;
+
+  const children = node.children.filter(child => classify(child) !== 'skip');
+  const elements: CanvasElement[] = [];
+  let contentWidth = 0;
+  let contentHeight = 0;
+
+  if (isRow || columns > 1) {
+    // Rows share the width equally; a grid wraps after every `columns` cells
+    const perRow = columns > 1 ? columns : Math.max(children.length, 1);
+    const cellWidth = (inner - gap * (perRow - 1)) / perRow;
+    let top = y + padding;
+    for (let start = 0; start < children.length; start += perRow) {
+      let left = x + padding;
+      let rowHeight = 0;
+      children.slice(start, start + perRow).forEach(child => {
+        const layout = layoutNode(child, left, top, cellWidth, style);
+        elements.push(...layout.elements);
+        left += (columns > 1 ? cellWidth : layout.width) + gap;
+        rowHeight = Math.max(rowHeight, layout.height);
+      });
+      contentWidth = Math.max(contentWidth, left - gap - x - padding);
+      contentHeight = top + rowHeight - y - padding;
+      top += rowHeight + gap;
+    }
+  } else {
+    let top = y + padding;
+    children.forEach(child => {
+      const layout = layoutNode(child, x + padding, top, inner, style);
+      if (layout.height === 0) return;
+      elements.push(...layout.elements);
+      contentWidth = Math.max(contentWidth, layout.width);
+      contentHeight = top + layout.height - y - padding;
+      top += layout.height + gap;
+    });
+  }
+
+  if (!boxed) {
+    return { elements, width: contentWidth, height: contentHeight };
+  }
+
+  const height = Math.max(contentHeight + padding * 2, 40);
+  const box: CanvasElement = {
+    id: createElementId(),
+    type: 'rectangle',
+    data: {},
+    position: { x, y },
+    dimensions: { width: available, height },
+    timestamp: Date.now(),
+    ...style,
+  };
+  // The box goes first so it is drawn underneath its contents
+  return { elements: [box, ...elements], width: available, height };
+};
+
+const parseMarkup = async (source: string): Promise<MarkupNode[]> =>
+  looksLikeJsx(source) ? parseJsx(await loadTypeScript(), source) : parseHtml(source);
+
+const layoutScreen = (nodes: MarkupNode[], style: ElementStyle): CanvasElement[] =>
+  layoutContainer({ tag: 'div', attributes: {}, children: nodes }, 0, 0, SCREEN_WIDTH, style).elements;
+
+/**
+ * Turns a React component or an HTML snippet into an approximate wireframe: form controls,
+ * navbars, tables and dialogs become stencils, styled containers become rectangles and
+ * everything else becomes text, with positions starting at (0, 0). Page sets in the
+ * `// File:` bundle format become one frame per page, side by side; the router is skipped.
+ */
+export const importCode = async (source: string, style: ElementStyle): Promise<CanvasElement[]> => {
+  const files = splitFiles(source).filter(file => /\.(tsx|jsx|html|vue|svelte)$/.test(file.path) && getFileName(file.path) !== 'App.tsx');
+  if (files.length === 0) {
+    const elements = layoutScreen(await parseMarkup(source), style);
+    if (elements.length === 0) throw new Error('No markup found in the code');
+    return elements;
+  }
+
+  const elements: CanvasElement[] = [];
+  let left = 0;
+  for (const file of files) {
+    const content = layoutScreen(await parseMarkup(file.code), style);
+    const bounds = getElementsBounds(content) || { x: 0, y: 0, width: 0, height: 0 };
+    const frame = createFrame({ x: left, y: 0 }, getFileName(file.path).replace(/\.\w+$/, '').replace(/Page$/, '') || 'Page', { ...style, strokeWidth: 1 });
+    elements.push(
+      { ...frame, id: createElementId(), dimensions: { width: SCREEN_WIDTH + BOX_PADDING * 2, height: bounds.y + bounds.height + BOX_PADDING * 2 } },
+      ...content.map(element => translateElement(element, left + BOX_PADDING, BOX_PADDING))
+    );
+    left += SCREEN_WIDTH + BOX_PADDING * 2 + FRAME_GAP;
+  }
+  return elements;
+};
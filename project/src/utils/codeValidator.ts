@@ -0,0 +1,183 @@
+import type * as TypeScript from 'typescript';
+import { OutputTarget } from '../types';
+import { GeneratedFile, getFileName, splitFiles } from './generatedFiles';
+import { getOutputTarget } from './outputTargets';
+import { loadTypeScript } from './previewRuntime';
+
+export interface CodeDiagnostic {
+  // Set for page sets, where problems can be in any of the files
+  file?: string;
+  // 1-based; 0 when the problem is not tied to a position
+  line: number;
+  column: number;
+  message: string;
+  severity: 'error' | 'warning';
+}
+
+/**
+ * Semantic checks that stay reliable without lib.d.ts or package typings: undeclared
+ * names, duplicate declarations and grammar errors found by the checker. Everything that
+ * depends on types, such as missing properties, is left to the real build.
+ */
+const TRUSTED_CODES = new Set([
+  2300, // Duplicate identifier
+  2304, // Cannot find name
+  2448, // Block-scoped variable used before its declaration
+  2451, // Cannot redeclare block-scoped variable
+  2552, // Cannot find name, did you mean
+  2588, // Cannot assign to a constant
+]);
+const UNDECLARED_NAME_CODES = new Set([2304, 2552]);
+
+const getCompilerOptions = (ts: typeof TypeScript): TypeScript.CompilerOptions => ({
+  noLib: true,
+  noResolve: true,
+  noEmit: true,
+  types: [],
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.ESNext,
+  // The automatic runtime, so JSX alone does not require React in scope
+  jsx: ts.JsxEmit.ReactJSX,
+});
+
+const isExported = (ts: typeof TypeScript, statement: TypeScript.Statement) =>
+  ts.isExportAssignment(statement) ||
+  ts.isExportDeclaration(statement) ||
+  (ts.canHaveModifiers(statement) && !!ts.getModifiers(statement)?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword));
+
+// Names are only undeclared when the browser does not provide them either, and type positions are skipped because lib types are not loaded
+const isFalseUndeclaredName = (ts: typeof TypeScript, sourceFile: TypeScript.SourceFile, diagnostic: TypeScript.Diagnostic) => {
+  const name = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n').match(/'([^']+)'/)?.[1];
+  if (!name || name in globalThis) return true;
+
+  let node: TypeScript.Node | undefined = sourceFile;
+  const find = (child: TypeScript.Node): TypeScript.Node | undefined =>
+    diagnostic.start !== undefined && child.getStart(sourceFile) <= diagnostic.start && diagnostic.start < child.getEnd()
+      ? child
+      : undefined;
+  for (let next = ts.forEachChild(node, find); next; next = ts.forEachChild(next, find)) {
+    node = next;
+  }
+  for (let current: TypeScript.Node | undefined = node; current; current = current.parent) {
+    if (ts.isTypeNode(current)) return true;
+  }
+  return false;
+};
+
+const toDiagnostic = (
+  ts: typeof TypeScript,
+  diagnostic: TypeScript.Diagnostic,
+  file: string | undefined
+): CodeDiagnostic => {
+  const position = diagnostic.file && diagnostic.start !== undefined
+    ? diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start)
+    : { line: -1, character: -1 };
+  return {
+    file,
+    line: position.line + 1,
+    column: position.character + 1,
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+    severity: 'error',
+  };
+};
+
+const checkFile = (
+  ts: typeof TypeScript,
+  file: GeneratedFile,
+  packages: string[],
+  bundle: GeneratedFile[]
+): CodeDiagnostic[] => {
+  const fileName = `/${file.path}`;
+  const label = bundle.length > 0 ? file.path : undefined;
+  const host: TypeScript.CompilerHost = {
+    getSourceFile: (name, languageVersion) =>
+      name === fileName ? ts.createSourceFile(name, file.code, languageVersion, true, ts.ScriptKind.TSX) : undefined,
+    getDefaultLibFileName: () => 'lib.d.ts',
+    writeFile: () => undefined,
+    getCurrentDirectory: () => '/',
+    getCanonicalFileName: name => name,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+    fileExists: name => name === fileName,
+    readFile: name => (name === fileName ? file.code : undefined),
+  };
+  const program = ts.createProgram([fileName], getCompilerOptions(ts), host);
+  const sourceFile = program.getSourceFile(fileName);
+  if (!sourceFile) return [];
+
+  // Checker results are meaningless for code that does not parse
+  const syntactic = program.getSyntacticDiagnostics(sourceFile);
+  if (syntactic.length > 0) {
+    return syntactic.map(diagnostic => toDiagnostic(ts, diagnostic, label));
+  }
+
+  const problems = program.getSemanticDiagnostics(sourceFile)
+    .filter(diagnostic => TRUSTED_CODES.has(diagnostic.code) || diagnostic.code < 2000)
+    .filter(diagnostic => !UNDECLARED_NAME_CODES.has(diagnostic.code) || !isFalseUndeclaredName(ts, sourceFile, diagnostic))
+    .map(diagnostic => toDiagnostic(ts, diagnostic, label));
+
+  sourceFile.statements.forEach(statement => {
+    if (!ts.isImportDeclaration(statement) || !ts.isStringLiteral(statement.moduleSpecifier)) return;
+    const specifier = statement.moduleSpecifier.text;
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(statement.moduleSpecifier.getStart(sourceFile));
+    const at = { file: label, line: line + 1, column: character + 1 };
+
+    if (specifier.startsWith('.')) {
+      // Type-only imports are erased, and stylesheets come with CSS module output
+      if (statement.importClause?.isTypeOnly || specifier.endsWith('.css')) return;
+      if (bundle.length === 0) {
+        problems.push({ ...at, message: `'${specifier}' is not part of the generated code`, severity: 'warning' });
+        return;
+      }
+      const directory = file.path.split('/').slice(0, -1);
+      specifier.split('/').forEach(part => {
+        if (part === '..') directory.pop();
+        else if (part !== '.') directory.push(part);
+      });
+      const resolved = directory.join('/');
+      if (!bundle.some(other => other.path.replace(/\.\w+$/, '') === resolved.replace(/\.\w+$/, ''))) {
+        problems.push({ ...at, message: `Cannot find '${specifier}' among the generated files`, severity: 'error' });
+      }
+      return;
+    }
+
+    const packageName = specifier.startsWith('@') ? specifier.split('/').slice(0, 2).join('/') : specifier.split('/')[0];
+    if (!packages.includes(packageName)) {
+      problems.push({
+        ...at,
+        message: `Unknown import '${specifier}': only ${packages.join(', ')} are available`,
+        severity: 'error',
+      });
+    }
+  });
+
+  if (!sourceFile.statements.some(statement => isExported(ts, statement))) {
+    problems.push({ file: label, line: 0, column: 0, message: 'No component is exported', severity: 'warning' });
+  }
+
+  return problems;
+};
+
+/**
+ * Checks generated code in the browser with the TypeScript compiler: syntax errors,
+ * undeclared names and imports of packages the target does not provide. Page sets are
+ * checked file by file. Targets without a package list, like Vue or HTML, are not checked.
+ * `extraPackages` are allowed on top of the target's, e.g. the board's component library.
+ */
+export const validateCode = async (code: string, target: OutputTarget, extraPackages: string[] = []): Promise<CodeDiagnostic[]> => {
+  const targetPackages = getOutputTarget(target).packages;
+  if (!targetPackages || !code.trim()) return [];
+  const packages = [...targetPackages, ...extraPackages];
+
+  const ts = await loadTypeScript();
+  const bundle = splitFiles(code);
+  const files = bundle.length > 0 ? bundle : [{ path: `GeneratedComponent${getOutputTarget(target).extension}`, code }];
+  return files.flatMap(file => checkFile(ts, file, packages, bundle));
+};
+
+export const formatDiagnostic = (diagnostic: CodeDiagnostic): string => {
+  const file = diagnostic.file ? `${getFileName(diagnostic.file)}: ` : '';
+  return diagnostic.line > 0
+    ? `${file}Line ${diagnostic.line}, column ${diagnostic.column}: ${diagnostic.message}`
+    : `${file}${diagnostic.message}`;
+};
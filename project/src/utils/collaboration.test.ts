@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CanvasElement } from '../types';
+import { CollaborationSession, ElementOperation, ServerMessage } from './collaboration';
+
+// Stands in for the browser WebSocket; messages are delivered by hand
+class FakeSocket {
+  static OPEN = 1;
+  static instances: FakeSocket[] = [];
+  readyState = 0;
+  sent: unknown[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor() {
+    FakeSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    this.readyState = 3;
+  }
+
+  open() {
+    this.readyState = FakeSocket.OPEN;
+    this.onopen?.();
+  }
+
+  receive(message: ServerMessage) {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+}
+
+const box = (id: string, x = 0): CanvasElement => ({ id, type: 'rectangle', data: {}, position: { x, y: 0 } });
+
+const op = (id: string, clock: number, clientId: string, element: CanvasElement | null, created = clock): ElementOperation =>
+  ({ id, element, clock, clientId, created });
+
+const connect = (userId: string) => {
+  const onElements = vi.fn();
+  const session = new CollaborationSession(
+    { id: userId, name: userId, color: '#000' },
+    { onElements, onPeers: vi.fn(), onCursors: vi.fn(), onStatus: vi.fn() }
+  );
+  session.connect({ url: 'ws://relay', room: 'room', name: userId }, []);
+  const socket = FakeSocket.instances[FakeSocket.instances.length - 1];
+  socket.open();
+  return { session, socket, onElements };
+};
+
+describe('CollaborationSession', () => {
+  beforeEach(() => {
+    FakeSocket.instances = [];
+    vi.stubGlobal('WebSocket', FakeSocket);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('converges on the same elements in the same order whatever the delivery order', () => {
+    const ops = [
+      op('a', 1, 'alice', box('a')),
+      op('b', 2, 'bob', box('b')),
+      op('a', 3, 'bob', box('a', 30), 1),
+      op('a', 3, 'alice', box('a', 10), 1),
+      op('c', 2, 'alice', box('c')),
+      op('b', 4, 'alice', null, 2),
+    ];
+    const first = connect('carol');
+    const second = connect('dave');
+    first.socket.receive({ type: 'snapshot', ops: [], peers: [] });
+    second.socket.receive({ type: 'snapshot', ops: [], peers: [] });
+
+    ops.forEach(entry => first.socket.receive({ type: 'ops', ops: [entry] }));
+    [...ops].reverse().forEach(entry => second.socket.receive({ type: 'ops', ops: [entry] }));
+
+    // Same clock: the higher client id wins; "b" is deleted; "a" was created first and stays below "c"
+    expect(first.session.getElements()).toEqual([box('a', 30), box('c')]);
+    expect(second.session.getElements()).toEqual(first.session.getElements());
+  });
+
+  it('ignores operations older than the current state', () => {
+    const { session, socket } = connect('carol');
+    socket.receive({ type: 'snapshot', ops: [op('a', 5, 'alice', box('a', 50))], peers: [] });
+    socket.receive({ type: 'ops', ops: [op('a', 4, 'bob', box('a', 40))] });
+
+    expect(session.getElements()).toEqual([box('a', 50)]);
+  });
+
+  it('publishes local changes with the creation clock of the element', () => {
+    const { session, socket } = connect('carol');
+    socket.receive({ type: 'snapshot', ops: [op('a', 7, 'alice', box('a'))], peers: [] });
+    socket.sent = [];
+
+    session.publishElements([box('a', 20), box('new')]);
+
+    expect(socket.sent).toEqual([{
+      type: 'ops',
+      ops: [op('a', 8, 'carol', box('a', 20), 7), op('new', 9, 'carol', box('new'))],
+    }]);
+  });
+
+  it('drops operations with malformed elements', () => {
+    const { session, socket } = connect('carol');
+    socket.receive({ type: 'snapshot', ops: [op('a', 1, 'alice', box('a'))], peers: [] });
+    const broken = [
+      { ...op('b', 2, 'bob', box('b')), element: { id: 'b', type: 'rectangle' } },
+      op('c', 3, 'bob', box('other')),
+      { id: 'd', clock: 'soon', clientId: 'bob', element: null },
+    ] as unknown as ElementOperation[];
+    socket.receive({ type: 'ops', ops: [...broken, op('a', 4, 'bob', box('a', 40))] });
+
+    expect(session.getElements()).toEqual([box('a', 40)]);
+  });
+});
@@ -0,0 +1,321 @@
+import { CanvasElement } from '../types';
+import { validateElement } from './boardFormat';
+import { Point } from './elementGeometry';
+
+export type CollabStatus = 'disconnected' | 'connecting' | 'connected';
+
+export interface CollabUser {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export interface CollabConfig {
+  url: string;
+  room: string;
+  name: string;
+}
+
+export interface RemoteCursor {
+  user: CollabUser;
+  position: Point;
+}
+
+/**
+ * Last-writer-wins update of one element. Operations are ordered by a Lamport
+ * clock with the client id as tie breaker, so every peer (and the relay)
+ * converges on the same state regardless of delivery order. Deletions are
+ * kept as tombstones with a null element.
+ */
+export interface ElementOperation {
+  id: string;
+  element: CanvasElement | null;
+  clock: number;
+  clientId: string;
+  // Clock of the first operation on the element, which fixes its stacking order on every peer
+  created?: number;
+}
+
+export type ClientMessage =
+  | { type: 'join'; room: string; user: CollabUser }
+  | { type: 'ops'; ops: ElementOperation[] }
+  | { type: 'cursor'; position: Point | null };
+
+export type ServerMessage =
+  | { type: 'snapshot'; ops: ElementOperation[]; peers: CollabUser[] }
+  | { type: 'ops'; ops: ElementOperation[] }
+  | { type: 'peer-joined'; user: CollabUser }
+  | { type: 'peer-left'; userId: string }
+  | { type: 'cursor'; userId: string; position: Point | null };
+
+export interface CollaborationCallbacks {
+  // Called with the full element list whenever remote operations change it
+  onElements: (elements: CanvasElement[]) => void;
+  onPeers: (peers: CollabUser[]) => void;
+  onCursors: (cursors: RemoteCursor[]) => void;
+  onStatus: (status: CollabStatus, error?: string) => void;
+}
+
+export const DEFAULT_RELAY_URL = import.meta.env.VITE_COLLAB_URL || 'ws://localhost:1234';
+
+export const USER_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#14b8a6', '#3b82f6', '#8b5cf6', '#ec4899'];
+
+const USER_KEY = 'whiteboard-to-code:collab-user';
+// Cursor updates are sent at most this often
+const CURSOR_INTERVAL = 50;
+
+const isNewer = (a: ElementOperation, b: ElementOperation) =>
+  a.clock > b.clock || (a.clock === b.clock && a.clientId > b.clientId);
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Checks an operation received from the relay. Elements are validated like those in an
+ * imported board file, so one broken peer cannot crash everyone else's canvas.
+ * The relay runs the same check before storing or forwarding anything.
+ */
+export const isValidOperation = (op: unknown): op is ElementOperation => {
+  if (typeof op !== 'object' || op === null) return false;
+  const { id, element, clock, clientId, created } = op as Record<string, unknown>;
+  return typeof id === 'string' &&
+    typeof clientId === 'string' &&
+    isFiniteNumber(clock) &&
+    (created === undefined || isFiniteNumber(created)) &&
+    (element === null || (validateElement(element).length === 0 && (element as CanvasElement).id === id));
+};
+
+// Operations from before creation clocks were sent fall back to their own clock
+const createdAt = (op: ElementOperation) => op.created ?? op.clock;
+
+// Draw order shared by all peers: oldest element first, ties broken by id
+const compareCreation = (a: ElementOperation, b: ElementOperation) =>
+  createdAt(a) - createdAt(b) || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+
+// Name and color persist across sessions; the id is per tab so two tabs are two peers
+export const loadCollabUser = (): CollabUser => {
+  let stored: Partial<CollabUser> = {};
+  try {
+    stored = JSON.parse(localStorage.getItem(USER_KEY) || '{}');
+  } catch (error) {
+    console.error('Error reading collaboration user:', error);
+  }
+
+  return {
+    id: Math.random().toString(36).slice(2, 10),
+    name: stored.name || 'Guest',
+    color: stored.color || USER_COLORS[Math.floor(Math.random() * USER_COLORS.length)],
+  };
+};
+
+export const saveCollabUser = (user: CollabUser): void => {
+  localStorage.setItem(USER_KEY, JSON.stringify({ name: user.name, color: user.color }));
+};
+
+export class CollaborationSession {
+  private user: CollabUser;
+  private callbacks: CollaborationCallbacks;
+  private socket: WebSocket | null = null;
+  private entries = new Map<string, ElementOperation>();
+  private clock = 0;
+  private peers = new Map<string, CollabUser>();
+  private cursors = new Map<string, RemoteCursor>();
+  private localElements: CanvasElement[] = [];
+  private lastCursorSent = 0;
+  private cursorTimeout: ReturnType<typeof setTimeout> | null = null;
+  private pendingCursor: Point | null = null;
+
+  constructor(user: CollabUser, callbacks: CollaborationCallbacks) {
+    this.user = user;
+    this.callbacks = callbacks;
+  }
+
+  connect(config: CollabConfig, elements: CanvasElement[]): void {
+    this.disconnect();
+    this.localElements = elements;
+    this.callbacks.onStatus('connecting');
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(config.url);
+    } catch (error) {
+      this.callbacks.onStatus('disconnected', error instanceof Error ? error.message : 'Invalid relay URL');
+      return;
+    }
+    this.socket = socket;
+    let connectionError: string | undefined;
+
+    socket.onopen = () => {
+      this.send({ type: 'join', room: config.room, user: this.user });
+    };
+    socket.onmessage = (event) => {
+      try {
+        this.handleMessage(JSON.parse(event.data) as ServerMessage);
+      } catch (error) {
+        console.error('Error handling collaboration message:', error);
+      }
+    };
+    socket.onerror = () => {
+      connectionError = `Could not reach the relay at ${config.url}`;
+    };
+    socket.onclose = () => {
+      // Ignore sockets we closed ourselves
+      if (this.socket === socket) {
+        this.socket = null;
+        this.reset();
+        this.callbacks.onStatus('disconnected', connectionError);
+      }
+    };
+  }
+
+  disconnect(): void {
+    const socket = this.socket;
+    if (!socket) return;
+
+    this.socket = null;
+    socket.close();
+    this.reset();
+    this.callbacks.onStatus('disconnected');
+  }
+
+  isConnected(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  // Sends the difference between the shared state and the local elements as operations
+  publishElements(elements: CanvasElement[]): void {
+    this.localElements = elements;
+    if (!this.isConnected()) return;
+
+    const ops: ElementOperation[] = [];
+    const ids = new Set(elements.map(element => element.id));
+
+    elements.forEach(element => {
+      const entry = this.entries.get(element.id);
+      if (!entry || JSON.stringify(entry.element) !== JSON.stringify(element)) {
+        ops.push(this.createOperation(element.id, element));
+      }
+    });
+    this.entries.forEach((entry, id) => {
+      if (entry.element && !ids.has(id)) {
+        ops.push(this.createOperation(id, null));
+      }
+    });
+
+    if (ops.length > 0) {
+      this.send({ type: 'ops', ops });
+    }
+  }
+
+  sendCursor(position: Point | null): void {
+    this.pendingCursor = position;
+    if (this.cursorTimeout || !this.isConnected()) return;
+
+    const wait = Math.max(0, this.lastCursorSent + CURSOR_INTERVAL - Date.now());
+    this.cursorTimeout = setTimeout(() => {
+      this.cursorTimeout = null;
+      this.lastCursorSent = Date.now();
+      this.send({ type: 'cursor', position: this.pendingCursor });
+    }, wait);
+  }
+
+  getElements(): CanvasElement[] {
+    return [...this.entries.values()]
+      .sort(compareCreation)
+      .map(entry => entry.element)
+      .filter((element): element is CanvasElement => element !== null);
+  }
+
+  private createOperation(id: string, element: CanvasElement | null): ElementOperation {
+    const entry = this.entries.get(id);
+    const clock = ++this.clock;
+    const op: ElementOperation = {
+      id,
+      // Deep clone so later in-place edits on the canvas cannot alter shared state
+      element: element && JSON.parse(JSON.stringify(element)),
+      clock,
+      clientId: this.user.id,
+      created: entry ? createdAt(entry) : clock,
+    };
+    this.entries.set(id, op);
+    return op;
+  }
+
+  private handleMessage(message: ServerMessage): void {
+    switch (message.type) {
+      case 'snapshot': {
+        this.peers = new Map(message.peers.map(peer => [peer.id, peer]));
+        this.callbacks.onPeers([...this.peers.values()]);
+        this.callbacks.onStatus('connected');
+
+        // Join an active room as is; seed an empty room with our own drawing
+        if (message.ops.some(op => op.element)) {
+          this.applyOperations(message.ops, true);
+        } else {
+          this.applyOperations(message.ops, false);
+          this.publishElements(this.localElements);
+        }
+        break;
+      }
+      case 'ops':
+        this.applyOperations(message.ops, true);
+        break;
+      case 'peer-joined':
+        this.peers.set(message.user.id, message.user);
+        this.callbacks.onPeers([...this.peers.values()]);
+        break;
+      case 'peer-left':
+        this.peers.delete(message.userId);
+        this.cursors.delete(message.userId);
+        this.callbacks.onPeers([...this.peers.values()]);
+        this.callbacks.onCursors([...this.cursors.values()]);
+        break;
+      case 'cursor': {
+        const user = this.peers.get(message.userId);
+        if (!user) break;
+        if (message.position) {
+          this.cursors.set(user.id, { user, position: message.position });
+        } else {
+          this.cursors.delete(user.id);
+        }
+        this.callbacks.onCursors([...this.cursors.values()]);
+        break;
+      }
+    }
+  }
+
+  private applyOperations(ops: ElementOperation[], notify: boolean): void {
+    let changed = false;
+
+    ops.filter(isValidOperation).forEach(op => {
+      this.clock = Math.max(this.clock, op.clock);
+      const entry = this.entries.get(op.id);
+      if (!entry || isNewer(op, entry)) {
+        this.entries.set(op.id, op);
+        changed = true;
+      }
+    });
+
+    if (changed && notify) {
+      this.localElements = this.getElements();
+      this.callbacks.onElements(this.localElements);
+    }
+  }
+
+  private send(message: ClientMessage): void {
+    if (this.isConnected()) {
+      this.socket?.send(JSON.stringify(message));
+    }
+  }
+
+  private reset(): void {
+    if (this.cursorTimeout) {
+      clearTimeout(this.cursorTimeout);
+      this.cursorTimeout = null;
+    }
+    this.entries.clear();
+    this.peers.clear();
+    this.cursors.clear();
+    this.callbacks.onPeers([]);
+    this.callbacks.onCursors([]);
+  }
+}
@@ -0,0 +1,153 @@
+import { CanvasElement, ConnectorRouting } from '../types';
+import { Bounds, Point, getElementBounds } from './elementGeometry';
+import { createElementId } from './elementIds';
+import { isStencil, stencilText } from './stencils';
+
+export const ROUTING_LABELS: Record<ConnectorRouting, string> = {
+  straight: 'Straight',
+  elbow: 'Elbow',
+  curved: 'Curved',
+};
+
+// Number of straight segments used to approximate a curved connector
+const CURVE_SEGMENTS = 16;
+
+const ROUND_TYPES: CanvasElement['type'][] = ['circle', 'ellipse', 'radio'];
+
+const center = (bounds: Bounds): Point => ({ x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 });
+
+// Point where the line from the element's center towards `toward` crosses its outline
+export const outlinePoint = (element: CanvasElement, toward: Point): Point => {
+  const bounds = getElementBounds(element);
+  const origin = center(bounds);
+  const dx = toward.x - origin.x;
+  const dy = toward.y - origin.y;
+  if (dx === 0 && dy === 0) return origin;
+
+  const rx = bounds.width / 2;
+  const ry = bounds.height / 2;
+  const scale = ROUND_TYPES.includes(element.type)
+    ? 1 / Math.hypot(dx / rx, dy / ry)
+    : Math.min(dx !== 0 ? rx / Math.abs(dx) : Infinity, dy !== 0 ? ry / Math.abs(dy) : Infinity);
+  return { x: origin.x + dx * scale, y: origin.y + dy * scale };
+};
+
+const cubicPoints = (start: Point, c1: Point, c2: Point, end: Point): Point[] =>
+  Array.from({ length: CURVE_SEGMENTS + 1 }, (_, index) => {
+    const t = index / CURVE_SEGMENTS;
+    const u = 1 - t;
+    return {
+      x: u * u * u * start.x + 3 * u * u * t * c1.x + 3 * u * t * t * c2.x + t * t * t * end.x,
+      y: u * u * u * start.y + 3 * u * u * t * c1.y + 3 * u * t * t * c2.y + t * t * t * end.y,
+    };
+  });
+
+const findEndpoint = (elements: CanvasElement[], id: unknown): CanvasElement | undefined =>
+  typeof id === 'string' ? elements.find(element => element.id === id && element.type !== 'connector') : undefined;
+
+/**
+ * Recomputes a connector's route from the current position of the elements it is
+ * attached to. An end that is not attached, or whose element is gone, stays where it was.
+ */
+export const routeConnector = (connector: CanvasElement, elements: CanvasElement[]): CanvasElement => {
+  const stored = connector.data.points && connector.data.points.length > 0 ? connector.data.points : [connector.position];
+  const source = findEndpoint(elements, connector.data.sourceId);
+  const target = findEndpoint(elements, connector.data.targetId);
+  const sourceBounds = source && getElementBounds(source);
+  const targetBounds = target && getElementBounds(target);
+
+  const from = sourceBounds ? center(sourceBounds) : stored[0];
+  const to = targetBounds ? center(targetBounds) : stored[stored.length - 1];
+  const horizontal = Math.abs(to.x - from.x) >= Math.abs(to.y - from.y);
+  let points: Point[];
+
+  if (connector.data.routing === 'elbow') {
+    // Leave and enter through the sides that face each other, turning halfway
+    const forward = horizontal ? to.x >= from.x : to.y >= from.y;
+    const sideOf = (bounds: Bounds | undefined, point: Point, leaving: boolean): Point => {
+      if (!bounds) return point;
+      const far = leaving === forward;
+      return horizontal
+        ? { x: far ? bounds.x + bounds.width : bounds.x, y: point.y }
+        : { x: point.x, y: far ? bounds.y + bounds.height : bounds.y };
+    };
+    const start = sideOf(sourceBounds, from, true);
+    const end = sideOf(targetBounds, to, false);
+    points = horizontal
+      ? [start, { x: (start.x + end.x) / 2, y: start.y }, { x: (start.x + end.x) / 2, y: end.y }, end]
+      : [start, { x: start.x, y: (start.y + end.y) / 2 }, { x: end.x, y: (start.y + end.y) / 2 }, end];
+  } else {
+    const start = source ? outlinePoint(source, to) : from;
+    const end = target ? outlinePoint(target, from) : to;
+    if (connector.data.routing === 'curved') {
+      const middle = { x: (start.x + end.x) / 2, y: (start.y + end.y) / 2 };
+      points = horizontal
+        ? cubicPoints(start, { x: middle.x, y: start.y }, { x: middle.x, y: end.y }, end)
+        : cubicPoints(start, { x: start.x, y: middle.y }, { x: end.x, y: middle.y }, end);
+    } else {
+      points = [start, end];
+    }
+  }
+
+  return { ...connector, position: points[0], data: { ...connector.data, points } };
+};
+
+// Reroutes every connector; returns the same array when there are none
+export const routeConnectors = (elements: CanvasElement[]): CanvasElement[] =>
+  elements.some(element => element.type === 'connector')
+    ? elements.map(element => (element.type === 'connector' ? routeConnector(element, elements) : element))
+    : elements;
+
+export const createConnector = (
+  start: Point,
+  sourceId: string | undefined,
+  routing: ConnectorRouting,
+  style: Pick<CanvasElement, 'color' | 'strokeWidth'>
+): CanvasElement => ({
+  id: createElementId(),
+  type: 'connector',
+  data: { sourceId, routing, points: [start, start] },
+  position: start,
+  timestamp: Date.now(),
+  ...style,
+});
+
+// Point halfway along a polyline, where connector labels are drawn
+export const getPolylineMidpoint = (points: Point[]): Point => {
+  const lengths = points.slice(1).map((point, index) => Math.hypot(point.x - points[index].x, point.y - points[index].y));
+  let remaining = lengths.reduce((sum, length) => sum + length, 0) / 2;
+
+  for (let index = 0; index < lengths.length; index++) {
+    if (remaining <= lengths[index] && lengths[index] > 0) {
+      const t = remaining / lengths[index];
+      return {
+        x: points[index].x + (points[index + 1].x - points[index].x) * t,
+        y: points[index].y + (points[index + 1].y - points[index].y) * t,
+      };
+    }
+    remaining -= lengths[index];
+  }
+  return points[0];
+};
+
+// Short name of an element for the prompt, using the #N numbering of ELEMENTS DETAILS
+export const describeEndpoint = (elements: CanvasElement[], id: unknown): string => {
+  const index = elements.findIndex(element => element.id === id);
+  if (index < 0) return 'an empty spot';
+
+  const element = elements[index];
+  const text = element.type === 'text'
+    ? element.data.text
+    : isStencil(element) && (stencilText(element, 'title') || stencilText(element, 'label'));
+  return `#${index + 1} ${element.type.toUpperCase()}${text ? ` "${text}"` : ''}`;
+};
+
+// Lists the connectors as flows between elements for the code generation prompt
+export const describeConnections = (elements: CanvasElement[]): string =>
+  elements
+    .filter(element => element.type === 'connector')
+    .map(connector => {
+      const label = typeof connector.data.label === 'string' && connector.data.label ? ` labeled "${connector.data.label}"` : '';
+      return `- ${describeEndpoint(elements, connector.data.sourceId)} → ${describeEndpoint(elements, connector.data.targetId)}${label}`;
+    })
+    .join('\n') || 'None';
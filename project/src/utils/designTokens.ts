@@ -0,0 +1,146 @@
+import { ComponentLibrary, DesignTheme } from '../types';
+import { OutputTargetConfig } from './outputTargets';
+
+export interface ComponentLibraryConfig {
+  label: string;
+  // Added to the prompt for targets that support component libraries
+  instruction: string;
+  // Import prefixes the generated code may use on top of the target's packages
+  packages: string[];
+  // Added to package.json of exported projects
+  dependencies: Record<string, string>;
+}
+
+const EMOTION_DEPENDENCIES = {
+  '@emotion/react': '^11.13.3',
+  '@emotion/styled': '^11.13.0',
+};
+
+export const COMPONENT_LIBRARIES: Record<ComponentLibrary, ComponentLibraryConfig> = {
+  none: {
+    label: 'None',
+    instruction: '',
+    packages: [],
+    dependencies: {},
+  },
+  shadcn: {
+    label: 'shadcn/ui',
+    instruction: 'Build with shadcn/ui components (Button, Card, Input, Select, Checkbox, Table, Dialog...) imported from "@/components/ui/<name>", styled with the tokens',
+    packages: ['@/components'],
+    dependencies: {},
+  },
+  mui: {
+    label: 'MUI',
+    instruction: 'Build with MUI components imported from "@mui/material" and icons from "@mui/icons-material", passing the tokens through createTheme and ThemeProvider',
+    packages: ['@mui/material', '@mui/icons-material', '@emotion/react', '@emotion/styled'],
+    dependencies: { '@mui/material': '^5.16.7', '@mui/icons-material': '^5.16.7', ...EMOTION_DEPENDENCIES },
+  },
+  chakra: {
+    label: 'Chakra UI',
+    instruction: 'Build with Chakra UI components imported from "@chakra-ui/react", passing the tokens through extendTheme and ChakraProvider',
+    packages: ['@chakra-ui/react', '@emotion/react', '@emotion/styled', 'framer-motion'],
+    dependencies: { '@chakra-ui/react': '^2.8.2', 'framer-motion': '^11.3.0', ...EMOTION_DEPENDENCIES },
+  },
+};
+
+// Tailwind's defaults, so a new theme starts from familiar names
+export const DEFAULT_THEME: DesignTheme = {
+  colors: {
+    primary: '#2563eb',
+    secondary: '#64748b',
+    accent: '#f59e0b',
+    background: '#ffffff',
+    surface: '#f3f4f6',
+    text: '#111827',
+    muted: '#6b7280',
+    border: '#e5e7eb',
+    danger: '#dc2626',
+    success: '#16a34a',
+  },
+  fontFamily: 'Inter, system-ui, sans-serif',
+  typography: { xs: 12, sm: 14, base: 16, lg: 18, xl: 20, '2xl': 24, '3xl': 30 },
+  radii: { none: 0, sm: 2, md: 6, lg: 8, xl: 12, full: 9999 },
+  spacing: { 1: 4, 2: 8, 3: 12, 4: 16, 6: 24, 8: 32 },
+  componentLibrary: 'none',
+};
+
+export const getComponentLibrary = (theme?: DesignTheme): ComponentLibraryConfig =>
+  COMPONENT_LIBRARIES[theme?.componentLibrary || 'none'] || COMPONENT_LIBRARIES.none;
+
+// Scales are edited as "sm: 14, base: 16"
+export const formatScale = (scale: Record<string, number>): string =>
+  Object.entries(scale).map(([name, value]) => `${name}: ${value}`).join(', ');
+
+export const parseScale = (text: string): Record<string, number> =>
+  Object.fromEntries(text.split(',')
+    .map(entry => entry.split(':').map(part => part.trim()))
+    .filter(([name, value]) => name && value !== undefined && value !== '' && Number.isFinite(Number(value)))
+    .map(([name, value]) => [name, Number(value)]));
+
+const parseHexColor = (color: string): [number, number, number] | null => {
+  const hex = color.trim().match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i)?.[1];
+  if (!hex) return null;
+  const full = hex.length === 3 ? hex.split('').map(digit => digit + digit).join('') : hex;
+  return [0, 2, 4].map(offset => parseInt(full.slice(offset, offset + 2), 16)) as [number, number, number];
+};
+
+// "Redmean" distance: cheap, and much closer to perceived difference than plain RGB distance
+const colorDistance = ([r1, g1, b1]: number[], [r2, g2, b2]: number[]) => {
+  const redMean = (r1 + r2) / 2;
+  return Math.sqrt(
+    (2 + redMean / 256) * (r1 - r2) ** 2 + 4 * (g1 - g2) ** 2 + (2 + (255 - redMean) / 256) * (b1 - b2) ** 2
+  );
+};
+
+// Name of the palette color closest to a drawn color; null for transparent or unparsable colors
+export const findNearestColorToken = (color: string | undefined, theme: DesignTheme): string | null => {
+  const rgb = color ? parseHexColor(color) : null;
+  if (!rgb) return null;
+
+  let nearest: { name: string; distance: number } | null = null;
+  Object.entries(theme.colors).forEach(([name, value]) => {
+    const candidate = parseHexColor(value);
+    if (!candidate) return;
+    const distance = colorDistance(rgb, candidate);
+    if (!nearest || distance < nearest.distance) nearest = { name, distance };
+  });
+  return (nearest as { name: string } | null)?.name ?? null;
+};
+
+const describeScale = (scale: Record<string, number>) =>
+  Object.entries(scale).map(([name, value]) => `${name} ${value}px`).join(', ') || 'none';
+
+export const describeTheme = (theme: DesignTheme, target: OutputTargetConfig): string => {
+  const library = getComponentLibrary(theme);
+  return `DESIGN SYSTEM (use these tokens instead of inventing colors, font sizes, radii or spacing):
+- Colors: ${Object.entries(theme.colors).map(([name, value]) => `${name} ${value}`).join(', ') || 'none'}
+- Font family: ${theme.fontFamily || 'inherit'}
+- Type scale: ${describeScale(theme.typography)}
+- Radii: ${describeScale(theme.radii)}
+- Spacing: ${describeScale(theme.spacing)}
+- Usage: ${target.themeUsage}${target.supportsComponentLibraries && library.instruction ? `
+- Components: ${library.instruction}` : ''}
+- Element colors in ELEMENTS DETAILS are already mapped to the nearest color token; use those tokens`;
+};
+
+const toPixels = (scale: Record<string, number>) =>
+  Object.fromEntries(Object.entries(scale).map(([name, value]) => [name, `${value}px`]));
+
+// The theme.extend section of a Tailwind config, so token names work as class names
+export const toTailwindTheme = (theme: DesignTheme) => ({
+  colors: theme.colors,
+  ...(theme.fontFamily ? { fontFamily: { sans: theme.fontFamily.split(',').map(font => font.trim()) } } : {}),
+  fontSize: toPixels(theme.typography),
+  borderRadius: toPixels(theme.radii),
+  spacing: toPixels(theme.spacing),
+});
+
+export const toCssVariables = (theme: DesignTheme): string => [
+  ':root {',
+  ...Object.entries(theme.colors).map(([name, value]) => `  --color-${name}: ${value};`),
+  ...(theme.fontFamily ? [`  --font-family: ${theme.fontFamily};`] : []),
+  ...Object.entries(theme.typography).map(([name, value]) => `  --font-size-${name}: ${value}px;`),
+  ...Object.entries(theme.radii).map(([name, value]) => `  --radius-${name}: ${value}px;`),
+  ...Object.entries(theme.spacing).map(([name, value]) => `  --space-${name}: ${value}px;`),
+  '}',
+].join('\n');
@@ -1,21 +1,56 @@
 import { CanvasElement } from '../types';
+import { NOTE_STYLE, getNoteLeaders, getNoteLines, getNoteText, isNote } from './annotations';
+import { BoardFile, BOARD_FILE_EXTENSION } from './boardFormat';
+import { getPolylineMidpoint } from './connectors';
+import { Bounds, getArrowHeadPoints } from './elementGeometry';
+import { FRAME_STYLE, framesFirst, getFrameName } from './frames';
+import { StencilPrimitive, getStencilPrimitives } from './stencils';
+import { ArchiveEntry, createZip } from './zipArchive';
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const TEXT_ANCHORS = { left: 'start', center: 'middle', right: 'end' } as const;
+
+const primitivesToSVG = (primitives: StencilPrimitive[], color: string, strokeWidth: number): string =>
+  primitives.map(primitive => {
+    switch (primitive.type) {
+      case 'rect': {
+        const stroke = primitive.stroke === false ? 'none' : color;
+        return `<rect x="${primitive.x}" y="${primitive.y}" width="${primitive.width}" height="${primitive.height}" rx="${primitive.radius || 0}" stroke="${stroke}" stroke-width="${strokeWidth}" fill="${primitive.fill || 'none'}"/>`;
+      }
+      case 'ellipse': {
+        const stroke = primitive.stroke === false ? 'none' : color;
+        return `<ellipse cx="${primitive.cx}" cy="${primitive.cy}" rx="${primitive.rx}" ry="${primitive.ry}" stroke="${stroke}" stroke-width="${strokeWidth}" fill="${primitive.fill || 'none'}"/>`;
+      }
+      case 'polyline': {
+        const points = primitive.points.map(point => `${point.x},${point.y}`).join(' ');
+        return `<polyline points="${points}" stroke="${primitive.color || color}" stroke-width="${strokeWidth}" fill="none" stroke-linecap="round" stroke-linejoin="round"/>`;
+      }
+      case 'text':
+        return `<text x="${primitive.x}" y="${primitive.y}" font-family="Inter, system-ui, sans-serif" font-size="${primitive.size}"${primitive.bold ? ' font-weight="600"' : ''} text-anchor="${TEXT_ANCHORS[primitive.align || 'left']}" dominant-baseline="middle" fill="${primitive.color || color}">${escapeXml(primitive.text)}</text>`;
+    }
+  }).join('');
+
+// `bounds` is the world area to export; elements keep their world coordinates
+export const downloadSVG = (elements: CanvasElement[], bounds: Bounds) => {
+  const { x, y, width, height } = bounds;
 
-export const downloadSVG = (elements: CanvasElement[], canvasWidth: number, canvasHeight: number) => {
   // Create SVG content
-  let svgContent = `<svg xmlns="http://www.w3.org/2000/svg" width="${canvasWidth}" height="${canvasHeight}" viewBox="0 0 ${canvasWidth} ${canvasHeight}">`;
+  let svgContent = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${x} ${y} ${width} ${height}">`;
   
   // Add grid background (optional)
   svgContent += '<defs><pattern id="grid" width="20" height="20" patternUnits="userSpaceOnUse">';
   svgContent += '<path d="M 20 0 L 0 0 0 20" fill="none" stroke="#f3f4f6" stroke-width="1"/>';
   svgContent += '</pattern></defs>';
-  svgContent += `<rect width="100%" height="100%" fill="white"/>`;
-  svgContent += `<rect width="100%" height="100%" fill="url(#grid)"/>`;
+  svgContent += `<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="white"/>`;
+  svgContent += `<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="url(#grid)"/>`;
   
   // Convert each element to SVG
-  elements.forEach(element => {
-    const strokeColor = element.color || '#374151';
+  framesFirst(elements).forEach(element => {
+    const strokeColor = escapeXml(element.color || '#374151');
     const strokeWidth = element.strokeWidth || 2;
-    const fillColor = element.fillColor || 'transparent';
+    const fillColor = escapeXml(element.fillColor || 'transparent');
     
     switch (element.type) {
       case 'path':
@@ -31,14 +66,71 @@ export const downloadSVG = (elements: CanvasElement[], canvasWidth: number, canv
       case 'rectangle':
         svgContent += `<rect x="${element.position.x}" y="${element.position.y}" width="${element.dimensions?.width || 100}" height="${element.dimensions?.height || 100}" stroke="${strokeColor}" stroke-width="${strokeWidth}" fill="${fillColor}"/>`;
         break;
+      case 'frame': {
+        const { position } = element;
+        svgContent += `<rect x="${position.x}" y="${position.y}" width="${element.dimensions?.width || 100}" height="${element.dimensions?.height || 100}" stroke="${FRAME_STYLE.border}" stroke-width="1" fill="${FRAME_STYLE.fill}"/>`;
+        svgContent += `<text x="${position.x}" y="${position.y - 6}" font-family="Inter, system-ui, sans-serif" font-size="${FRAME_STYLE.titleSize}" fill="${FRAME_STYLE.title}">${escapeXml(getFrameName(element))}</text>`;
+        break;
+      }
+      case 'note': {
+        const { x, y } = element.position;
+        const width = element.dimensions?.width || 100;
+        const height = element.dimensions?.height || 100;
+        svgContent += `<rect x="${x}" y="${y}" width="${width}" height="${height}" stroke="${NOTE_STYLE.border}" stroke-width="1" fill="${NOTE_STYLE.fill}"/>`;
+        getNoteLines(getNoteText(element), width).forEach((line, index) => {
+          svgContent += `<text x="${x + NOTE_STYLE.padding}" y="${y + NOTE_STYLE.padding + index * NOTE_STYLE.lineHeight}" font-family="Inter, system-ui, sans-serif" font-size="${NOTE_STYLE.fontSize}" dominant-baseline="hanging" fill="${NOTE_STYLE.text}">${escapeXml(line)}</text>`;
+        });
+        break;
+      }
       case 'circle':
         svgContent += `<circle cx="${element.position.x}" cy="${element.position.y}" r="${element.dimensions?.width || 50}" stroke="${strokeColor}" stroke-width="${strokeWidth}" fill="${fillColor}"/>`;
         break;
+      case 'ellipse': {
+        const width = element.dimensions?.width || 100;
+        const height = element.dimensions?.height || 100;
+        svgContent += `<ellipse cx="${element.position.x + width / 2}" cy="${element.position.y + height / 2}" rx="${width / 2}" ry="${height / 2}" stroke="${strokeColor}" stroke-width="${strokeWidth}" fill="${fillColor}"/>`;
+        break;
+      }
+      case 'line':
+      case 'arrow':
+      case 'triangle':
+      case 'connector': {
+        const points = element.data.points || [];
+        if (points.length < 2) break;
+        const pointList = points.map(point => `${point.x},${point.y}`).join(' ');
+        if (element.type === 'triangle') {
+          svgContent += `<polygon points="${pointList}" stroke="${strokeColor}" stroke-width="${strokeWidth}" fill="${fillColor}" stroke-linejoin="round"/>`;
+          break;
+        }
+        svgContent += `<polyline points="${pointList}" stroke="${strokeColor}" stroke-width="${strokeWidth}" fill="none" stroke-linecap="round"/>`;
+        if (element.type === 'arrow' || element.type === 'connector') {
+          const tip = points[points.length - 1];
+          const [left, right] = getArrowHeadPoints(points[points.length - 2], tip, Math.max(10, strokeWidth * 4));
+          svgContent += `<polyline points="${left.x},${left.y} ${tip.x},${tip.y} ${right.x},${right.y}" stroke="${strokeColor}" stroke-width="${strokeWidth}" fill="none" stroke-linecap="round" stroke-linejoin="round"/>`;
+        }
+        if (element.type === 'connector' && typeof element.data.label === 'string' && element.data.label) {
+          const middle = getPolylineMidpoint(points);
+          const width = element.data.label.length * 7 + 12;
+          svgContent += `<rect x="${middle.x - width / 2}" y="${middle.y - 10}" width="${width}" height="20" fill="white"/>`;
+          svgContent += `<text x="${middle.x}" y="${middle.y}" font-family="Inter, system-ui, sans-serif" font-size="13" text-anchor="middle" dominant-baseline="middle" fill="${strokeColor}">${escapeXml(element.data.label)}</text>`;
+        }
+        break;
+      }
       case 'text':
-        svgContent += `<text x="${element.position.x}" y="${element.position.y}" font-family="Inter, system-ui, sans-serif" font-size="16" fill="${strokeColor}">${element.data.text || 'Text'}</text>`;
+        svgContent += `<text x="${element.position.x}" y="${element.position.y}" font-family="Inter, system-ui, sans-serif" font-size="16" fill="${strokeColor}">${escapeXml(element.data.text || 'Text')}</text>`;
         break;
+      default:
+        // Stencils and form control glyphs
+        svgContent += primitivesToSVG(getStencilPrimitives(element), strokeColor, strokeWidth);
     }
   });
+
+  elements.filter(isNote).forEach(note => {
+    getNoteLeaders(note, elements).forEach(([from, to]) => {
+      svgContent += `<line x1="${from.x}" y1="${from.y}" x2="${to.x}" y2="${to.y}" stroke="${NOTE_STYLE.leader}" stroke-width="1.5" stroke-dasharray="6 4"/>`;
+      svgContent += `<circle cx="${to.x}" cy="${to.y}" r="3" fill="${NOTE_STYLE.leader}"/>`;
+    });
+  });
   
   svgContent += '</svg>';
   
@@ -54,22 +146,29 @@ export const downloadSVG = (elements: CanvasElement[], canvasWidth: number, canv
   URL.revokeObjectURL(url);
 };
 
-export const downloadImage = (canvas: HTMLCanvasElement, format: 'png' | 'jpg' = 'png') => {
-  // Create a temporary canvas with white background
+// Copies a canvas onto a white background, scaled down so neither side exceeds maxSize
+export const drawOnWhite = (canvas: HTMLCanvasElement, maxSize = Infinity): HTMLCanvasElement | null => {
   const tempCanvas = document.createElement('canvas');
   const tempCtx = tempCanvas.getContext('2d');
   
-  if (!tempCtx) return;
+  if (!tempCtx) return null;
   
-  tempCanvas.width = canvas.width;
-  tempCanvas.height = canvas.height;
+  const scale = Math.min(1, maxSize / Math.max(canvas.width, canvas.height));
+  tempCanvas.width = Math.round(canvas.width * scale);
+  tempCanvas.height = Math.round(canvas.height * scale);
   
   // Fill with white background
   tempCtx.fillStyle = 'white';
   tempCtx.fillRect(0, 0, tempCanvas.width, tempCanvas.height);
   
   // Draw the original canvas content
-  tempCtx.drawImage(canvas, 0, 0);
+  tempCtx.drawImage(canvas, 0, 0, tempCanvas.width, tempCanvas.height);
+  return tempCanvas;
+};
+
+export const downloadImage = (canvas: HTMLCanvasElement, format: 'png' | 'jpg' = 'png') => {
+  const tempCanvas = drawOnWhite(canvas);
+  if (!tempCanvas) return;
   
   // Convert to blob and download
   tempCanvas.toBlob((blob) => {
@@ -119,3 +218,27 @@ export const downloadNotes = (notes: string, filename?: string) => {
   document.body.removeChild(link);
   URL.revokeObjectURL(url);
 };
+
+export const downloadBoardFile = (board: BoardFile) => {
+  const blob = new Blob([JSON.stringify(board, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  const slug = board.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'whiteboard';
+  link.href = url;
+  link.download = `${slug}${BOARD_FILE_EXTENSION}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export const downloadArchive = (entries: ArchiveEntry[], filename: string) => {
+  const url = URL.createObjectURL(createZip(entries));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
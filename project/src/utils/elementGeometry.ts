@@ -0,0 +1,184 @@
+import { CanvasElement } from '../types';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type ResizeHandle = 'nw' | 'ne' | 'sw' | 'se';
+
+// Shapes, frames, notes and stencils positioned by their top-left corner and sized by their dimensions
+const BOX_TYPES: CanvasElement['type'][] = [
+  'rectangle', 'frame', 'note', 'ellipse', 'radio', 'button', 'input', 'checkbox', 'dropdown', 'navbar', 'card', 'image', 'table', 'modal',
+];
+
+export const isBoxElement = (element: CanvasElement): boolean => BOX_TYPES.includes(element.type);
+
+// Axis-aligned bounding box of an element in canvas coordinates
+export const getElementBounds = (element: CanvasElement): Bounds => {
+  switch (element.type) {
+    case 'circle': {
+      const radius = element.dimensions?.width || 50;
+      return {
+        x: element.position.x - radius,
+        y: element.position.y - radius,
+        width: radius * 2,
+        height: radius * 2,
+      };
+    }
+    case 'path':
+    case 'line':
+    case 'arrow':
+    case 'triangle':
+    case 'connector': {
+      const points = element.data.points || [element.position];
+      const xs = points.map(point => point.x);
+      const ys = points.map(point => point.y);
+      const minX = Math.min(...xs);
+      const minY = Math.min(...ys);
+      return {
+        x: minX,
+        y: minY,
+        width: Math.max(...xs) - minX,
+        height: Math.max(...ys) - minY,
+      };
+    }
+    case 'text': {
+      // Same rough estimate used for hit-testing text
+      const textWidth = (element.data.text?.length || 0) * 10;
+      const textHeight = 20;
+      return {
+        x: element.position.x,
+        y: element.position.y - textHeight,
+        width: textWidth,
+        height: textHeight,
+      };
+    }
+    default:
+      if (isBoxElement(element)) {
+        return {
+          x: element.position.x,
+          y: element.position.y,
+          width: element.dimensions?.width || 100,
+          height: element.dimensions?.height || 100,
+        };
+      }
+      return { x: element.position.x, y: element.position.y, width: 0, height: 0 };
+  }
+};
+
+export const normalizeRect = (start: Point, end: Point): Bounds => ({
+  x: Math.min(start.x, end.x),
+  y: Math.min(start.y, end.y),
+  width: Math.abs(end.x - start.x),
+  height: Math.abs(end.y - start.y),
+});
+
+// Smallest box containing every element, or null for an empty board
+export const getElementsBounds = (elements: CanvasElement[]): Bounds | null => {
+  if (elements.length === 0) return null;
+
+  const boxes = elements.map(getElementBounds);
+  const minX = Math.min(...boxes.map(box => box.x));
+  const minY = Math.min(...boxes.map(box => box.y));
+  return {
+    x: minX,
+    y: minY,
+    width: Math.max(...boxes.map(box => box.x + box.width)) - minX,
+    height: Math.max(...boxes.map(box => box.y + box.height)) - minY,
+  };
+};
+
+export const expandBounds = (bounds: Bounds, padding: number): Bounds => ({
+  x: bounds.x - padding,
+  y: bounds.y - padding,
+  width: bounds.width + padding * 2,
+  height: bounds.height + padding * 2,
+});
+
+export const distanceToSegment = (point: Point, a: Point, b: Point): number => {
+  const lengthSquared = (b.x - a.x) ** 2 + (b.y - a.y) ** 2;
+  if (lengthSquared === 0) return Math.hypot(point.x - a.x, point.y - a.y);
+  const t = Math.max(0, Math.min(1, ((point.x - a.x) * (b.x - a.x) + (point.y - a.y) * (b.y - a.y)) / lengthSquared));
+  return Math.hypot(point.x - (a.x + t * (b.x - a.x)), point.y - (a.y + t * (b.y - a.y)));
+};
+
+// The two barb ends of an arrowhead pointing from `from` to `to`
+export const getArrowHeadPoints = (from: Point, to: Point, size: number): [Point, Point] => {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  const spread = Math.PI / 7;
+  return [
+    { x: to.x - size * Math.cos(angle - spread), y: to.y - size * Math.sin(angle - spread) },
+    { x: to.x - size * Math.cos(angle + spread), y: to.y - size * Math.sin(angle + spread) },
+  ];
+};
+
+export const boundsIntersect = (a: Bounds, b: Bounds): boolean =>
+  a.x <= b.x + b.width &&
+  a.x + a.width >= b.x &&
+  a.y <= b.y + b.height &&
+  a.y + a.height >= b.y;
+
+export const getHandlePositions = (bounds: Bounds): Record<ResizeHandle, Point> => ({
+  nw: { x: bounds.x, y: bounds.y },
+  ne: { x: bounds.x + bounds.width, y: bounds.y },
+  sw: { x: bounds.x, y: bounds.y + bounds.height },
+  se: { x: bounds.x + bounds.width, y: bounds.y + bounds.height },
+});
+
+export const isResizable = (element: CanvasElement): boolean =>
+  isBoxElement(element) || element.type === 'circle';
+
+// Returns a copy of the element moved by (dx, dy)
+export const translateElement = (element: CanvasElement, dx: number, dy: number): CanvasElement => {
+  const moved: CanvasElement = {
+    ...element,
+    position: { x: element.position.x + dx, y: element.position.y + dy },
+  };
+
+  if (element.data.points) {
+    moved.data = {
+      ...element.data,
+      points: element.data.points.map(point => ({ x: point.x + dx, y: point.y + dy })),
+    };
+  }
+
+  return moved;
+};
+
+// Returns a copy of the element resized by dragging the given corner handle to `pointer`
+export const resizeElement = (element: CanvasElement, handle: ResizeHandle, pointer: Point): CanvasElement => {
+  if (element.type === 'circle') {
+    // Circles keep their center and grow uniformly
+    const radius = Math.max(
+      Math.abs(pointer.x - element.position.x),
+      Math.abs(pointer.y - element.position.y),
+      1
+    );
+    return { ...element, dimensions: { width: radius, height: radius } };
+  }
+
+  if (isBoxElement(element)) {
+    const bounds = getElementBounds(element);
+    // The corner opposite the dragged handle stays fixed
+    const anchor = {
+      x: handle.includes('w') ? bounds.x + bounds.width : bounds.x,
+      y: handle.includes('n') ? bounds.y + bounds.height : bounds.y,
+    };
+    const rect = normalizeRect(anchor, pointer);
+    return {
+      ...element,
+      position: { x: rect.x, y: rect.y },
+      dimensions: { width: Math.max(rect.width, 1), height: Math.max(rect.height, 1) },
+    };
+  }
+
+  return element;
+};
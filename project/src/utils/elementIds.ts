@@ -0,0 +1,6 @@
+// Ids must stay unique across collaborators, who can create elements in the same millisecond.
+// randomUUID is missing outside secure contexts, e.g. when the app is opened over plain http on a LAN.
+export const createElementId = (): string =>
+  typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}${Math.random().toString(36).slice(2, 10)}`;
@@ -0,0 +1,181 @@
+import { CanvasElement } from '../types';
+import { getNoteTargets, isNote } from './annotations';
+import { Bounds, Point, getElementBounds, translateElement } from './elementGeometry';
+import { createElementId } from './elementIds';
+
+export const DEFAULT_FRAME_SIZE = { width: 375, height: 667 };
+
+// Frames render as white artboards with their name above the top-left corner
+export const FRAME_STYLE = {
+  fill: '#ffffff',
+  border: '#d1d5db',
+  title: '#6b7280',
+  titleSize: 13,
+  // Height of the strip above the frame that holds the name and can be grabbed to select it
+  titleHeight: 20,
+};
+
+export interface FrameLink {
+  // Element that triggers the navigation; absent when the connector starts on the frame itself
+  elementId?: string;
+  label?: string;
+  pageId: string;
+}
+
+export interface FramePage {
+  frame: CanvasElement;
+  // Route id derived from the frame name, e.g. "login"
+  id: string;
+  name: string;
+  componentName: string;
+  // Elements inside the frame, moved so the frame's top-left corner is the origin
+  elements: CanvasElement[];
+  size: { width: number; height: number };
+  links: FrameLink[];
+}
+
+export const isFrame = (element: CanvasElement): boolean => element.type === 'frame';
+
+export const getFrameName = (frame: CanvasElement): string =>
+  typeof frame.data.name === 'string' && frame.data.name.trim() ? frame.data.name.trim() : 'Untitled';
+
+export const createFrame = (position: Point, name: string, style: Pick<CanvasElement, 'color' | 'strokeWidth'>): CanvasElement => ({
+  id: createElementId(),
+  type: 'frame',
+  data: { name },
+  position,
+  dimensions: { ...DEFAULT_FRAME_SIZE },
+  timestamp: Date.now(),
+  ...style,
+});
+
+// Frames are drawn underneath everything else, in their own order
+export const framesFirst = (elements: CanvasElement[]): CanvasElement[] =>
+  elements.some(isFrame) ? [...elements.filter(isFrame), ...elements.filter(element => !isFrame(element))] : elements;
+
+const area = (element: CanvasElement) => {
+  const bounds = getElementBounds(element);
+  return bounds.width * bounds.height;
+};
+
+const containsPoint = (bounds: Bounds, point: Point) =>
+  point.x >= bounds.x && point.x <= bounds.x + bounds.width && point.y >= bounds.y && point.y <= bounds.y + bounds.height;
+
+// Frame an element belongs to: the smallest frame around the center of the element
+const findFrame = (element: CanvasElement, frames: CanvasElement[]): CanvasElement | undefined => {
+  const bounds = getElementBounds(element);
+  const center = { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+  return frames
+    .filter(frame => frame.id !== element.id && containsPoint(getElementBounds(frame), center))
+    .sort((a, b) => area(a) - area(b))[0];
+};
+
+// Frame that owns a connector end, which may be an element inside a frame or the frame itself
+const findEndpointFrame = (elements: CanvasElement[], frames: CanvasElement[], id: unknown): CanvasElement | undefined => {
+  const element = elements.find(candidate => candidate.id === id);
+  if (!element) return undefined;
+  return isFrame(element) ? element : findFrame(element, frames);
+};
+
+/**
+ * Maps every element to the id of the frame it belongs to. Connectors belong to a frame
+ * only when both of their ends are inside it; connectors between frames are navigation.
+ * Notes belong to the frame of their first target.
+ */
+export const getFrameMembership = (elements: CanvasElement[]): Map<string, string> => {
+  const frames = elements.filter(isFrame);
+  const membership = new Map<string, string>();
+  if (frames.length === 0) return membership;
+
+  elements.forEach(element => {
+    if (isFrame(element)) return;
+    let frame: CanvasElement | undefined;
+    if (element.type === 'connector') {
+      const source = findEndpointFrame(elements, frames, element.data.sourceId);
+      const target = findEndpointFrame(elements, frames, element.data.targetId);
+      frame = source && source === target ? source : undefined;
+    } else if (isNote(element)) {
+      // A note goes with the page of what it describes, even when it is placed outside the frame
+      const targets = getNoteTargets(element, elements);
+      frame = targets.length > 0 ? findEndpointFrame(elements, frames, targets[0].id) : findFrame(element, frames);
+    } else {
+      frame = findFrame(element, frames);
+    }
+    if (frame) membership.set(element.id, frame.id);
+  });
+  return membership;
+};
+
+// Adds the contents of any selected frame, so moving a frame carries what is drawn inside it
+export const withFrameContents = (ids: string[], elements: CanvasElement[]): string[] => {
+  if (!elements.some(element => isFrame(element) && ids.includes(element.id))) return ids;
+  const membership = getFrameMembership(elements);
+  const contents = elements
+    .filter(element => {
+      const frameId = membership.get(element.id);
+      return frameId !== undefined && ids.includes(frameId);
+    })
+    .map(element => element.id);
+  return [...new Set([...ids, ...contents])];
+};
+
+const toRouteId = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'page';
+
+const toComponentName = (name: string) => {
+  const words = name.replace(/[^a-zA-Z0-9]+/g, ' ').trim().split(' ').filter(Boolean);
+  const base = words.map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('') || 'Untitled';
+  const named = /^[0-9]/.test(base) ? `Page${base}` : base;
+  return named.endsWith('Page') ? named : `${named}Page`;
+};
+
+// Appends a counter to names that are already taken
+const makeUnique = (name: string, taken: Set<string>, separator: string) => {
+  let unique = name;
+  for (let counter = 2; taken.has(unique); counter++) {
+    unique = `${name}${separator}${counter}`;
+  }
+  taken.add(unique);
+  return unique;
+};
+
+/**
+ * Splits a board into one page per frame, in the order the frames were drawn, so the first
+ * frame is the start page. Connectors from one frame to another become the page's links.
+ */
+export const getFramePages = (elements: CanvasElement[]): FramePage[] => {
+  const frames = elements.filter(isFrame);
+  const membership = getFrameMembership(elements);
+  const routeIds = new Set<string>();
+  const componentNames = new Set<string>();
+  const pages = frames.map(frame => {
+    const name = getFrameName(frame);
+    const bounds = getElementBounds(frame);
+    return {
+      frame,
+      id: makeUnique(toRouteId(name), routeIds, '-'),
+      name,
+      componentName: makeUnique(toComponentName(name), componentNames, ''),
+      elements: elements
+        .filter(element => membership.get(element.id) === frame.id)
+        .map(element => translateElement(element, -bounds.x, -bounds.y)),
+      size: { width: bounds.width, height: bounds.height },
+      links: [] as FrameLink[],
+    };
+  });
+
+  elements.filter(element => element.type === 'connector').forEach(connector => {
+    const source = findEndpointFrame(elements, frames, connector.data.sourceId);
+    const target = findEndpointFrame(elements, frames, connector.data.targetId);
+    const from = pages.find(page => page.frame === source);
+    const to = pages.find(page => page.frame === target);
+    if (!from || !to || from === to) return;
+
+    from.links.push({
+      elementId: connector.data.sourceId === from.frame.id ? undefined : connector.data.sourceId as string,
+      label: typeof connector.data.label === 'string' && connector.data.label ? connector.data.label : undefined,
+      pageId: to.id,
+    });
+  });
+
+  return pages;
+};
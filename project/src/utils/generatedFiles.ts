@@ -0,0 +1,31 @@
+export interface GeneratedFile {
+  path: string;
+  code: string;
+}
+
+// Multi-file output is kept as one string so history, autosave and board files store it like any other code
+const FILE_MARKER = '// File: ';
+
+export const bundleFiles = (files: GeneratedFile[]): string =>
+  files.map(file => `${FILE_MARKER}${file.path}\n${file.code.trimEnd()}\n`).join('\n');
+
+/**
+ * Splits code produced by bundleFiles back into its files. Returns an empty list for
+ * single-file code, including code that merely starts with a file comment of its own.
+ */
+export const splitFiles = (code: string): GeneratedFile[] => {
+  if (!code.startsWith(FILE_MARKER)) return [];
+
+  const files = code
+    .split(new RegExp(`^${FILE_MARKER}`, 'm'))
+    .slice(1)
+    .map(chunk => {
+      const newline = chunk.indexOf('\n');
+      return newline < 0
+        ? { path: chunk.trim(), code: '' }
+        : { path: chunk.slice(0, newline).trim(), code: `${chunk.slice(newline + 1).trimEnd()}\n` };
+    });
+  return files.length > 1 ? files : [];
+};
+
+export const getFileName = (path: string): string => path.slice(path.lastIndexOf('/') + 1);
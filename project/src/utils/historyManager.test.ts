@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { CanvasElement } from '../types';
+import HistoryManager from './historyManager';
+
+const box = (id: string, x = 0): CanvasElement => ({ id, type: 'rectangle', data: {}, position: { x, y: 0 } });
+
+describe('HistoryManager', () => {
+  it('undoes and redoes local edits', () => {
+    const history = new HistoryManager();
+    history.addState([box('a')]);
+    history.addState([box('a', 50)]);
+
+    expect(history.undo()).toEqual([box('a')]);
+    expect(history.undo()).toEqual([]);
+    expect(history.canUndo()).toBe(false);
+    expect(history.redo()).toEqual([box('a')]);
+    expect(history.redo()).toEqual([box('a', 50)]);
+    expect(history.canRedo()).toBe(false);
+  });
+
+  it('leaves edits synced from collaborators in place when undoing', () => {
+    const history = new HistoryManager();
+    history.addState([box('a')]);
+    history.syncState([box('a'), box('remote')]);
+
+    expect(history.undo()).toEqual([box('remote')]);
+    expect(history.canUndo()).toBe(false);
+  });
+
+  it('skips undoing an element that a collaborator changed since', () => {
+    const history = new HistoryManager();
+    history.addState([box('a')]);
+    history.addState([box('a', 50)]);
+    history.syncState([box('a', 80)]);
+
+    expect(history.undo()).toEqual([box('a', 80)]);
+  });
+
+  it('drops the redo branch after a new edit and caps its size', () => {
+    const history = new HistoryManager(2);
+    history.addState([box('a')]);
+    history.addState([box('a', 1)]);
+    history.undo();
+    history.addState([box('a', 2)]);
+
+    expect(history.canRedo()).toBe(false);
+    expect(history.getHistorySize()).toBe(2);
+
+    history.addState([box('a', 3)]);
+    expect(history.getHistorySize()).toBe(2);
+  });
+});
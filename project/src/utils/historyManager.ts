@@ -1,27 +1,37 @@
-import { CanvasElement, HistoryState } from '../types';
+import { CanvasElement, ElementChange, HistoryState } from '../types';
 
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value)); // Deep clone
+
+const sameElement = (a: CanvasElement | null | undefined, b: CanvasElement | null | undefined) =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Undo history of the local user's own edits. Each entry stores the elements
+ * it changed rather than a whole snapshot, so undoing one of our edits leaves
+ * changes made by collaborators in between untouched.
+ */
 class HistoryManager {
   private history: HistoryState[] = [];
   private currentIndex: number = -1;
   private maxHistorySize: number = 50;
+  // Last known board contents, local and remote edits included
+  private current: CanvasElement[] = [];
 
   constructor(maxSize = 50) {
     this.maxHistorySize = maxSize;
   }
 
+  // Records a local edit as the difference from the last known contents
   addState(elements: CanvasElement[]): void {
+    const changes = this.diff(this.current, elements);
+    this.current = clone(elements);
+    if (changes.length === 0) return;
+
     // Remove any history after current index (when we add after undo)
     this.history = this.history.slice(0, this.currentIndex + 1);
-    
-    // Add new state
-    const newState: HistoryState = {
-      elements: JSON.parse(JSON.stringify(elements)), // Deep clone
-      timestamp: Date.now()
-    };
-    
-    this.history.push(newState);
+    this.history.push({ changes, timestamp: Date.now() });
     this.currentIndex++;
-    
+
     // Limit history size
     if (this.history.length > this.maxHistorySize) {
       this.history.shift();
@@ -29,45 +39,88 @@ class HistoryManager {
     }
   }
 
+  // Takes in edits made by someone else without making them undoable
+  syncState(elements: CanvasElement[]): void {
+    this.current = clone(elements);
+  }
+
   undo(): CanvasElement[] | null {
-    if (this.currentIndex > 0) {
-      this.currentIndex--;
-      return [...this.history[this.currentIndex].elements];
-    }
-    return null;
+    if (!this.canUndo()) return null;
+
+    const { changes } = this.history[this.currentIndex];
+    this.currentIndex--;
+    return this.apply(changes.map(change => ({ id: change.id, before: change.after, after: change.before })));
   }
 
   redo(): CanvasElement[] | null {
-    if (this.currentIndex < this.history.length - 1) {
-      this.currentIndex++;
-      return [...this.history[this.currentIndex].elements];
-    }
-    return null;
+    if (!this.canRedo()) return null;
+
+    this.currentIndex++;
+    return this.apply(this.history[this.currentIndex].changes);
   }
 
   canUndo(): boolean {
-    return this.currentIndex > 0;
+    return this.currentIndex >= 0;
   }
 
   canRedo(): boolean {
     return this.currentIndex < this.history.length - 1;
   }
 
-  clear(): void {
+  // Drops the history and starts over from the given contents
+  clear(elements: CanvasElement[] = []): void {
     this.history = [];
     this.currentIndex = -1;
+    this.current = clone(elements);
   }
 
-  getCurrentState(): CanvasElement[] | null {
-    if (this.currentIndex >= 0 && this.currentIndex < this.history.length) {
-      return [...this.history[this.currentIndex].elements];
-    }
-    return null;
+  getCurrentState(): CanvasElement[] {
+    return [...this.current];
   }
 
   getHistorySize(): number {
     return this.history.length;
   }
+
+  private diff(previous: CanvasElement[], next: CanvasElement[]): ElementChange[] {
+    const before = new Map(previous.map(element => [element.id, element]));
+    const after = new Map(next.map(element => [element.id, element]));
+    const changes: ElementChange[] = [];
+
+    after.forEach((element, id) => {
+      if (!sameElement(before.get(id), element)) {
+        changes.push({ id, before: clone(before.get(id) ?? null), after: clone(element) });
+      }
+    });
+    before.forEach((element, id) => {
+      if (!after.has(id)) {
+        changes.push({ id, before: clone(element), after: null });
+      }
+    });
+
+    return changes;
+  }
+
+  // Moves each element from `before` to `after`, skipping elements someone else has changed since
+  private apply(changes: ElementChange[]): CanvasElement[] {
+    let elements = [...this.current];
+
+    changes.forEach(({ id, before, after }) => {
+      const index = elements.findIndex(element => element.id === id);
+      if (!sameElement(index >= 0 ? elements[index] : null, before)) return;
+
+      if (!after) {
+        elements = elements.filter(element => element.id !== id);
+      } else if (index >= 0) {
+        elements[index] = clone(after);
+      } else {
+        elements.push(clone(after));
+      }
+    });
+
+    this.current = elements;
+    return [...elements];
+  }
 }
 
 export default HistoryManager;
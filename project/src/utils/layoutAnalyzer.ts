@@ -0,0 +1,407 @@
+import { CanvasElement } from '../types';
+import { isNote } from './annotations';
+import { Bounds, getElementBounds } from './elementGeometry';
+import { describeStencil, isStencil, stencilText } from './stencils';
+
+export type ElementRole =
+  | 'container' | 'button' | 'input' | 'checkbox' | 'radio' | 'box' | 'avatar' | 'label' | 'text' | 'divider' | 'sketch'
+  | 'dropdown' | 'navbar' | 'card' | 'image' | 'table' | 'modal' | 'connector';
+export type LayoutDirection = 'row' | 'column' | 'grid' | 'single' | 'none';
+export type AlignmentAxis = 'left' | 'center-x' | 'right' | 'top' | 'center-y' | 'bottom';
+
+export interface ChildLayout {
+  direction: LayoutDirection;
+  // Visible children grouped into rows, top to bottom then left to right
+  rows: SceneNode[][];
+  columns: number;
+  // Average spacing between neighbouring children in px
+  gap: number;
+  alignment: 'start' | 'center' | 'end' | 'mixed';
+}
+
+export interface SceneNode {
+  element: CanvasElement;
+  // 1-based position in the original element list, matching the prompt's element numbering
+  index: number;
+  bounds: Bounds;
+  role: ElementRole;
+  // Text of the label drawn inside a button or input, or next to a checkbox
+  label?: string;
+  children: SceneNode[];
+  layout: ChildLayout;
+}
+
+export interface AlignmentGroup {
+  axis: AlignmentAxis;
+  value: number;
+  nodes: SceneNode[];
+}
+
+export interface SceneGraph {
+  roots: SceneNode[];
+  layout: ChildLayout;
+  alignmentGroups: AlignmentGroup[];
+}
+
+const BUTTON_MAX_HEIGHT = 60;
+const BUTTON_MAX_WIDTH = 240;
+// Grid columns whose left edges are this close are considered aligned
+const COLUMN_TOLERANCE = 32;
+// Edges this close count as aligned when grouping
+const ALIGN_TOLERANCE = 6;
+
+const area = (bounds: Bounds) => bounds.width * bounds.height;
+
+const contains = (outer: Bounds, inner: Bounds) =>
+  inner.x >= outer.x &&
+  inner.y >= outer.y &&
+  inner.x + inner.width <= outer.x + outer.width &&
+  inner.y + inner.height <= outer.y + outer.height;
+
+const average = (values: number[]) =>
+  values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : 0;
+
+// Element types that can hold other elements
+const CONTAINER_TYPES: CanvasElement['type'][] = ['rectangle', 'card', 'modal', 'frame'];
+
+const EMPTY_LAYOUT: ChildLayout = { direction: 'none', rows: [], columns: 0, gap: 0, alignment: 'start' };
+
+// Nests every element inside the smallest rectangle, card, modal or frame that fully contains it.
+// Notes are instructions about other elements rather than part of the layout, so they are left out
+const buildTree = (elements: CanvasElement[]): SceneNode[] => {
+  const nodes: SceneNode[] = elements.map((element, index) => ({
+    element,
+    index: index + 1,
+    bounds: getElementBounds(element),
+    role: 'text' as ElementRole,
+    children: [],
+    layout: EMPTY_LAYOUT,
+  })).filter(node => !isNote(node.element));
+  const roots: SceneNode[] = [];
+
+  nodes.forEach(node => {
+    const parent = nodes
+      .filter(candidate =>
+        candidate !== node &&
+        CONTAINER_TYPES.includes(candidate.element.type) &&
+        area(candidate.bounds) > area(node.bounds) &&
+        contains(candidate.bounds, node.bounds)
+      )
+      .sort((a, b) => area(a.bounds) - area(b.bounds))[0];
+
+    if (parent) {
+      parent.children.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  return roots;
+};
+
+const assignRole = (node: SceneNode): void => {
+  const { element, bounds, children } = node;
+  node.children.forEach(assignRole);
+
+  switch (element.type) {
+    case 'circle':
+      node.role = 'avatar';
+      return;
+    case 'ellipse':
+      // Only a roughly round ellipse reads as an avatar
+      node.role = bounds.width < bounds.height * 1.25 && bounds.height < bounds.width * 1.25 ? 'avatar' : 'box';
+      return;
+    case 'checkbox':
+    case 'radio':
+      node.role = element.type;
+      node.label = stencilText(element, 'label') || undefined;
+      return;
+    case 'button':
+      // Stencils state what they are, so their role is not guessed from their shape
+      node.role = 'button';
+      node.label = stencilText(element, 'label');
+      return;
+    case 'input':
+      node.role = 'input';
+      node.label = stencilText(element, 'placeholder');
+      return;
+    case 'dropdown':
+    case 'navbar':
+    case 'card':
+    case 'image':
+    case 'table':
+    case 'modal':
+      node.role = element.type;
+      return;
+    case 'arrow':
+    case 'triangle':
+      node.role = 'sketch';
+      return;
+    case 'connector':
+      // Described separately as connections between elements
+      node.role = 'connector';
+      return;
+    case 'path':
+    case 'line':
+      node.role = bounds.width > 40 && bounds.height < bounds.width * 0.15 ? 'divider' : 'sketch';
+      return;
+    case 'text':
+      node.role = 'text';
+      return;
+    case 'frame':
+      // Boards with frames are generated page by page, so a frame only shows up here as a plain container
+      node.role = 'container';
+      return;
+    case 'rectangle': {
+      const onlyLabel = children.length === 1 && children[0].element.type === 'text';
+      if (bounds.height <= BUTTON_MAX_HEIGHT && (children.length === 0 || onlyLabel)) {
+        // A short box that is empty or only holds a label reads as a button, or an input when wide
+        node.role = bounds.width > BUTTON_MAX_WIDTH ? 'input' : 'button';
+        node.label = onlyLabel ? children[0].element.data.text || '' : undefined;
+      } else {
+        node.role = children.length > 0 ? 'container' : 'box';
+      }
+      return;
+    }
+    default:
+      node.role = 'box';
+  }
+};
+
+// Groups nodes into rows of vertically overlapping elements
+const groupIntoRows = (nodes: SceneNode[]): SceneNode[][] => {
+  const rows: { top: number; bottom: number; nodes: SceneNode[] }[] = [];
+
+  [...nodes]
+    .sort((a, b) => a.bounds.y - b.bounds.y)
+    .forEach(node => {
+      const centerY = node.bounds.y + node.bounds.height / 2;
+      const row = rows.find(candidate => centerY >= candidate.top && centerY <= candidate.bottom);
+      if (row) {
+        row.nodes.push(node);
+        row.bottom = Math.max(row.bottom, node.bounds.y + node.bounds.height);
+      } else {
+        rows.push({ top: node.bounds.y, bottom: node.bounds.y + node.bounds.height, nodes: [node] });
+      }
+    });
+
+  return rows.map(row => row.nodes.sort((a, b) => a.bounds.x - b.bounds.x));
+};
+
+// Rows with the same number of left-aligned columns form a grid
+const isGrid = (rows: SceneNode[][]): boolean => {
+  if (rows.length < 2 || rows[0].length < 2) return false;
+  const columns = rows[0].length;
+  return rows.every(row =>
+    row.length === columns &&
+    row.every((node, index) => Math.abs(node.bounds.x - rows[0][index].bounds.x) <= COLUMN_TOLERANCE)
+  );
+};
+
+const horizontalGaps = (row: SceneNode[]) =>
+  row.slice(1).map((node, index) => node.bounds.x - (row[index].bounds.x + row[index].bounds.width));
+
+const verticalGaps = (rows: SceneNode[][]) =>
+  rows.slice(1).map((row, index) => {
+    const top = Math.min(...row.map(node => node.bounds.y));
+    const bottom = Math.max(...rows[index].map(node => node.bounds.y + node.bounds.height));
+    return top - bottom;
+  });
+
+const detectAlignment = (nodes: SceneNode[]): ChildLayout['alignment'] => {
+  if (nodes.length < 2) return 'start';
+  const aligned = (value: (bounds: Bounds) => number) =>
+    nodes.every(node => Math.abs(value(node.bounds) - value(nodes[0].bounds)) <= ALIGN_TOLERANCE * 2);
+
+  if (aligned(bounds => bounds.x)) return 'start';
+  if (aligned(bounds => bounds.x + bounds.width / 2)) return 'center';
+  if (aligned(bounds => bounds.x + bounds.width)) return 'end';
+  return 'mixed';
+};
+
+export const analyzeChildLayout = (nodes: SceneNode[]): ChildLayout => {
+  // Freehand sketches are decoration and connectors are relationships; neither takes part in the layout
+  const visible = nodes.filter(node => node.role !== 'sketch' && node.role !== 'connector');
+  if (visible.length === 0) return EMPTY_LAYOUT;
+
+  const rows = groupIntoRows(visible);
+  if (visible.length === 1) {
+    return { direction: 'single', rows, columns: 1, gap: 0, alignment: 'start' };
+  }
+
+  if (isGrid(rows)) {
+    const gaps = [...rows.flatMap(horizontalGaps), ...verticalGaps(rows)];
+    return { direction: 'grid', rows, columns: rows[0].length, gap: Math.max(average(gaps), 0), alignment: 'start' };
+  }
+
+  if (rows.length === 1) {
+    return { direction: 'row', rows, columns: rows[0].length, gap: Math.max(average(horizontalGaps(rows[0])), 0), alignment: 'start' };
+  }
+
+  return {
+    direction: 'column',
+    rows,
+    columns: 1,
+    gap: Math.max(average(verticalGaps(rows)), 0),
+    alignment: detectAlignment(rows.map(row => row[0])),
+  };
+};
+
+const assignLayout = (node: SceneNode): void => {
+  node.children.forEach(assignLayout);
+  // Labels drawn inside buttons and inputs are part of that control, not separate children
+  node.layout = node.label !== undefined ? EMPTY_LAYOUT : analyzeChildLayout(node.children);
+};
+
+// Marks text that sits right above or left of an input field, or right of a checkbox or radio, as its label
+const markLabels = (layout: ChildLayout): void => {
+  layout.rows.forEach((row, rowIndex) => {
+    row.forEach((node, index) => {
+      if (node.element.type !== 'text') return;
+      const below = row.length === 1 ? layout.rows[rowIndex + 1]?.[0] : undefined;
+      const before = row[index - 1]?.role;
+      if (row[index + 1]?.role === 'input' || below?.role === 'input' || before === 'checkbox' || before === 'radio') {
+        node.role = 'label';
+      }
+    });
+    row.forEach(node => markLabels(node.layout));
+  });
+};
+
+const findAlignmentGroups = (nodes: SceneNode[]): AlignmentGroup[] => {
+  const axes: Record<AlignmentAxis, (bounds: Bounds) => number> = {
+    left: bounds => bounds.x,
+    'center-x': bounds => bounds.x + bounds.width / 2,
+    right: bounds => bounds.x + bounds.width,
+    top: bounds => bounds.y,
+    'center-y': bounds => bounds.y + bounds.height / 2,
+    bottom: bounds => bounds.y + bounds.height,
+  };
+  const groups: AlignmentGroup[] = [];
+
+  (Object.keys(axes) as AlignmentAxis[]).forEach(axis => {
+    const sorted = [...nodes].sort((a, b) => axes[axis](a.bounds) - axes[axis](b.bounds));
+    let current: SceneNode[] = [];
+
+    const flush = () => {
+      if (current.length >= 3) {
+        groups.push({ axis, value: Math.round(average(current.map(node => axes[axis](node.bounds)))), nodes: current });
+      }
+    };
+
+    sorted.forEach(node => {
+      const value = axes[axis](node.bounds);
+      if (current.length > 0 && value - axes[axis](current[0].bounds) > ALIGN_TOLERANCE) {
+        flush();
+        current = [];
+      }
+      current.push(node);
+    });
+    flush();
+  });
+
+  return groups.sort((a, b) => b.nodes.length - a.nodes.length);
+};
+
+// All nodes in the tree, except labels that belong to a button or input
+const flatten = (nodes: SceneNode[]): SceneNode[] =>
+  nodes.flatMap(node => [node, ...(node.label !== undefined ? [] : flatten(node.children))]);
+
+export const analyzeScene = (elements: CanvasElement[]): SceneGraph => {
+  const roots = buildTree(elements);
+  roots.forEach(assignRole);
+  roots.forEach(assignLayout);
+
+  const layout = analyzeChildLayout(roots);
+  markLabels(layout);
+
+  const alignable = flatten(roots).filter(node => node.role !== 'sketch' && node.role !== 'connector');
+  return { roots, layout, alignmentGroups: findAlignmentGroups(alignable) };
+};
+
+const describeNode = (node: SceneNode): string => {
+  const { bounds, element } = node;
+  let description = `${node.role.toUpperCase()} #${node.index}`;
+
+  if (element.type === 'text') {
+    description += ` "${element.data.text || ''}"`;
+  } else if (node.label !== undefined && !isStencil(element)) {
+    description += ` labeled "${node.label}"`;
+  }
+
+  if (element.type === 'circle') {
+    description += ` (radius ${Math.round(bounds.width / 2)}px)`;
+  } else if (element.type !== 'text') {
+    description += ` (${Math.round(bounds.width)}x${Math.round(bounds.height)}px)`;
+  }
+
+  if (isStencil(element)) {
+    description += ` stencil: ${describeStencil(element)}`;
+  }
+
+  return description;
+};
+
+const describeLayout = (layout: ChildLayout): string => {
+  switch (layout.direction) {
+    case 'grid':
+      return `grid of ${layout.rows.length} rows x ${layout.columns} columns, gap ~${layout.gap}px`;
+    case 'row':
+      return `horizontal row, gap ~${layout.gap}px`;
+    case 'column':
+      return `vertical stack, gap ~${layout.gap}px, ${layout.alignment === 'mixed' ? 'mixed' : `${layout.alignment}-aligned`}`;
+    default:
+      return '';
+  }
+};
+
+const describeChildren = (layout: ChildLayout, children: SceneNode[], depth: number): string[] => {
+  const pad = '  '.repeat(depth);
+  const lines: string[] = [];
+
+  layout.rows.forEach(row => {
+    // Rows inside a vertical stack are called out so side-by-side items stay together
+    const isNestedRow = layout.direction === 'column' && row.length > 1;
+    if (isNestedRow) {
+      lines.push(`${pad}- ROW, gap ~${Math.max(average(horizontalGaps(row)), 0)}px:`);
+    }
+    row.forEach(node => lines.push(...describeTree(node, isNestedRow ? depth + 1 : depth)));
+  });
+
+  children
+    .filter(node => node.role === 'sketch')
+    .forEach(node => {
+      const kind = node.element.type === 'path' ? 'freehand' : node.element.type;
+      lines.push(`${pad}- ${describeNode(node)} (${kind}, decorative)`);
+    });
+
+  return lines;
+};
+
+const describeTree = (node: SceneNode, depth: number): string[] => {
+  const pad = '  '.repeat(depth);
+  const layout = describeLayout(node.layout);
+  const header = `${pad}- ${describeNode(node)}${layout ? ` containing a ${layout}:` : ''}`;
+
+  if (node.label !== undefined) return [header];
+  return [header, ...describeChildren(node.layout, node.children, depth + 1)];
+};
+
+// Renders the scene graph as an indented outline for the code generation prompt
+export const describeScene = (scene: SceneGraph): { hierarchy: string; alignment: string; summary: string } => {
+  if (scene.roots.length === 0) {
+    return { hierarchy: '(empty)', alignment: 'None', summary: 'Empty canvas' };
+  }
+
+  const hierarchy = describeChildren(scene.layout, scene.roots, 0).join('\n');
+  const alignment = scene.alignmentGroups
+    .slice(0, 8)
+    .map(group => `- ${group.axis} edges aligned at ${group.value}px: ${group.nodes.map(node => `#${node.index}`).join(', ')}`)
+    .join('\n') || 'No strong alignment detected';
+
+  const rootLayout = describeLayout(scene.layout) || 'single element';
+  const containers = flatten(scene.roots).filter(node => node.role === 'container').length;
+  const summary = `${rootLayout} with ${scene.roots.length} top-level item${scene.roots.length === 1 ? '' : 's'} and ${containers} container${containers === 1 ? '' : 's'}`;
+
+  return { hierarchy, alignment, summary };
+};
@@ -0,0 +1,396 @@
+import {
+  GoogleGenerativeAI,
+  GoogleGenerativeAIAbortError,
+  GoogleGenerativeAIError,
+  GoogleGenerativeAIFetchError,
+} from "@google/generative-ai";
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface ProviderConfig {
+  provider: ProviderId;
+  apiKey: string;
+  model: string;
+  // Only used by the OpenAI-compatible provider, e.g. http://localhost:11434/v1
+  baseUrl: string;
+  // Sends compiler errors back to the model for one repair round, at the cost of an extra request
+  autoRepair: boolean;
+  // Attaches a snapshot of the board to code generation requests, for multimodal models
+  sendImage: boolean;
+}
+
+export interface PromptImage {
+  mimeType: string;
+  // Base64 without the data URL prefix
+  data: string;
+}
+
+export interface GenerateOptions {
+  // Sent along with the prompt; the model has to accept image input
+  images?: PromptImage[];
+  // Cancels the request, e.g. when the user presses Stop
+  signal?: AbortSignal;
+  // Receives the full text received so far each time more of the response streams in
+  onProgress?: (text: string) => void;
+}
+
+export interface LLMProvider {
+  readonly id: ProviderId;
+  readonly name: string;
+  generate(prompt: string, options?: GenerateOptions): Promise<string>;
+}
+
+// A failed request; transient failures such as rate limits, server errors and timeouts are retried
+export class ProviderError extends Error {
+  readonly transient: boolean;
+
+  constructor(message: string, transient: boolean) {
+    super(message);
+    this.name = 'ProviderError';
+    this.transient = transient;
+  }
+}
+
+// Requests without a status never reached the server, so they are worth retrying too
+const isTransientStatus = (status?: number) =>
+  status === undefined || status === 408 || status === 429 || status >= 500;
+
+export const PROVIDER_NAMES: Record<ProviderId, string> = {
+  gemini: 'Gemini',
+  openai: 'OpenAI-compatible',
+  mock: 'Offline mock',
+};
+
+export const DEFAULT_MODELS: Record<ProviderId, string> = {
+  gemini: 'gemini-1.5-flash',
+  openai: 'gpt-4o-mini',
+  mock: 'mock-1',
+};
+
+const STORAGE_KEY = 'whiteboard-to-code:llm-provider';
+
+export class GeminiProvider implements LLMProvider {
+  readonly id = 'gemini' as const;
+  readonly name = PROVIDER_NAMES.gemini;
+  private genAI: GoogleGenerativeAI;
+  private model: string;
+
+  constructor(apiKey: string, model = DEFAULT_MODELS.gemini) {
+    this.genAI = new GoogleGenerativeAI(apiKey);
+    this.model = model;
+  }
+
+  async generate(prompt: string, { images = [], signal, onProgress }: GenerateOptions = {}): Promise<string> {
+    const model = this.genAI.getGenerativeModel({ model: this.model });
+    try {
+      const result = await model.generateContentStream(
+        [prompt, ...images.map(image => ({ inlineData: { mimeType: image.mimeType, data: image.data } }))],
+        { signal }
+      );
+      let text = '';
+      for await (const chunk of result.stream) {
+        text += chunk.text();
+        onProgress?.(text);
+      }
+      return text;
+    } catch (error) {
+      if (error instanceof GoogleGenerativeAIFetchError) {
+        throw new ProviderError(error.message, isTransientStatus(error.status));
+      }
+      // The SDK wraps dropped connections and failed stream reads in its base error class
+      if (error instanceof GoogleGenerativeAIError && !(error instanceof GoogleGenerativeAIAbortError)) {
+        throw new ProviderError(error.message, true);
+      }
+      throw error;
+    }
+  }
+}
+
+// Talks to any server exposing the OpenAI chat completions API (OpenAI, Ollama, LM Studio, vLLM...)
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly id = 'openai' as const;
+  readonly name = PROVIDER_NAMES.openai;
+  private baseUrl: string;
+  private apiKey: string;
+  private model: string;
+
+  constructor(baseUrl: string, apiKey = '', model = DEFAULT_MODELS.openai) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.apiKey = apiKey;
+    this.model = model;
+  }
+
+  async generate(prompt: string, { images = [], signal, onProgress }: GenerateOptions = {}): Promise<string> {
+    const content = images.length > 0
+      ? [
+        { type: 'text', text: prompt },
+        ...images.map(image => ({ type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } })),
+      ]
+      : prompt;
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'user', content }],
+        stream: true,
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new ProviderError(`${this.name} request failed with status ${response.status}`, isTransientStatus(response.status));
+    }
+
+    const text = response.body ? await this.readStream(response.body, onProgress) : '';
+    if (!text) {
+      throw new ProviderError(`${this.name} response did not contain a message`, false);
+    }
+    return text;
+  }
+
+  // Collects the content deltas of a server-sent events stream
+  private async readStream(body: ReadableStream<Uint8Array>, onProgress?: (text: string) => void): Promise<string> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+
+    const readLine = (line: string) => {
+      const data = line.match(/^data:\s*(.*)$/)?.[1];
+      if (!data || data === '[DONE]') return;
+      let event;
+      try {
+        event = JSON.parse(data);
+      } catch {
+        // Skip keep-alives and other lines that are not JSON instead of dropping the whole response
+        console.warn(`Skipping malformed ${this.name} stream line:`, line);
+        return;
+      }
+      const delta = event?.choices?.[0]?.delta?.content;
+      if (typeof delta === 'string' && delta) {
+        text += delta;
+        onProgress?.(text);
+      }
+    };
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+      lines.forEach(readLine);
+    }
+    // The last event is still buffered when the stream does not end with a newline
+    buffer += decoder.decode();
+    buffer.split('\n').forEach(readLine);
+    return text;
+  }
+}
+
+// Deterministic provider for tests and offline demos: the same prompt always yields the same response
+export class MockProvider implements LLMProvider {
+  readonly id = 'mock' as const;
+  readonly name = PROVIDER_NAMES.mock;
+  private respond: (prompt: string) => string;
+
+  constructor(respond?: (prompt: string) => string) {
+    this.respond = respond || MockProvider.defaultResponse;
+  }
+
+  async generate(prompt: string, { onProgress }: GenerateOptions = {}): Promise<string> {
+    const text = this.respond(prompt);
+    onProgress?.(text);
+    return text;
+  }
+
+  private static defaultResponse(prompt: string): string {
+    if (prompt.includes('"steps"')) {
+      return JSON.stringify({
+        steps: [
+          {
+            instruction: 'Write the main concept in the middle of the board',
+            explanation: 'Start from the core idea before adding details',
+            concepts: ['overview'],
+          },
+          {
+            instruction: 'Draw boxes for the related ideas and connect them',
+            explanation: 'Relationships are easier to remember when they are visible',
+            concepts: ['relationships', 'visual learning'],
+          },
+        ],
+      });
+    }
+
+    if (prompt.includes('study notes')) {
+      return '# Study Notes\n\n_Generated offline by the mock provider._\n\n## Summary\n\n- Review the concepts you drew on the whiteboard.\n';
+    }
+
+    const elementCount = prompt.match(/Total elements: (\d+)/)?.[1] || '0';
+    return [
+      '```tsx',
+      "import React from 'react';",
+      '',
+      'const GeneratedComponent: React.FC = () => {',
+      '  return (',
+      '    <div className="p-6 rounded-lg border border-gray-200 bg-white shadow-sm">',
+      '      <h2 className="text-lg font-semibold text-gray-900">Mock Component</h2>',
+      `      <p className="text-sm text-gray-500">Generated offline from ${elementCount} whiteboard elements.</p>`,
+      '    </div>',
+      '  );',
+      '};',
+      '',
+      'export default GeneratedComponent;',
+      '```',
+    ].join('\n');
+  }
+}
+
+export const isProviderConfigured = (config: ProviderConfig): boolean => {
+  switch (config.provider) {
+    case 'gemini':
+      return !!config.apiKey;
+    case 'openai':
+      return !!config.baseUrl;
+    case 'mock':
+      return true;
+    default:
+      return false;
+  }
+};
+
+export const createProvider = (config: ProviderConfig): LLMProvider => {
+  const model = config.model || DEFAULT_MODELS[config.provider];
+
+  switch (config.provider) {
+    case 'gemini':
+      return new GeminiProvider(config.apiKey, model);
+    case 'openai':
+      return new OpenAICompatibleProvider(config.baseUrl, config.apiKey, model);
+    case 'mock':
+      return new MockProvider();
+    default:
+      throw new Error(`Unknown LLM provider "${String(config.provider)}"`);
+  }
+};
+
+// A request is abandoned when no text arrives for this long, then retried
+const REQUEST_TIMEOUT_MS = 60000;
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+
+const createAbortError = () => new DOMException('Generation was stopped', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const handleAbort = () => {
+    clearTimeout(timer);
+    reject(createAbortError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', handleAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', handleAbort, { once: true });
+});
+
+/**
+ * Runs a request with an idle timeout that restarts whenever more text streams in, and retries
+ * transient failures with exponential backoff. Aborting options.signal rejects with an
+ * AbortError straight away, see isAbortError.
+ */
+export const generateWithRetry = async (
+  provider: LLMProvider,
+  prompt: string,
+  options: GenerateOptions = {}
+): Promise<string> => {
+  for (let attempt = 1; ; attempt++) {
+    if (options.signal?.aborted) throw createAbortError();
+
+    const controller = new AbortController();
+    const stop = () => controller.abort();
+    let timedOut = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const restartTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, REQUEST_TIMEOUT_MS);
+    };
+
+    options.signal?.addEventListener('abort', stop);
+    restartTimer();
+    try {
+      return await provider.generate(prompt, {
+        images: options.images,
+        signal: controller.signal,
+        onProgress: text => {
+          restartTimer();
+          options.onProgress?.(text);
+        },
+      });
+    } catch (error) {
+      if (options.signal?.aborted) throw createAbortError();
+
+      const failure = timedOut
+        ? new ProviderError(`${provider.name} did not respond within ${REQUEST_TIMEOUT_MS / 1000} seconds`, true)
+        : error;
+      // Network failures surface as a TypeError from fetch
+      const transient = failure instanceof ProviderError ? failure.transient : failure instanceof TypeError;
+      if (!transient || attempt >= MAX_ATTEMPTS) throw failure;
+
+      console.warn(`${provider.name} request failed, retrying (attempt ${attempt + 1} of ${MAX_ATTEMPTS}):`, failure);
+      await wait(RETRY_DELAY_MS * 2 ** (attempt - 1), options.signal);
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', stop);
+    }
+  }
+};
+
+const getEnvConfig = (): ProviderConfig => {
+  const provider = (import.meta.env.VITE_LLM_PROVIDER || 'gemini') as ProviderId;
+  return {
+    provider,
+    apiKey: provider === 'openai'
+      ? import.meta.env.VITE_OPENAI_API_KEY || ''
+      : import.meta.env.VITE_GEMINI_API_KEY || '',
+    model: import.meta.env.VITE_LLM_MODEL || '',
+    baseUrl: import.meta.env.VITE_OPENAI_BASE_URL || '',
+    autoRepair: false,
+    sendImage: false,
+  };
+};
+
+// Settings chosen in the app take precedence over the .env defaults
+export const loadProviderConfig = (): ProviderConfig => {
+  const envConfig = getEnvConfig();
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...envConfig, ...JSON.parse(raw) } : envConfig;
+  } catch (error) {
+    console.error('Error reading provider settings:', error);
+    return envConfig;
+  }
+};
+
+export const saveProviderConfig = (config: ProviderConfig): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  } catch (error) {
+    console.error('Error saving provider settings:', error);
+  }
+};
+
+// Returns a provider for the current settings, or null when it is missing credentials
+export const getConfiguredProvider = (): LLMProvider | null => {
+  const config = loadProviderConfig();
+  return isProviderConfigured(config) ? createProvider(config) : null;
+};
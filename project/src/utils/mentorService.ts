@@ -1,4 +1,5 @@
 import { CanvasElement, MentorSession, MentorInteraction } from '../types';
+import { getConfiguredProvider } from './llmProviders';
 
 interface TeachingStep {
   id: string;
@@ -12,11 +13,6 @@ class MentorService {
   private currentSession: MentorSession | null = null;
   private interactions: MentorInteraction[] = [];
   private teachingSteps: TeachingStep[] = [];
-  private apiKey: string = '';
-
-  constructor() {
-    this.apiKey = import.meta.env.VITE_GEMINI_API_KEY || '';
-  }
 
   startSession(topic: string): MentorSession {
     this.currentSession = {
@@ -32,16 +28,13 @@ class MentorService {
   }
 
   async generateTeachingPlan(topic: string): Promise<TeachingStep[]> {
-    if (!this.apiKey) {
+    const provider = getConfiguredProvider();
+    if (!provider) {
       // Fallback teaching plan without API
       return this.getDefaultTeachingPlan(topic);
     }
 
     try {
-      const { GoogleGenerativeAI } = await import('@google/generative-ai');
-      const genAI = new GoogleGenerativeAI(this.apiKey);
-      const model = genAI.getGenerativeModel({ model: 'gemini-pro' });
-
       const prompt = `Create a visual teaching plan for the topic: "${topic}". 
       
       Provide a structured teaching plan with 3-5 steps that can be drawn on a whiteboard. Each step should include:
@@ -62,9 +55,7 @@ class MentorService {
       
       Make it suitable for visual learning on a whiteboard.`;
 
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      const text = response.text();
+      const text = await provider.generate(prompt);
       
       const parsedResponse = JSON.parse(text);
       return parsedResponse.steps.map((step: { instruction: string; explanation: string; concepts: string[] }, index: number) => ({
@@ -174,15 +165,12 @@ class MentorService {
       throw new Error('No active session');
     }
 
-    if (!this.apiKey) {
+    const provider = getConfiguredProvider();
+    if (!provider) {
       return this.generateBasicNotes();
     }
 
     try {
-      const { GoogleGenerativeAI } = await import('@google/generative-ai');
-      const genAI = new GoogleGenerativeAI(this.apiKey);
-      const model = genAI.getGenerativeModel({ model: 'gemini-pro' });
-
       const session = this.currentSession;
       const duration = session.endTime ? session.endTime - session.startTime : Date.now() - session.startTime;
       
@@ -221,9 +209,7 @@ class MentorService {
 
       Format as markdown with clear headings and bullet points. Make it comprehensive and educational.`;
 
-      const result = await model.generateContent(prompt);
-      const response = await result.response;
-      return response.text();
+      return await provider.generate(prompt);
 
     } catch (error) {
       console.error('Error generating AI notes:', error);
@@ -238,12 +224,18 @@ class MentorService {
     elements.forEach(element => {
       switch (element.type) {
         case 'path':
+        case 'line':
+        case 'arrow':
+        case 'triangle':
           analysis.paths++;
           break;
         case 'rectangle':
+        case 'checkbox':
           analysis.rectangles++;
           break;
         case 'circle':
+        case 'ellipse':
+        case 'radio':
           analysis.circles++;
           break;
         case 'text':
@@ -334,12 +326,18 @@ class MentorService {
     return elements.reduce((acc, element) => {
       switch (element.type) {
         case 'path':
+        case 'line':
+        case 'arrow':
+        case 'triangle':
           acc.paths++;
           break;
         case 'rectangle':
+        case 'checkbox':
           acc.rectangles++;
           break;
         case 'circle':
+        case 'ellipse':
+        case 'radio':
           acc.circles++;
           break;
         case 'text':
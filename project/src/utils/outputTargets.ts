@@ -0,0 +1,148 @@
+import { OutputTarget } from '../types';
+
+export interface OutputTargetConfig {
+  id: OutputTarget;
+  label: string;
+  // Who the model should act as, e.g. "an expert React developer"
+  expert: string;
+  // Requirements specific to this target, listed before the shared ones
+  requirements: string[];
+  // Fence language the model is asked to answer with
+  fence: string;
+  // Fence languages accepted when extracting code from the response
+  acceptedFences: string[];
+  prismLanguage: string;
+  extension: string;
+  // Whether the Preview tab can render this target
+  previewable: boolean;
+  usesSemanticHtml: boolean;
+  // Packages the generated code may import; code is only statically checked for targets that list them
+  packages?: string[];
+  // How the code should reference design tokens when the board has a theme
+  themeUsage: string;
+  // Whether a React component library such as MUI can be used
+  supportsComponentLibraries: boolean;
+}
+
+export const DEFAULT_OUTPUT_TARGET: OutputTarget = 'react-tailwind';
+
+export const OUTPUT_TARGETS: Record<OutputTarget, OutputTargetConfig> = {
+  'react-tailwind': {
+    id: 'react-tailwind',
+    label: 'React + Tailwind',
+    expert: 'an expert React developer',
+    requirements: [
+      'Create a React TypeScript functional component',
+      'Use Tailwind CSS for styling',
+      'Include proper TypeScript interfaces for props',
+      'Follow React best practices',
+    ],
+    fence: 'tsx',
+    acceptedFences: ['tsx', 'jsx', 'typescript', 'ts'],
+    prismLanguage: 'tsx',
+    extension: '.tsx',
+    previewable: true,
+    usesSemanticHtml: true,
+    packages: ['react', 'react-dom', 'lucide-react'],
+    themeUsage: 'The Tailwind config extends the theme with these tokens, so use their names in classes, e.g. bg-primary, text-muted, rounded-md, p-4, text-sm. Do not use arbitrary values or default palette colors such as blue-500',
+    supportsComponentLibraries: true,
+  },
+  'react-css-modules': {
+    id: 'react-css-modules',
+    label: 'React + CSS Modules',
+    expert: 'an expert React developer',
+    requirements: [
+      'Create a React TypeScript functional component',
+      "Style it with a CSS module imported as `styles` from './Component.module.css'; do not use Tailwind",
+      'Return the component in a tsx block followed by the CSS module in a css block',
+      'Include proper TypeScript interfaces for props',
+      'Follow React best practices',
+    ],
+    fence: 'tsx',
+    acceptedFences: ['tsx', 'jsx', 'typescript', 'ts'],
+    prismLanguage: 'tsx',
+    extension: '.tsx',
+    previewable: false,
+    usesSemanticHtml: true,
+    packages: ['react', 'react-dom', 'lucide-react'],
+    themeUsage: 'The tokens are global CSS custom properties: var(--color-<name>), var(--font-size-<name>), var(--radius-<name>), var(--space-<name>) and var(--font-family). Use them in the CSS module instead of literal values',
+    supportsComponentLibraries: true,
+  },
+  vue: {
+    id: 'vue',
+    label: 'Vue SFC',
+    expert: 'an expert Vue developer',
+    requirements: [
+      'Create a Vue 3 single-file component using <script setup lang="ts">',
+      'Put the styles in a scoped <style> block',
+      'Type props with defineProps',
+    ],
+    fence: 'vue',
+    acceptedFences: ['vue', 'html'],
+    prismLanguage: 'markup',
+    extension: '.vue',
+    previewable: false,
+    usesSemanticHtml: true,
+    themeUsage: 'Declare the tokens once as CSS custom properties (--color-<name>, --font-size-<name>, --radius-<name>, --space-<name>, --font-family) on the root element and use var() everywhere else',
+    supportsComponentLibraries: false,
+  },
+  svelte: {
+    id: 'svelte',
+    label: 'Svelte',
+    expert: 'an expert Svelte developer',
+    requirements: [
+      'Create a Svelte component with <script lang="ts">',
+      'Put the styles in the component <style> block',
+      'Declare props with export let and explicit types',
+    ],
+    fence: 'svelte',
+    acceptedFences: ['svelte', 'html'],
+    prismLanguage: 'markup',
+    extension: '.svelte',
+    previewable: false,
+    usesSemanticHtml: true,
+    themeUsage: 'Declare the tokens once as CSS custom properties (--color-<name>, --font-size-<name>, --radius-<name>, --space-<name>, --font-family) on the root element and use var() everywhere else',
+    supportsComponentLibraries: false,
+  },
+  html: {
+    id: 'html',
+    label: 'HTML + CSS',
+    expert: 'an expert front-end developer',
+    requirements: [
+      'Create a single self-contained HTML document',
+      'Put the styles in a <style> element in the head and any behaviour in a <script> element',
+      'Do not use frameworks or external dependencies',
+    ],
+    fence: 'html',
+    acceptedFences: ['html'],
+    prismLanguage: 'markup',
+    extension: '.html',
+    previewable: true,
+    usesSemanticHtml: true,
+    themeUsage: 'Declare the tokens once as CSS custom properties (--color-<name>, --font-size-<name>, --radius-<name>, --space-<name>, --font-family) in :root and use var() everywhere else',
+    supportsComponentLibraries: false,
+  },
+  'react-native': {
+    id: 'react-native',
+    label: 'React Native',
+    expert: 'an expert React Native developer',
+    requirements: [
+      'Create a React Native TypeScript functional component',
+      'Use StyleSheet.create for styles and core components such as View, Text, Pressable, TextInput and Image',
+      'Do not use HTML elements or CSS class names',
+      'Include proper TypeScript interfaces for props',
+    ],
+    fence: 'tsx',
+    acceptedFences: ['tsx', 'jsx', 'typescript', 'ts'],
+    prismLanguage: 'tsx',
+    extension: '.tsx',
+    previewable: false,
+    usesSemanticHtml: false,
+    packages: ['react', 'react-native'],
+    themeUsage: 'Declare the tokens once as a theme object (colors, fontSize, radii, spacing) at the top of the file and reference them by name in StyleSheet.create',
+    supportsComponentLibraries: false,
+  },
+};
+
+export const getOutputTarget = (target?: OutputTarget): OutputTargetConfig =>
+  OUTPUT_TARGETS[target || DEFAULT_OUTPUT_TARGET] || OUTPUT_TARGETS[DEFAULT_OUTPUT_TARGET];
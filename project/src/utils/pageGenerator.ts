@@ -0,0 +1,105 @@
+import { OutputTarget } from '../types';
+import { ComponentGenerator, DrawingData, GeneratedComponent } from './aiIntegration';
+import { FramePage, getFramePages } from './frames';
+import { bundleFiles } from './generatedFiles';
+import { GenerateOptions } from './llmProviders';
+import { getOutputTarget } from './outputTargets';
+
+// The router file is a React component, so page sets are only generated for web React targets
+export const PAGE_TARGETS: OutputTarget[] = ['react-tailwind', 'react-css-modules'];
+
+export const ROUTER_PATH = 'src/App.tsx';
+
+const pagePath = (page: FramePage, extension: string) => `src/pages/${page.componentName}${extension}`;
+
+// Hash-based router, so pages can be bookmarked and the back button works without extra dependencies
+export const buildRouterFile = (pages: FramePage[]): string => [
+  "import React, { useEffect, useState } from 'react';",
+  ...pages.map(page => `import ${page.componentName} from './pages/${page.componentName}';`),
+  '',
+  `export type PageId = ${pages.map(page => `'${page.id}'`).join(' | ')};`,
+  '',
+  'export interface PageProps {',
+  '  onNavigate: (page: PageId) => void;',
+  '}',
+  '',
+  'const PAGES: Record<PageId, React.FC<PageProps>> = {',
+  ...pages.map(page => `  '${page.id}': ${page.componentName},`),
+  '};',
+  '',
+  'const pageFromHash = (): PageId => {',
+  '  const id = window.location.hash.slice(1);',
+  `  return id in PAGES ? (id as PageId) : '${pages[0].id}';`,
+  '};',
+  '',
+  'const App: React.FC = () => {',
+  '  const [page, setPage] = useState<PageId>(pageFromHash);',
+  '',
+  '  useEffect(() => {',
+  '    const handleHashChange = () => setPage(pageFromHash());',
+  "    window.addEventListener('hashchange', handleHashChange);",
+  "    return () => window.removeEventListener('hashchange', handleHashChange);",
+  '  }, []);',
+  '',
+  '  const Page = PAGES[page];',
+  '  return <Page onNavigate={(next) => { window.location.hash = next; }} />;',
+  '};',
+  '',
+  'export default App;',
+  '',
+].join('\n');
+
+/**
+ * Generates one component per frame with the wrapped generator, plus a router file that
+ * wires the pages together along the connectors drawn between frames. The files come back
+ * bundled into one code string, see generatedFiles.
+ */
+export class PageSetGenerator implements ComponentGenerator {
+  private generator: ComponentGenerator;
+  private target: OutputTarget;
+
+  constructor(generator: ComponentGenerator, target: OutputTarget) {
+    this.generator = generator;
+    this.target = target;
+  }
+
+  async generateComponent(drawingData: DrawingData, { signal, onProgress }: GenerateOptions = {}): Promise<GeneratedComponent> {
+    const pages = getFramePages(drawingData.elements);
+    if (pages.length === 0) {
+      throw new Error('Draw at least one frame to generate pages');
+    }
+
+    const extension = getOutputTarget(this.target).extension;
+    const pageNames = Object.fromEntries(pages.map(page => [page.id, page.name]));
+    const files = [{ path: ROUTER_PATH, code: buildRouterFile(pages) }];
+    const results: GeneratedComponent[] = [];
+    // One page at a time, so providers with rate limits are not hit with a burst of requests
+    for (const page of pages) {
+      const path = pagePath(page, extension);
+      // The board snapshot is left out: it shows every frame and would blur which page is being built
+      const result = await this.generator.generateComponent({
+        elements: page.elements,
+        canvas: page.size,
+        page: { name: page.name, componentName: page.componentName, links: page.links, pageNames },
+        legend: drawingData.legend,
+      }, {
+        signal,
+        // Progress shows the finished files followed by the page being generated
+        onProgress: onProgress && (code => onProgress(bundleFiles([...files, { path, code }]))),
+      });
+      results.push(result);
+      files.push({ path, code: result.code });
+    }
+
+    const prompts = results
+      .map((result, index) => result.prompt && `=== ${pages[index].name} ===\n${result.prompt.trim()}`)
+      .filter(Boolean);
+
+    return {
+      code: bundleFiles(files),
+      preview: `${pages.length} page${pages.length > 1 ? 's' : ''} with a router - ${pages.map(page => page.name).join(', ')}`,
+      filename: 'App.tsx',
+      prompt: prompts.length > 0 ? prompts.join('\n\n') : undefined,
+    };
+  }
+}
@@ -0,0 +1,170 @@
+// Compiles generated components in the browser and builds the sandboxed iframe document that runs them
+import { DesignTheme } from '../types';
+import { toCssVariables, toTailwindTheme } from './designTokens';
+
+export interface CompileResult {
+  code: string | null;
+  errors: string[];
+}
+
+export interface PreviewMessage {
+  source: 'wbc-preview';
+  type: 'ready' | 'error';
+  message?: string;
+}
+
+const REACT_VERSION = '18.3.1';
+const LUCIDE_VERSION = '0.344.0';
+
+const SCRIPT_URLS = [
+  `https://unpkg.com/react@${REACT_VERSION}/umd/react.development.js`,
+  `https://unpkg.com/react-dom@${REACT_VERSION}/umd/react-dom.development.js`,
+  'https://cdn.tailwindcss.com',
+];
+const LUCIDE_URL = `https://unpkg.com/lucide-react@${LUCIDE_VERSION}/dist/umd/lucide-react.js`;
+
+// The TypeScript compiler is large, so it is only loaded the first time a preview is requested
+let typescriptModule: Promise<typeof import('typescript')> | null = null;
+
+export const loadTypeScript = () => {
+  if (!typescriptModule) {
+    typescriptModule = import('typescript');
+  }
+  return typescriptModule;
+};
+
+export const compileComponent = async (source: string, fileName = 'GeneratedComponent.tsx'): Promise<CompileResult> => {
+  const ts = await loadTypeScript();
+  const result = ts.transpileModule(source, {
+    reportDiagnostics: true,
+    fileName,
+    compilerOptions: {
+      target: ts.ScriptTarget.ES2020,
+      module: ts.ModuleKind.CommonJS,
+      jsx: ts.JsxEmit.React,
+      esModuleInterop: true,
+    },
+  });
+
+  const errors = (result.diagnostics || []).map(diagnostic => {
+    const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+    if (diagnostic.file && diagnostic.start !== undefined) {
+      const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+      return `Line ${line + 1}, column ${character + 1}: ${message}`;
+    }
+    return message;
+  });
+
+  return { code: errors.length > 0 ? null : result.outputText, errors };
+};
+
+// Embeds a value as a JS literal without closing the surrounding <script> tag early
+const toScriptValue = (value: unknown) => JSON.stringify(value).replace(/<\/script/gi, '<\\/script');
+
+/**
+ * Builds the sandbox document. `modules` maps file paths without extension to compiled code;
+ * relative imports between them resolve inside the sandbox and `entry` is rendered. A theme
+ * is applied the way exported projects apply it: Tailwind classes and CSS custom properties.
+ */
+export const buildPreviewDocument = (modules: Record<string, string>, entry: string, theme?: DesignTheme): string => `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8" />
+  ${SCRIPT_URLS.map(url => `<script src="${url}"></script>`).join('\n  ')}
+  <script>window.react = window.React;</script>
+  <script src="${LUCIDE_URL}"></script>
+  <style>body { margin: 0; padding: 16px; font-family: Inter, system-ui, sans-serif; }</style>${theme ? `
+  <script>tailwind.config = { theme: { extend: ${toScriptValue(toTailwindTheme(theme))} } };</script>
+  <style>${toCssVariables(theme).replace(/<\/style/gi, '<\\/style')}</style>` : ''}
+</head>
+<body>
+  <div id="root"></div>
+  <script>
+    (function () {
+      function report(type, message) {
+        window.parent.postMessage({ source: 'wbc-preview', type: type, message: message }, '*');
+      }
+
+      window.addEventListener('error', function (event) {
+        report('error', event.message || 'Unknown runtime error');
+      });
+      window.addEventListener('unhandledrejection', function (event) {
+        report('error', String(event.reason && event.reason.message || event.reason));
+      });
+
+      var packages = {
+        react: window.React,
+        'react-dom': window.ReactDOM,
+        'react-dom/client': window.ReactDOM,
+        'lucide-react': window.LucideReact || {}
+      };
+
+      var sources = ${toScriptValue(modules)};
+      var loaded = {};
+
+      function resolve(from, name) {
+        var parts = from.split('/').slice(0, -1);
+        name.split('/').forEach(function (part) {
+          if (part === '..') parts.pop();
+          else if (part !== '.') parts.push(part);
+        });
+        return parts.join('/').replace(/\\.(tsx|ts|jsx|js)$/, '');
+      }
+
+      function load(path) {
+        if (!loaded[path]) {
+          var module = { exports: {} };
+          loaded[path] = module;
+          new Function('module', 'exports', 'require', sources[path])(module, module.exports, function (name) {
+            return requireFrom(path, name);
+          });
+        }
+        return loaded[path].exports;
+      }
+
+      function requireFrom(from, name) {
+        if (name.charAt(0) === '.') {
+          var path = resolve(from, name);
+          if (path in sources) return load(path);
+        }
+        if (!(name in packages)) {
+          throw new Error('Module "' + name + '" is not available in the preview sandbox');
+        }
+        return packages[name];
+      }
+
+      var ErrorBoundary = (function () {
+        function Boundary(props) {
+          React.Component.call(this, props);
+          this.state = { error: null };
+        }
+        Boundary.prototype = Object.create(React.Component.prototype);
+        Boundary.getDerivedStateFromError = function (error) { return { error: error }; };
+        Boundary.prototype.componentDidCatch = function (error) { report('error', error.message); };
+        Boundary.prototype.render = function () {
+          return this.state.error ? null : this.props.children;
+        };
+        return Boundary;
+      })();
+
+      try {
+        var exported = load(${toScriptValue(entry)});
+        var Component = exported.default || Object.keys(exported)
+          .map(function (key) { return exported[key]; })
+          .find(function (value) { return typeof value === 'function'; });
+
+        if (!Component) {
+          throw new Error('No React component is exported from the generated code');
+        }
+
+        ReactDOM.createRoot(document.getElementById('root')).render(
+          React.createElement(ErrorBoundary, null, React.createElement(Component))
+        );
+        report('ready');
+      } catch (error) {
+        report('error', error.message);
+      }
+    })();
+  </script>
+</body>
+</html>`;
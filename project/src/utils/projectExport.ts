@@ -0,0 +1,220 @@
+import { DesignTheme, OutputTarget } from '../types';
+import { getComponentLibrary, toCssVariables, toTailwindTheme } from './designTokens';
+import { GeneratedFile, getFileName, splitFiles } from './generatedFiles';
+import { PAGE_TARGETS } from './pageGenerator';
+import { ArchiveEntry } from './zipArchive';
+
+// The scaffold is a React app, so it takes the same targets as page sets
+export const canExportProject = (target: OutputTarget): boolean => PAGE_TARGETS.includes(target);
+
+// CSS module targets keep the stylesheet as a trailing comment, see AICodeGenerator.extractCodeFromMarkdown
+const STYLESHEET_COMMENT = /\n*\/\* Component\.module\.css\n([\s\S]*?)\n\*\/\s*$/;
+
+const toPackageName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'whiteboard-app';
+
+// How App.tsx imports a single generated component: its default export, or else its first exported component
+const getComponentImport = (code: string): { name: string; statement: (path: string) => string } => {
+  const named = code.match(/export\s+default\s+(?:function\s+|class\s+)?([A-Z]\w*)/);
+  if (named) return { name: named[1], statement: path => `import ${named[1]} from '${path}';` };
+
+  const exported = /export\s+default\b/.test(code) ? null : code.match(/export\s+(?:const|function|class)\s+([A-Z]\w*)/);
+  if (exported) return { name: exported[1], statement: path => `import { ${exported[1]} } from '${path}';` };
+
+  return { name: 'GeneratedComponent', statement: path => `import GeneratedComponent from '${path}';` };
+};
+
+// Moves a trailing CSS module comment into its own file next to the component
+const withStylesheet = (file: GeneratedFile): GeneratedFile[] => {
+  const match = file.code.match(STYLESHEET_COMMENT);
+  if (!match) return [file];
+
+  const base = getFileName(file.path).replace(/\.\w+$/, '');
+  const stylesheet = `${base}.module.css`;
+  return [
+    { path: file.path, code: `${file.code.replace(STYLESHEET_COMMENT, '').replace(/(['"])\.\/Component\.module\.css\1/g, `'./${stylesheet}'`)}\n` },
+    { path: file.path.replace(/[^/]+$/, stylesheet), code: `${match[1]}\n` },
+  ];
+};
+
+const packageJson = (name: string, theme?: DesignTheme) => `${JSON.stringify({
+  name,
+  private: true,
+  version: '0.0.0',
+  type: 'module',
+  scripts: {
+    dev: 'vite',
+    build: 'vite build',
+    preview: 'vite preview',
+  },
+  // Sorted like npm writes them, since the component library adds its own
+  dependencies: Object.fromEntries(Object.entries({
+    ...getComponentLibrary(theme).dependencies,
+    'lucide-react': '^0.344.0',
+    react: '^18.3.1',
+    'react-dom': '^18.3.1',
+  }).sort(([a], [b]) => a.localeCompare(b))),
+  devDependencies: {
+    '@types/react': '^18.3.5',
+    '@types/react-dom': '^18.3.0',
+    '@vitejs/plugin-react': '^4.3.1',
+    autoprefixer: '^10.4.18',
+    postcss: '^8.4.35',
+    tailwindcss: '^3.4.1',
+    typescript: '^5.5.3',
+    vite: '^5.4.2',
+  },
+}, null, 2)}\n`;
+
+const tsconfigJson = `${JSON.stringify({
+  compilerOptions: {
+    target: 'ES2020',
+    useDefineForClassFields: true,
+    lib: ['ES2020', 'DOM', 'DOM.Iterable'],
+    module: 'ESNext',
+    skipLibCheck: true,
+    moduleResolution: 'bundler',
+    isolatedModules: true,
+    moduleDetection: 'force',
+    noEmit: true,
+    jsx: 'react-jsx',
+    strict: true,
+  },
+  include: ['src'],
+}, null, 2)}\n`;
+
+const SCAFFOLD: GeneratedFile[] = [
+  {
+    path: 'vite.config.ts',
+    code: [
+      "import { defineConfig } from 'vite';",
+      "import react from '@vitejs/plugin-react';",
+      '',
+      'export default defineConfig({',
+      '  plugins: [react()],',
+      '});',
+      '',
+    ].join('\n'),
+  },
+  {
+    path: 'postcss.config.js',
+    code: [
+      'export default {',
+      '  plugins: {',
+      '    tailwindcss: {},',
+      '    autoprefixer: {},',
+      '  },',
+      '};',
+      '',
+    ].join('\n'),
+  },
+  {
+    path: 'src/main.tsx',
+    code: [
+      "import { StrictMode } from 'react';",
+      "import { createRoot } from 'react-dom/client';",
+      "import App from './App';",
+      "import './index.css';",
+      '',
+      "createRoot(document.getElementById('root')!).render(",
+      '  <StrictMode>',
+      '    <App />',
+      '  </StrictMode>',
+      ');',
+      '',
+    ].join('\n'),
+  },
+  {
+    path: '.gitignore',
+    code: 'node_modules\ndist\n',
+  },
+];
+
+// The board's design tokens become Tailwind theme extensions and CSS custom properties, matching the prompt
+const themeFiles = (theme?: DesignTheme): GeneratedFile[] => [
+  {
+    path: 'tailwind.config.js',
+    code: [
+      "/** @type {import('tailwindcss').Config} */",
+      'export default {',
+      "  content: ['./index.html', './src/**/*.{js,ts,jsx,tsx}'],",
+      '  theme: {',
+      `    extend: ${theme ? JSON.stringify(toTailwindTheme(theme), null, 2).replace(/\n/g, '\n    ') : '{}'},`,
+      '  },',
+      '  plugins: [],',
+      '};',
+      '',
+    ].join('\n'),
+  },
+  {
+    path: 'src/index.css',
+    code: `@tailwind base;\n@tailwind components;\n@tailwind utilities;\n${theme ? `\n${toCssVariables(theme)}\n` : ''}`,
+  },
+];
+
+/**
+ * Wraps the generated code in a runnable Vite + React + Tailwind project. A single component
+ * goes to src/components and is mounted by a generated App; a page set brings its own router App.
+ * Every path is inside a folder named after the board, so the archive unpacks into one directory.
+ */
+export const buildViteProject = (boardName: string, code: string, theme?: DesignTheme): { filename: string; entries: ArchiveEntry[] } => {
+  const name = toPackageName(boardName);
+  const pages = splitFiles(code);
+  let sources: GeneratedFile[];
+
+  if (pages.length > 0) {
+    sources = pages;
+  } else {
+    const component = getComponentImport(code);
+    sources = [
+      { path: `src/components/${component.name}.tsx`, code },
+      {
+        path: 'src/App.tsx',
+        code: [
+          component.statement(`./components/${component.name}`),
+          '',
+          'function App() {',
+          `  return <${component.name} />;`,
+          '}',
+          '',
+          'export default App;',
+          '',
+        ].join('\n'),
+      },
+    ];
+  }
+
+  const files: GeneratedFile[] = [
+    { path: 'package.json', code: packageJson(name, theme) },
+    { path: 'tsconfig.json', code: tsconfigJson },
+    {
+      path: 'index.html',
+      code: [
+        '<!doctype html>',
+        '<html lang="en">',
+        '  <head>',
+        '    <meta charset="UTF-8" />',
+        '    <meta name="viewport" content="width=device-width, initial-scale=1.0" />',
+        `    <title>${boardName.replace(/[<>&]/g, '')}</title>`,
+        '  </head>',
+        '  <body>',
+        '    <div id="root"></div>',
+        '    <script type="module" src="/src/main.tsx"></script>',
+        '  </body>',
+        '</html>',
+        '',
+      ].join('\n'),
+    },
+    {
+      path: 'README.md',
+      code: `# ${boardName}\n\nGenerated from a whiteboard drawing.\n\n\`\`\`bash\nnpm install\nnpm run dev\n\`\`\`\n`,
+    },
+    ...SCAFFOLD,
+    ...themeFiles(theme),
+    ...sources.flatMap(withStylesheet),
+  ];
+
+  return {
+    filename: `${name}.zip`,
+    entries: files.map(file => ({ path: `${name}/${file.path}`, content: file.code })),
+  };
+};
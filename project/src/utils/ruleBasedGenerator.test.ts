@@ -0,0 +1,96 @@
+import ts from 'typescript';
+import { describe, expect, it } from 'vitest';
+import { CanvasElement } from '../types';
+import { RuleBasedCodeGenerator } from './ruleBasedGenerator';
+import { MAX_TABLE_ROWS, createStencil } from './stencils';
+
+const text = (id: string, value: string, x: number, y: number): CanvasElement =>
+  ({ id, type: 'text', data: { text: value }, position: { x, y } });
+
+const rectangle = (id: string, x: number, y: number, width: number, height: number): CanvasElement =>
+  ({ id, type: 'rectangle', data: {}, position: { x, y }, dimensions: { width, height } });
+
+const generate = async (elements: CanvasElement[]) =>
+  (await new RuleBasedCodeGenerator().generateComponent({ elements, canvas: { width: 800, height: 600 } })).code;
+
+// Syntax errors the TypeScript parser reports for the generated component
+const parseErrors = (code: string) =>
+  ts.transpileModule(code, {
+    fileName: 'Generated.tsx',
+    reportDiagnostics: true,
+    compilerOptions: { jsx: ts.JsxEmit.Preserve },
+  }).diagnostics?.map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n')) ?? [];
+
+describe('RuleBasedCodeGenerator', () => {
+  it('generates a component for an empty board', async () => {
+    const code = await generate([]);
+
+    expect(code).toContain('{/* Empty board */}');
+    expect(code).toMatch(/export default \w+;/);
+    expect(parseErrors(code)).toEqual([]);
+  });
+
+  it('turns a sketched form into a title, a labelled input and a button', async () => {
+    const code = await generate([
+      text('title', 'Sign up', 40, 30),
+      text('label', 'Email', 40, 100),
+      rectangle('input', 40, 130, 320, 40),
+      rectangle('button', 40, 200, 180, 40),
+      text('button-label', 'Create account', 50, 230),
+    ]);
+
+    expect(code).toMatch(/<h1[^>]*>Sign up<\/h1>/);
+    expect(code).toMatch(/<label[^>]*>Email<\/label>/);
+    expect(code).toContain('<input');
+    expect(code).toMatch(/<button[\s\S]*Create account[\s\S]*<\/button>/);
+    expect(parseErrors(code)).toEqual([]);
+  });
+
+  it('lays out aligned rows of boxes as a grid', async () => {
+    const code = await generate([
+      rectangle('a', 0, 0, 200, 150),
+      rectangle('b', 240, 0, 200, 150),
+      rectangle('c', 0, 200, 200, 150),
+      rectangle('d', 240, 200, 200, 150),
+    ]);
+
+    expect(code).toContain('grid grid-cols-2');
+  });
+
+  it('keeps text with JSX characters valid', async () => {
+    const code = await generate([text('title', 'Save <all> & {more} "now"', 40, 30)]);
+
+    expect(code).toContain('{"Save <all> & {more} \\"now\\""}');
+    expect(parseErrors(code)).toEqual([]);
+  });
+
+  it('keeps quoted stencil text valid in attributes', async () => {
+    const dropdown = createStencil('dropdown', { x: 40, y: 40 }, {});
+    dropdown.data.options = ['Say "hi"', 'Back\\slash'];
+    const image = createStencil('image', { x: 40, y: 120 }, {});
+    image.data.alt = 'The "hero" shot';
+    const code = await generate([dropdown, image]);
+
+    expect(code).toContain('<option value={"Say \\"hi\\""}>');
+    expect(code).toContain('aria-label={"The \\"hero\\" shot"}');
+    expect(parseErrors(code)).toEqual([]);
+  });
+
+  it('keeps a quoted input label valid as a placeholder', async () => {
+    const code = await generate([
+      rectangle('input', 40, 40, 320, 40),
+      text('hint', 'Type "yes"', 50, 70),
+    ]);
+
+    expect(code).toContain('placeholder={"Type \\"yes\\""}');
+    expect(parseErrors(code)).toEqual([]);
+  });
+
+  it('caps the rows of a table', async () => {
+    const table = createStencil('table', { x: 40, y: 40 }, {});
+    table.data.rows = 1e9;
+    const code = await generate([table]);
+
+    expect(code.match(/<tr className="border-t/g)).toHaveLength(MAX_TABLE_ROWS);
+  });
+});
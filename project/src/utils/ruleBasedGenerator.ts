@@ -0,0 +1,304 @@
+import { CanvasElement } from '../types';
+import { ComponentGenerator, DrawingData, GeneratedComponent, PageContext, generateFilename } from './aiIntegration';
+import { FrameLink } from './frames';
+import { ChildLayout, SceneNode, analyzeScene } from './layoutAnalyzer';
+import { addElementId } from './sourceMap';
+import { getTableColumns, getTableRows, stencilList, stencilText } from './stencils';
+
+type TextRole = 'title' | 'heading' | 'label' | 'body';
+
+const indent = (depth: number) => '  '.repeat(depth);
+
+// Text content is emitted as a JS string expression when it contains JSX-significant characters
+const jsxText = (text: string) => (/[{}<>&"']/.test(text) ? `{${JSON.stringify(text)}}` : text);
+
+const px = (value: number) => `[${Math.round(value)}px]`;
+
+// Maps a measured gap to the nearest Tailwind spacing step (4px units)
+const gapClass = (gap: number) => `gap-${Math.min(Math.max(Math.round(gap / 4), 2), 12)}`;
+
+const toComponentName = (filename: string) => {
+  const name = filename.replace(/\.\w+$/, '');
+  return /^[A-Z]/.test(name) ? name : `Generated${name.charAt(0).toUpperCase()}${name.slice(1)}`;
+};
+
+/**
+ * Generates a Tailwind React component from the drawing with simple layout rules,
+ * so code generation keeps working without any AI provider configured.
+ */
+export class RuleBasedCodeGenerator implements ComponentGenerator {
+  // Page navigation of the component being generated, consumed as its triggers are rendered
+  private pendingLinks: FrameLink[] = [];
+
+  async generateComponent(drawingData: DrawingData): Promise<GeneratedComponent> {
+    const { page } = drawingData;
+    const filename = page ? `${page.componentName}.tsx` : generateFilename(drawingData);
+    const componentName = page ? page.componentName : toComponentName(filename);
+    const scene = analyzeScene(drawingData.elements);
+    this.pendingLinks = page ? [...page.links] : [];
+    const body = this.renderChildren(scene.layout, 3, true);
+    const links = page ? this.renderRemainingLinks(page, 3) : '';
+
+    const code = [
+      '// Generated offline by the rule-based generator',
+      "import React from 'react';",
+      ...(page ? ["import type { PageProps } from '../App';"] : []),
+      '',
+      page
+        ? `const ${componentName}: React.FC<PageProps> = (${page.links.length > 0 ? '{ onNavigate }' : ''}) => {`
+        : `const ${componentName}: React.FC = () => {`,
+      '  return (',
+      `    <div className="w-full max-w-${px(drawingData.canvas.width)} mx-auto p-6 flex flex-col ${gapClass(scene.layout.gap)}">`,
+      body || `${indent(3)}{/* Empty ${page ? 'page' : 'board'} */}`,
+      ...(links ? [links] : []),
+      '    </div>',
+      '  );',
+      '};',
+      '',
+      `export default ${componentName};`,
+      '',
+    ].join('\n');
+
+    return {
+      code,
+      preview: `Preview of ${componentName} - generated from ${drawingData.elements.length} whiteboard elements without AI`,
+      filename,
+    };
+  }
+
+  private renderChildren(layout: ChildLayout, depth: number, isRoot = false): string {
+    const { rows } = layout;
+    const visibleCount = rows.flat().length;
+    let firstText = true;
+
+    const renderWithRole = (node: SceneNode, nodeDepth: number) => {
+      let role: TextRole = 'body';
+      if (node.role === 'label') {
+        role = 'label';
+      } else if (node.role === 'text' && firstText) {
+        role = isRoot ? 'title' : visibleCount > 1 ? 'heading' : 'body';
+        firstText = false;
+      }
+      // Tagged with the element id so the code can be traced back to the drawing
+      return addElementId(this.renderNode(node, nodeDepth, role), node.element.id);
+    };
+
+    if (layout.direction === 'grid') {
+      return [
+        `${indent(depth)}<div className="grid grid-cols-${layout.columns} ${gapClass(layout.gap)}">`,
+        ...rows.flat().map(node => renderWithRole(node, depth + 1)),
+        `${indent(depth)}</div>`,
+      ].join('\n');
+    }
+
+    return rows.map(row => {
+      if (row.length === 1) {
+        return renderWithRole(row[0], depth);
+      }
+      const gap = row.slice(1).map((node, index) => node.bounds.x - (row[index].bounds.x + row[index].bounds.width));
+      return [
+        `${indent(depth)}<div className="flex items-center ${gapClass(gap.reduce((sum, value) => sum + value, 0) / gap.length)}">`,
+        ...row.map(node => renderWithRole(node, depth + 1)),
+        `${indent(depth)}</div>`,
+      ].join('\n');
+    }).join('\n');
+  }
+
+  private renderNode(node: SceneNode, depth: number, role: TextRole): string {
+    const { element, bounds } = node;
+    const pad = indent(depth);
+
+    switch (node.role) {
+      case 'text':
+      case 'label':
+        return this.renderText(element.data.text || '', pad, role);
+      case 'avatar': {
+        const size = px(bounds.width);
+        const fill = this.fillClass(element, 'bg-gray-200');
+        return `${pad}<div className="w-${size} h-${size} rounded-full ${fill} flex-shrink-0" aria-label="Avatar" />`;
+      }
+      case 'divider':
+        return `${pad}<hr className="border-gray-300" />`;
+      case 'checkbox':
+      case 'radio': {
+        const checked = element.data.checked === true ? ' defaultChecked' : '';
+        const input = `<input type="${node.role}"${checked} className="w-4 h-4 text-blue-600 border-gray-300 focus:ring-blue-500" />`;
+        if (!node.label) return `${pad}${input}`;
+        return [
+          `${pad}<label className="flex items-center gap-2 text-sm text-gray-700">`,
+          `${pad}  ${input}`,
+          `${pad}  ${jsxText(node.label)}`,
+          `${pad}</label>`,
+        ].join('\n');
+      }
+      case 'dropdown': {
+        const placeholder = stencilText(element, 'placeholder');
+        return [
+          `${pad}<select defaultValue="" className="w-full px-3 py-2 border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500">`,
+          ...(placeholder ? [`${pad}  <option value="" disabled>${jsxText(placeholder)}</option>`] : []),
+          ...stencilList(element, 'options').map(option => `${pad}  <option value={${JSON.stringify(option)}}>${jsxText(option)}</option>`),
+          `${pad}</select>`,
+        ].join('\n');
+      }
+      case 'navbar':
+        return [
+          `${pad}<nav className="flex items-center justify-between px-6 py-3 bg-gray-50 border-b border-gray-200">`,
+          `${pad}  <span className="text-lg font-semibold text-gray-900">${jsxText(stencilText(element, 'title'))}</span>`,
+          `${pad}  <div className="flex items-center gap-6">`,
+          ...stencilList(element, 'links').map(link => {
+            // A connector labeled like one of the links navigates from that link
+            const target = this.takeLink(element.id, link);
+            const click = target ? ` onClick={(e) => { e.preventDefault(); onNavigate('${target.pageId}'); }}` : '';
+            return `${pad}    <a href="#"${click} className="text-sm text-gray-600 hover:text-gray-900">${jsxText(link)}</a>`;
+          }),
+          `${pad}  </div>`,
+          `${pad}</nav>`,
+        ].join('\n');
+      case 'image':
+        return `${pad}<div role="img" aria-label={${JSON.stringify(stencilText(element, 'alt', 'Image'))}} className="w-full h-${px(bounds.height)} bg-gray-100 rounded-md flex items-center justify-center text-sm text-gray-400">${jsxText(stencilText(element, 'alt', 'Image'))}</div>`;
+      case 'table':
+        return this.renderTable(element, depth);
+      case 'card':
+      case 'modal':
+        return this.renderPanel(node, depth);
+      case 'input':
+        return `${pad}<input type="text" placeholder={${JSON.stringify(node.label || 'Enter text')}} className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500" />`;
+      case 'button': {
+        const text = node.label || 'Button';
+        const target = this.takeLink(element.id);
+        const click = target ? `onNavigate('${target.pageId}')` : `console.log(${JSON.stringify(`${text} clicked`)})`;
+        const fill = this.fillClass(element, 'bg-blue-600');
+        const style = element.data.variant === 'secondary'
+          ? 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50 transition-colors'
+          : `${fill} text-white hover:opacity-90 transition-opacity`;
+        return [
+          `${pad}<button`,
+          `${pad}  type="button"`,
+          `${pad}  onClick={() => ${click}}`,
+          `${pad}  className="px-4 py-2 ${style} rounded-md"`,
+          `${pad}>`,
+          `${pad}  ${jsxText(text)}`,
+          `${pad}</button>`,
+        ].join('\n');
+      }
+      case 'container':
+      case 'box':
+        return this.renderContainer(node, depth);
+      default:
+        return '';
+    }
+  }
+
+  private renderText(text: string, pad: string, role: TextRole): string {
+    switch (role) {
+      case 'title':
+        return `${pad}<h1 className="text-2xl font-bold text-gray-900">${jsxText(text)}</h1>`;
+      case 'heading':
+        return `${pad}<h3 className="text-lg font-semibold text-gray-900">${jsxText(text)}</h3>`;
+      case 'label':
+        return `${pad}<label className="text-sm font-medium text-gray-700">${jsxText(text)}</label>`;
+      default:
+        return `${pad}<p className="text-gray-700">${jsxText(text)}</p>`;
+    }
+  }
+
+  private renderContainer(node: SceneNode, depth: number): string {
+    const { element, bounds, layout } = node;
+    const pad = indent(depth);
+    const fill = this.fillClass(element, 'bg-white');
+    const gap = layout.direction === 'column' ? gapClass(layout.gap) : 'gap-3';
+    const classes = `p-4 ${fill} border border-gray-200 rounded-lg shadow-sm flex flex-col ${gap} min-h-${px(bounds.height)}`;
+
+    if (layout.rows.length === 0) {
+      return `${pad}<div className="${classes}" />`;
+    }
+
+    return [
+      `${pad}<div className="${classes}">`,
+      this.renderChildren(layout, depth + 1),
+      `${pad}</div>`,
+    ].join('\n');
+  }
+
+  private renderTable(element: CanvasElement, depth: number): string {
+    const pad = indent(depth);
+    const columns = getTableColumns(element);
+    const rows = getTableRows(element);
+    const cells = columns.map(() => `${pad}      <td className="px-4 py-2 text-gray-700">—</td>`);
+
+    return [
+      `${pad}<table className="w-full text-sm text-left border border-gray-200">`,
+      `${pad}  <thead className="bg-gray-50">`,
+      `${pad}    <tr>`,
+      ...columns.map(column => `${pad}      <th className="px-4 py-2 font-semibold text-gray-900">${jsxText(column)}</th>`),
+      `${pad}    </tr>`,
+      `${pad}  </thead>`,
+      `${pad}  <tbody>`,
+      ...Array.from({ length: rows }, () => [`${pad}    <tr className="border-t border-gray-200">`, ...cells, `${pad}    </tr>`]).flat(),
+      `${pad}  </tbody>`,
+      `${pad}</table>`,
+    ].join('\n');
+  }
+
+  // Cards and modals: a titled panel around whatever was drawn inside them
+  private renderPanel(node: SceneNode, depth: number): string {
+    const { element, layout } = node;
+    const pad = indent(depth);
+    const isModal = element.type === 'modal';
+    const title = stencilText(element, 'title');
+    const body = stencilText(element, 'body');
+    const lines = [
+      isModal
+        ? `${pad}<div role="dialog" aria-modal="true" className="w-full max-w-lg p-6 bg-white rounded-lg shadow-xl flex flex-col gap-4">`
+        : `${pad}<div className="p-4 bg-white border border-gray-200 rounded-lg shadow-sm flex flex-col gap-3">`,
+    ];
+
+    if (title) lines.push(`${pad}  <h3 className="text-lg font-semibold text-gray-900">${jsxText(title)}</h3>`);
+    if (body) lines.push(`${pad}  <p className="text-sm text-gray-600">${jsxText(body)}</p>`);
+    if (layout.rows.length > 0) lines.push(this.renderChildren(layout, depth + 1));
+
+    const actions = stencilList(element, 'actions');
+    if (isModal && actions.length > 0) {
+      lines.push(`${pad}  <div className="flex justify-end gap-2">`);
+      actions.forEach((action, index) => {
+        const style = index === actions.length - 1
+          ? 'bg-blue-600 text-white hover:bg-blue-700'
+          : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50';
+        lines.push(`${pad}    <button type="button" className="px-4 py-2 ${style} rounded-md">${jsxText(action)}</button>`);
+      });
+      lines.push(`${pad}  </div>`);
+    }
+
+    lines.push(`${pad}</div>`);
+    return lines.join('\n');
+  }
+
+  // Removes and returns the first pending link triggered by the element, optionally only one with the given label
+  private takeLink(elementId: string, label?: string): FrameLink | undefined {
+    const index = this.pendingLinks.findIndex(link =>
+      link.elementId === elementId && (label === undefined || link.label?.toLowerCase() === label.toLowerCase())
+    );
+    return index < 0 ? undefined : this.pendingLinks.splice(index, 1)[0];
+  }
+
+  // Links whose trigger was not rendered as a button or nav link, e.g. ones drawn from the frame itself
+  private renderRemainingLinks(page: PageContext, depth: number): string {
+    if (this.pendingLinks.length === 0) return '';
+    const pad = indent(depth);
+    return [
+      `${pad}<div className="flex flex-wrap items-center gap-4">`,
+      ...this.pendingLinks.map(link => [
+        `${pad}  <button type="button" onClick={() => onNavigate('${link.pageId}')} className="text-sm text-blue-600 hover:underline">`,
+        `${pad}    ${jsxText(link.label || `Go to ${page.pageNames[link.pageId]}`)}`,
+        `${pad}  </button>`,
+      ].join('\n')),
+      `${pad}</div>`,
+    ].join('\n');
+  }
+
+  private fillClass(element: CanvasElement, fallback: string): string {
+    return element.fillColor && element.fillColor !== 'transparent'
+      ? `bg-[${element.fillColor}]`
+      : fallback;
+  }
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { Point } from './elementGeometry';
+import { recognizeStroke } from './shapeRecognizer';
+
+// Samples a closed polygon or an open polyline every few pixels, like a pointer would
+const trace = (corners: Point[], step = 4): Point[] =>
+  corners.slice(1).flatMap((corner, index) => {
+    const from = corners[index];
+    const count = Math.max(1, Math.round(Math.hypot(corner.x - from.x, corner.y - from.y) / step));
+    return Array.from({ length: count }, (_, i) => ({
+      x: from.x + ((corner.x - from.x) * i) / count,
+      y: from.y + ((corner.y - from.y) * i) / count,
+    }));
+  }).concat(corners[corners.length - 1]);
+
+const circle = (cx: number, cy: number, radius: number): Point[] =>
+  Array.from({ length: 61 }, (_, i) => ({
+    x: cx + radius * Math.cos((i / 60) * Math.PI * 2),
+    y: cy + radius * Math.sin((i / 60) * Math.PI * 2),
+  }));
+
+describe('recognizeStroke', () => {
+  it('recognizes a rectangle', () => {
+    const shape = recognizeStroke(trace([{ x: 0, y: 0 }, { x: 200, y: 0 }, { x: 200, y: 100 }, { x: 0, y: 100 }, { x: 0, y: 0 }]));
+    expect(shape?.kind).toBe('rectangle');
+    expect(shape?.bounds).toMatchObject({ width: 200, height: 100 });
+  });
+
+  it('recognizes an ellipse and a small circle as a radio button', () => {
+    expect(recognizeStroke(circle(100, 100, 80))?.kind).toBe('ellipse');
+    expect(recognizeStroke(circle(10, 10, 8))?.kind).toBe('radio');
+  });
+
+  it('recognizes a straight line', () => {
+    expect(recognizeStroke(trace([{ x: 0, y: 0 }, { x: 150, y: 2 }]))?.kind).toBe('line');
+  });
+
+  it('ignores dots and scribbles', () => {
+    expect(recognizeStroke([{ x: 0, y: 0 }, { x: 2, y: 1 }])).toBeNull();
+    expect(recognizeStroke(trace([{ x: 0, y: 0 }, { x: 100, y: 80 }, { x: 10, y: 90 }, { x: 120, y: 5 }, { x: 40, y: 60 }]))).toBeNull();
+  });
+});
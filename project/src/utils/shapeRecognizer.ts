@@ -0,0 +1,223 @@
+import { CanvasElement } from '../types';
+import { Bounds, Point, distanceToSegment } from './elementGeometry';
+
+export type RecognizedKind = 'rectangle' | 'ellipse' | 'line' | 'arrow' | 'triangle' | 'checkbox' | 'radio';
+
+export interface RecognizedShape {
+  kind: RecognizedKind;
+  // 0..1, how closely the stroke follows the ideal shape
+  confidence: number;
+  bounds: Bounds;
+  // Cleaned-up vertices for lines, arrows and triangles
+  points?: Point[];
+}
+
+export const SHAPE_LABELS: Record<RecognizedKind, string> = {
+  rectangle: 'rectangle',
+  ellipse: 'ellipse',
+  line: 'line',
+  arrow: 'arrow',
+  triangle: 'triangle',
+  checkbox: 'checkbox',
+  radio: 'radio button',
+};
+
+// Strokes smaller than this are dots and taps, not shapes
+const MIN_SIZE = 8;
+// Closed boxes and circles up to this size are read as form control glyphs
+const GLYPH_MAX_SIZE = 32;
+// A stroke is closed when its ends meet within this share of its size
+const CLOSE_RATIO = 0.25;
+// Chord to length ratio a stroke needs to count as straight
+const STRAIGHTNESS = 0.92;
+// Lines within this many degrees of an axis snap to it
+const SNAP_DEGREES = 8;
+// Largest mean fit error, relative to the shape size, that is still accepted
+const MAX_RECT_ERROR = 0.08;
+const MAX_ELLIPSE_ERROR = 0.12;
+const MAX_TRIANGLE_ERROR = 0.06;
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+const pathLength = (points: Point[]) =>
+  points.slice(1).reduce((sum, point, index) => sum + distance(points[index], point), 0);
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const boundsOf = (points: Point[]): Bounds => {
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+};
+
+// Ramer-Douglas-Peucker: keeps only the points that deviate more than `epsilon` from a straight run
+const simplify = (points: Point[], epsilon: number): Point[] => {
+  if (points.length < 3) return points;
+
+  let farthest = 0;
+  let index = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const d = distanceToSegment(points[i], points[0], points[points.length - 1]);
+    if (d > farthest) {
+      farthest = d;
+      index = i;
+    }
+  }
+
+  if (farthest <= epsilon) return [points[0], points[points.length - 1]];
+  return [...simplify(points.slice(0, index + 1), epsilon).slice(0, -1), ...simplify(points.slice(index), epsilon)];
+};
+
+// Straightens nearly horizontal or vertical lines
+const snapLine = (start: Point, end: Point): Point[] => {
+  const angle = Math.abs(Math.atan2(end.y - start.y, end.x - start.x) * 180 / Math.PI);
+  if (angle < SNAP_DEGREES || angle > 180 - SNAP_DEGREES) return [start, { x: end.x, y: start.y }];
+  if (Math.abs(angle - 90) < SNAP_DEGREES) return [start, { x: start.x, y: end.y }];
+  return [start, end];
+};
+
+const recognizeOpen = (points: Point[], bounds: Bounds): RecognizedShape | null => {
+  const start = points[0];
+  const end = points[points.length - 1];
+  const straightness = distance(start, end) / pathLength(points);
+
+  if (straightness >= STRAIGHTNESS) {
+    return { kind: 'line', confidence: straightness, bounds, points: snapLine(start, end) };
+  }
+
+  // An arrow drawn in one stroke is a straight shaft to the tip followed by a short head around it
+  // The head may pass through the tip more than once, so the shaft ends where the tip is first reached
+  const reach = Math.max(...points.map(point => distance(start, point)));
+  const tipIndex = points.findIndex(point => distance(start, point) >= reach * 0.97);
+  const tip = points[tipIndex];
+  const shaft = points.slice(0, tipIndex + 1);
+  const head = points.slice(tipIndex);
+  const shaftLength = distance(start, tip);
+  if (head.length < 3 || shaftLength < MIN_SIZE * 2) return null;
+
+  const shaftStraightness = shaftLength / pathLength(shaft);
+  const headReach = Math.max(...head.map(point => distance(point, tip)));
+  // The head must fold back behind the tip rather than continue past it
+  const direction = { x: (tip.x - start.x) / shaftLength, y: (tip.y - start.y) / shaftLength };
+  const foldsBack = head.some(point => (point.x - tip.x) * direction.x + (point.y - tip.y) * direction.y < -headReach * 0.3);
+
+  if (shaftStraightness >= STRAIGHTNESS && foldsBack && headReach >= shaftLength * 0.05 && headReach <= shaftLength * 0.5) {
+    return { kind: 'arrow', confidence: shaftStraightness, bounds, points: snapLine(start, tip) };
+  }
+  return null;
+};
+
+const rectangleError = (points: Point[], bounds: Bounds) => {
+  const right = bounds.x + bounds.width;
+  const bottom = bounds.y + bounds.height;
+  const errors = points.map(point =>
+    Math.min(point.x - bounds.x, right - point.x, point.y - bounds.y, bottom - point.y)
+  );
+  return average(errors) / ((bounds.width + bounds.height) / 2);
+};
+
+const ellipseError = (points: Point[], bounds: Bounds) => {
+  const rx = bounds.width / 2;
+  const ry = bounds.height / 2;
+  const cx = bounds.x + rx;
+  const cy = bounds.y + ry;
+  return average(points.map(point => Math.abs(Math.hypot((point.x - cx) / rx, (point.y - cy) / ry) - 1)));
+};
+
+// Returns the three corners of a triangular stroke, or null when it has a different number of corners
+const triangleCorners = (points: Point[], bounds: Bounds): Point[] | null => {
+  const size = Math.max(bounds.width, bounds.height);
+  const corners = simplify([...points, points[0]], size * 0.12).slice(0, -1);
+  // The stroke's start may sit in the middle of a side
+  const trimmed = corners.filter((corner, index) => {
+    const previous = corners[(index + corners.length - 1) % corners.length];
+    const next = corners[(index + 1) % corners.length];
+    return corners.length <= 3 || distanceToSegment(corner, previous, next) > size * 0.12;
+  });
+  return trimmed.length === 3 ? trimmed : null;
+};
+
+const triangleError = (points: Point[], corners: Point[], bounds: Bounds) =>
+  average(points.map(point =>
+    Math.min(...corners.map((corner, index) => distanceToSegment(point, corner, corners[(index + 1) % 3])))
+  )) / Math.max(bounds.width, bounds.height);
+
+const recognizeClosed = (points: Point[], bounds: Bounds): RecognizedShape | null => {
+  const candidates: RecognizedShape[] = [];
+
+  const rectError = rectangleError(points, bounds);
+  if (rectError <= MAX_RECT_ERROR) {
+    candidates.push({ kind: 'rectangle', confidence: 1 - rectError / MAX_RECT_ERROR, bounds });
+  }
+
+  const ovalError = ellipseError(points, bounds);
+  if (ovalError <= MAX_ELLIPSE_ERROR) {
+    candidates.push({ kind: 'ellipse', confidence: 1 - ovalError / MAX_ELLIPSE_ERROR, bounds });
+  }
+
+  const corners = triangleCorners(points, bounds);
+  if (corners) {
+    const error = triangleError(points, corners, bounds);
+    if (error <= MAX_TRIANGLE_ERROR) {
+      candidates.push({ kind: 'triangle', confidence: 1 - error / MAX_TRIANGLE_ERROR, bounds, points: corners });
+    }
+  }
+
+  const best = candidates.sort((a, b) => b.confidence - a.confidence)[0];
+  if (!best) return null;
+
+  // Small, roughly square boxes and circles are checkbox and radio glyphs
+  const aspect = bounds.width / bounds.height;
+  if (Math.max(bounds.width, bounds.height) <= GLYPH_MAX_SIZE && aspect > 0.7 && aspect < 1.4 && best.kind !== 'triangle') {
+    const side = (bounds.width + bounds.height) / 2;
+    return {
+      ...best,
+      kind: best.kind === 'rectangle' ? 'checkbox' : 'radio',
+      bounds: {
+        x: bounds.x + (bounds.width - side) / 2,
+        y: bounds.y + (bounds.height - side) / 2,
+        width: side,
+        height: side,
+      },
+    };
+  }
+
+  return best;
+};
+
+/**
+ * Classifies a finished freehand stroke as one of the structured shapes,
+ * or returns null when it does not clearly match any of them.
+ */
+export const recognizeStroke = (points: Point[]): RecognizedShape | null => {
+  if (points.length < 2) return null;
+
+  const bounds = boundsOf(points);
+  const size = Math.max(bounds.width, bounds.height);
+  if (size < MIN_SIZE) return null;
+
+  const closed = points.length > 4 && distance(points[0], points[points.length - 1]) <= size * CLOSE_RATIO;
+  return closed ? recognizeClosed(points, bounds) : recognizeOpen(points, bounds);
+};
+
+export const recognizeElement = (element: CanvasElement): RecognizedShape | null =>
+  element.type === 'path' && element.data.points ? recognizeStroke(element.data.points) : null;
+
+// Builds the structured element that replaces a recognized stroke; it keeps the stroke's id and style
+export const shapeToElement = (shape: RecognizedShape, stroke: CanvasElement): CanvasElement => {
+  const base = {
+    id: stroke.id,
+    timestamp: Date.now(),
+    color: stroke.color,
+    strokeWidth: stroke.strokeWidth,
+  };
+
+  if (shape.points) {
+    return { ...base, type: shape.kind, data: { points: shape.points }, position: shape.points[0] };
+  }
+
+  const { x, y, width, height } = shape.bounds;
+  return { ...base, type: shape.kind, data: {}, position: { x, y }, dimensions: { width, height } };
+};
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { CanvasElement } from '../types';
+import { addElementId, findRangeAtLine, findSourceRanges, removeUnknownElementIds } from './sourceMap';
+
+const code = [
+  'export default function Form() {',
+  '  return (',
+  '    <div data-wb-id="card" className="p-4">',
+  '      <button data-wb-id={"save"} onClick={() => count > 1}>Save</button>',
+  "      <input data-wb-id='email' />",
+  '      <div><div>nested</div></div>',
+  '    </div>',
+  '  );',
+  '}',
+].join('\n');
+
+describe('findSourceRanges', () => {
+  it('finds the lines of each tagged element', () => {
+    expect(findSourceRanges(code)).toEqual([
+      { elementId: 'card', file: undefined, startLine: 3, endLine: 7 },
+      { elementId: 'save', file: undefined, startLine: 4, endLine: 4 },
+      { elementId: 'email', file: undefined, startLine: 5, endLine: 5 },
+    ]);
+  });
+
+  it('picks the innermost element at a line', () => {
+    const ranges = findSourceRanges(code);
+    expect(findRangeAtLine(ranges, undefined, 4)?.elementId).toBe('save');
+    expect(findRangeAtLine(ranges, undefined, 6)?.elementId).toBe('card');
+    expect(findRangeAtLine(ranges, undefined, 1)).toBeUndefined();
+  });
+});
+
+describe('addElementId', () => {
+  it('tags the first tag of a snippet', () => {
+    expect(addElementId('  <div className="x"><span /></div>', 'a')).toBe('  <div data-wb-id="a" className="x"><span /></div>');
+  });
+});
+
+describe('removeUnknownElementIds', () => {
+  it('drops ids that are not on the board', () => {
+    const elements = [{ id: 'card' }] as CanvasElement[];
+    const ranges = findSourceRanges(removeUnknownElementIds(code, elements));
+    expect(ranges.map(range => range.elementId)).toEqual(['card']);
+  });
+});
@@ -0,0 +1,99 @@
+import { CanvasElement } from '../types';
+import { splitFiles } from './generatedFiles';
+
+/**
+ * Generated markup carries the id of the drawn element it came from in this attribute.
+ * Hyphenated JSX attributes are not type checked and are passed through to the DOM,
+ * so it works the same for every output target.
+ */
+export const ELEMENT_ID_ATTRIBUTE = 'data-wb-id';
+
+// Lines of the markup generated from one element; lines are 1-based and inclusive
+export interface SourceRange {
+  elementId: string;
+  // Set for page sets, where the code is split into files
+  file?: string;
+  startLine: number;
+  endLine: number;
+}
+
+// Matches data-wb-id="id", data-wb-id='id' and data-wb-id={"id"}
+const ATTRIBUTE_PATTERN = new RegExp(`\\s${ELEMENT_ID_ATTRIBUTE}=\\{?(["'])([^"']*)\\1\\}?`, 'g');
+
+// Index just past the end of the tag starting at `start`, skipping `>` inside quotes and JSX expressions
+const findTagEnd = (code: string, start: number): { end: number; selfClosing: boolean } => {
+  let quote = '';
+  let braces = 0;
+  for (let index = start + 1; index < code.length; index++) {
+    const char = code[index];
+    if (quote) {
+      if (char === quote) quote = '';
+    } else if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    } else if (char === '{') {
+      braces++;
+    } else if (char === '}') {
+      braces--;
+    } else if (char === '>' && braces <= 0) {
+      return { end: index + 1, selfClosing: code[index - 1] === '/' };
+    }
+  }
+  return { end: code.length, selfClosing: true };
+};
+
+// Index just past the closing tag of the element whose opening tag ends at `from`
+const findClosingTag = (code: string, name: string, from: number): number => {
+  const tags = new RegExp(`<(/?)${name.replace(/[.$]/g, '\\$&')}(?=[\\s/>])`, 'g');
+  tags.lastIndex = from;
+  let depth = 0;
+  for (let match = tags.exec(code); match; match = tags.exec(code)) {
+    const { end, selfClosing } = findTagEnd(code, match.index);
+    if (match[1]) {
+      if (depth === 0) return end;
+      depth--;
+    } else if (!selfClosing) {
+      depth++;
+    }
+    tags.lastIndex = end;
+  }
+  return code.length;
+};
+
+const findRangesInFile = (code: string, file?: string): SourceRange[] => {
+  const lineOf = (index: number) => code.slice(0, index).split('\n').length;
+  return [...code.matchAll(ATTRIBUTE_PATTERN)].flatMap(match => {
+    const start = code.lastIndexOf('<', match.index);
+    const name = code.slice(start + 1).match(/^[A-Za-z][\w.:-]*/)?.[0];
+    if (start < 0 || !name) return [];
+
+    const { end, selfClosing } = findTagEnd(code, start);
+    return [{
+      elementId: match[2],
+      file,
+      startLine: lineOf(start),
+      endLine: lineOf(selfClosing ? end : findClosingTag(code, name, end)),
+    }];
+  });
+};
+
+// Where each element's markup is in the generated code, read from its id attributes
+export const findSourceRanges = (code: string): SourceRange[] => {
+  const files = splitFiles(code);
+  return files.length > 0
+    ? files.flatMap(file => findRangesInFile(file.code, file.path))
+    : findRangesInFile(code);
+};
+
+// The innermost markup around a line, so hovering a button inside a card picks the button
+export const findRangeAtLine = (ranges: SourceRange[], file: string | undefined, line: number): SourceRange | undefined =>
+  ranges
+    .filter(range => range.file === file && range.startLine <= line && line <= range.endLine)
+    .sort((a, b) => (a.endLine - a.startLine) - (b.endLine - b.startLine))[0];
+
+// Tags the first element of a generated snippet with the id of the drawn element it renders
+export const addElementId = (markup: string, elementId: string): string =>
+  markup.replace(/^(\s*<[A-Za-z][\w.]*)/, `$1 ${ELEMENT_ID_ATTRIBUTE}="${elementId}"`);
+
+// Drops ids that are not on the board, since models sometimes make them up
+export const removeUnknownElementIds = (code: string, elements: CanvasElement[]): string =>
+  code.replace(ATTRIBUTE_PATTERN, (attribute, _quote, id) => (elements.some(element => element.id === id) ? attribute : ''));
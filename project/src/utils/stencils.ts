@@ -0,0 +1,376 @@
+import { CanvasElement, StencilKind } from '../types';
+import { Bounds, Point, getElementBounds } from './elementGeometry';
+import { createElementId } from './elementIds';
+
+export interface StencilDefinition {
+  label: string;
+  defaultSize: { width: number; height: number };
+  defaultData: CanvasElement['data'];
+  // Data field edited by double-clicking the stencil; list fields are edited as comma separated text
+  editField: { key: string; prompt: string; list?: boolean };
+}
+
+export const STENCILS: Record<StencilKind, StencilDefinition> = {
+  button: {
+    label: 'Button',
+    defaultSize: { width: 120, height: 40 },
+    defaultData: { label: 'Button', variant: 'primary' },
+    editField: { key: 'label', prompt: 'Button label:' },
+  },
+  input: {
+    label: 'Input',
+    defaultSize: { width: 240, height: 40 },
+    defaultData: { placeholder: 'Enter text' },
+    editField: { key: 'placeholder', prompt: 'Placeholder text:' },
+  },
+  checkbox: {
+    label: 'Checkbox',
+    defaultSize: { width: 140, height: 20 },
+    defaultData: { label: 'Remember me', checked: false },
+    editField: { key: 'label', prompt: 'Checkbox label:' },
+  },
+  dropdown: {
+    label: 'Dropdown',
+    defaultSize: { width: 200, height: 40 },
+    defaultData: { placeholder: 'Select an option', options: ['Option 1', 'Option 2', 'Option 3'] },
+    editField: { key: 'options', prompt: 'Options (comma separated):', list: true },
+  },
+  navbar: {
+    label: 'Navbar',
+    defaultSize: { width: 640, height: 56 },
+    defaultData: { title: 'Brand', links: ['Home', 'About', 'Contact'] },
+    editField: { key: 'links', prompt: 'Navigation links (comma separated):', list: true },
+  },
+  card: {
+    label: 'Card',
+    defaultSize: { width: 280, height: 180 },
+    defaultData: { title: 'Card title', body: 'Short description' },
+    editField: { key: 'title', prompt: 'Card title:' },
+  },
+  image: {
+    label: 'Image',
+    defaultSize: { width: 240, height: 160 },
+    defaultData: { alt: 'Image' },
+    editField: { key: 'alt', prompt: 'Image description:' },
+  },
+  table: {
+    label: 'Table',
+    defaultSize: { width: 400, height: 160 },
+    defaultData: { columns: ['Name', 'Email', 'Role'], rows: 3 },
+    editField: { key: 'columns', prompt: 'Column headers (comma separated):', list: true },
+  },
+  modal: {
+    label: 'Modal',
+    defaultSize: { width: 400, height: 260 },
+    defaultData: { title: 'Dialog title', actions: ['Cancel', 'Confirm'] },
+    editField: { key: 'title', prompt: 'Dialog title:' },
+  },
+};
+
+export const STENCIL_KINDS = Object.keys(STENCILS) as StencilKind[];
+
+export const isStencil = (element: CanvasElement): boolean =>
+  STENCIL_KINDS.includes(element.type as StencilKind);
+
+export const stencilText = (element: CanvasElement, key: string, fallback = ''): string => {
+  const value = element.data[key];
+  return typeof value === 'string' ? value : fallback;
+};
+
+export const stencilList = (element: CanvasElement, key: string): string[] => {
+  const value = element.data[key];
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+};
+
+// Boards come from files and peers, so table sizes are capped before anything loops over them
+export const MAX_TABLE_ROWS = 100;
+export const MAX_TABLE_COLUMNS = 20;
+
+export const getTableRows = (element: CanvasElement): number => {
+  const rows = element.data.rows;
+  return typeof rows === 'number' && Number.isFinite(rows) ? Math.min(Math.max(Math.round(rows), 1), MAX_TABLE_ROWS) : 3;
+};
+
+export const getTableColumns = (element: CanvasElement): string[] =>
+  stencilList(element, 'columns').slice(0, MAX_TABLE_COLUMNS);
+
+export const createStencil = (
+  kind: StencilKind,
+  position: Point,
+  style: Pick<CanvasElement, 'color' | 'strokeWidth'>
+): CanvasElement => ({
+  id: createElementId(),
+  type: kind,
+  data: JSON.parse(JSON.stringify(STENCILS[kind].defaultData)), // Deep clone
+  position,
+  dimensions: { ...STENCILS[kind].defaultSize },
+  timestamp: Date.now(),
+  ...style,
+});
+
+export const getStencilField = (element: CanvasElement): string => {
+  const { key, list } = STENCILS[element.type as StencilKind].editField;
+  return list ? stencilList(element, key).join(', ') : stencilText(element, key);
+};
+
+export const setStencilField = (element: CanvasElement, text: string): CanvasElement => {
+  const { key, list } = STENCILS[element.type as StencilKind].editField;
+  const value = list ? text.split(',').map(item => item.trim()).filter(Boolean) : text.trim();
+  return { ...element, data: { ...element.data, [key]: value } };
+};
+
+// Drawing instructions shared by the canvas renderer and the SVG export
+export type StencilPrimitive =
+  | { type: 'rect'; x: number; y: number; width: number; height: number; radius?: number; fill?: string; stroke?: boolean }
+  | { type: 'ellipse'; cx: number; cy: number; rx: number; ry: number; fill?: string; stroke?: boolean }
+  | { type: 'polyline'; points: Point[]; color?: string }
+  | { type: 'text'; x: number; y: number; text: string; size: number; bold?: boolean; color?: string; align?: 'left' | 'center' | 'right' };
+
+const MUTED_FILL = '#f3f4f6';
+const PLACEHOLDER_COLOR = '#9ca3af';
+const SECONDARY_TEXT_COLOR = '#6b7280';
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Rough text width, matching the estimate used for hit-testing text elements
+const textWidth = (text: string, size: number) => text.length * size * 0.55;
+
+// Shortens text with an ellipsis so it fits in `width`
+const fitText = (text: string, width: number, size: number): string => {
+  const maxChars = Math.floor(width / (size * 0.55));
+  if (text.length <= maxChars) return text;
+  return maxChars > 1 ? `${text.slice(0, maxChars - 1)}…` : '';
+};
+
+// A checkbox or radio glyph is a square at the left of its bounds, followed by its label
+const toggleParts = (element: CanvasElement, bounds: Bounds, color: string): StencilPrimitive[] => {
+  const side = Math.min(bounds.width, bounds.height);
+  const top = bounds.y + (bounds.height - side) / 2;
+  const checked = element.data.checked === true;
+  const parts: StencilPrimitive[] = [];
+
+  if (element.type === 'radio') {
+    const center = { x: bounds.x + side / 2, y: top + side / 2 };
+    parts.push({ type: 'ellipse', cx: center.x, cy: center.y, rx: side / 2, ry: side / 2 });
+    if (checked) {
+      parts.push({ type: 'ellipse', cx: center.x, cy: center.y, rx: side / 4, ry: side / 4, fill: color, stroke: false });
+    }
+  } else {
+    parts.push({ type: 'rect', x: bounds.x, y: top, width: side, height: side, radius: side * 0.2, fill: checked ? color : undefined });
+    if (checked) {
+      parts.push({
+        type: 'polyline',
+        color: '#ffffff',
+        points: [
+          { x: bounds.x + side * 0.25, y: top + side * 0.5 },
+          { x: bounds.x + side * 0.45, y: top + side * 0.7 },
+          { x: bounds.x + side * 0.75, y: top + side * 0.3 },
+        ],
+      });
+    }
+  }
+
+  const label = stencilText(element, 'label');
+  if (label && bounds.width > side + 16) {
+    const size = clamp(side * 0.8, 10, 16);
+    const x = bounds.x + side + 8;
+    parts.push({ type: 'text', x, y: top + side / 2, text: fitText(label, bounds.x + bounds.width - x, size), size });
+  }
+  return parts;
+};
+
+/**
+ * Wireframe drawing of a stencil or form control glyph in world coordinates.
+ * Returns an empty list for element types that are not drawn this way.
+ */
+export const getStencilPrimitives = (element: CanvasElement): StencilPrimitive[] => {
+  const bounds = getElementBounds(element);
+  const { x, y, width, height } = bounds;
+  const color = element.color || '#374151';
+  const middle = y + height / 2;
+
+  switch (element.type) {
+    case 'checkbox':
+    case 'radio':
+      return toggleParts(element, bounds, color);
+    case 'button': {
+      const primary = element.data.variant !== 'secondary';
+      const size = clamp(height * 0.4, 10, 16);
+      return [
+        { type: 'rect', x, y, width, height, radius: Math.min(8, height / 4), fill: primary ? color : undefined },
+        {
+          type: 'text',
+          x: x + width / 2,
+          y: middle,
+          text: fitText(stencilText(element, 'label', 'Button'), width - 16, size),
+          size,
+          bold: true,
+          color: primary ? '#ffffff' : color,
+          align: 'center',
+        },
+      ];
+    }
+    case 'input': {
+      const size = clamp(height * 0.35, 10, 14);
+      return [
+        { type: 'rect', x, y, width, height, radius: 4 },
+        { type: 'text', x: x + 10, y: middle, text: fitText(stencilText(element, 'placeholder'), width - 20, size), size, color: PLACEHOLDER_COLOR },
+      ];
+    }
+    case 'dropdown': {
+      const size = clamp(height * 0.35, 10, 14);
+      const caret = { x: x + width - 16, y: middle };
+      const value = stencilText(element, 'placeholder') || stencilList(element, 'options')[0] || '';
+      return [
+        { type: 'rect', x, y, width, height, radius: 4 },
+        { type: 'text', x: x + 10, y: middle, text: fitText(value, width - 40, size), size, color: PLACEHOLDER_COLOR },
+        {
+          type: 'polyline',
+          points: [{ x: caret.x - 5, y: caret.y - 2.5 }, { x: caret.x, y: caret.y + 2.5 }, { x: caret.x + 5, y: caret.y - 2.5 }],
+        },
+      ];
+    }
+    case 'navbar': {
+      const size = clamp(height * 0.3, 10, 16);
+      const title = stencilText(element, 'title');
+      const parts: StencilPrimitive[] = [
+        { type: 'rect', x, y, width, height, fill: MUTED_FILL },
+        { type: 'text', x: x + 16, y: middle, text: title, size, bold: true },
+      ];
+      // Links are laid out from the right edge until they would run into the title
+      let right = x + width - 16;
+      const limit = x + 32 + textWidth(title, size);
+      [...stencilList(element, 'links')].reverse().forEach(link => {
+        const linkWidth = textWidth(link, size);
+        if (right - linkWidth < limit) return;
+        parts.push({ type: 'text', x: right, y: middle, text: link, size, align: 'right' });
+        right -= linkWidth + 20;
+      });
+      return parts;
+    }
+    case 'card': {
+      const parts: StencilPrimitive[] = [
+        { type: 'rect', x, y, width, height, radius: 8 },
+        { type: 'text', x: x + 16, y: y + 24, text: fitText(stencilText(element, 'title'), width - 32, 16), size: 16, bold: true },
+      ];
+      const body = stencilText(element, 'body');
+      if (body && height > 70) {
+        parts.push({ type: 'text', x: x + 16, y: y + 50, text: fitText(body, width - 32, 13), size: 13, color: SECONDARY_TEXT_COLOR });
+      }
+      return parts;
+    }
+    case 'image':
+      return [
+        { type: 'rect', x, y, width, height, fill: MUTED_FILL },
+        { type: 'polyline', points: [{ x, y }, { x: x + width, y: y + height }], color: PLACEHOLDER_COLOR },
+        { type: 'polyline', points: [{ x: x + width, y }, { x, y: y + height }], color: PLACEHOLDER_COLOR },
+        {
+          type: 'text',
+          x: x + width / 2,
+          y: y + height - 12,
+          text: fitText(stencilText(element, 'alt'), width - 16, 12),
+          size: 12,
+          color: SECONDARY_TEXT_COLOR,
+          align: 'center',
+        },
+      ];
+    case 'table': {
+      const columns = getTableColumns(element);
+      const columnCount = Math.max(columns.length, 1);
+      const rows = getTableRows(element);
+      const headerHeight = Math.min(32, height / (rows + 1));
+      const rowHeight = (height - headerHeight) / rows;
+      const columnWidth = width / columnCount;
+      const parts: StencilPrimitive[] = [
+        { type: 'rect', x, y, width, height: headerHeight, fill: MUTED_FILL, stroke: false },
+        { type: 'rect', x, y, width, height },
+      ];
+      for (let row = 0; row < rows; row++) {
+        const lineY = y + headerHeight + row * rowHeight;
+        parts.push({ type: 'polyline', points: [{ x, y: lineY }, { x: x + width, y: lineY }] });
+      }
+      for (let column = 1; column < columnCount; column++) {
+        const lineX = x + column * columnWidth;
+        parts.push({ type: 'polyline', points: [{ x: lineX, y }, { x: lineX, y: y + height }] });
+      }
+      columns.forEach((column, index) => {
+        parts.push({
+          type: 'text',
+          x: x + index * columnWidth + 8,
+          y: y + headerHeight / 2,
+          text: fitText(column, columnWidth - 16, 13),
+          size: 13,
+          bold: true,
+        });
+      });
+      return parts;
+    }
+    case 'modal': {
+      const close = { x: x + width - 24, y: y + 24 };
+      const parts: StencilPrimitive[] = [
+        { type: 'rect', x, y, width, height, radius: 8 },
+        { type: 'text', x: x + 20, y: y + 24, text: fitText(stencilText(element, 'title'), width - 64, 16), size: 16, bold: true },
+        { type: 'polyline', points: [{ x: close.x - 5, y: close.y - 5 }, { x: close.x + 5, y: close.y + 5 }] },
+        { type: 'polyline', points: [{ x: close.x + 5, y: close.y - 5 }, { x: close.x - 5, y: close.y + 5 }] },
+        { type: 'polyline', points: [{ x, y: y + 48 }, { x: x + width, y: y + 48 }], color: '#e5e7eb' },
+      ];
+      // Footer actions are right-aligned; the last one is the primary action
+      const actions = stencilList(element, 'actions');
+      let right = x + width - 16;
+      [...actions].reverse().forEach((action, index) => {
+        const buttonWidth = Math.max(72, textWidth(action, 13) + 24);
+        if (right - buttonWidth < x + 16 || height < 120) return;
+        const primary = index === 0;
+        parts.push(
+          { type: 'rect', x: right - buttonWidth, y: y + height - 48, width: buttonWidth, height: 32, radius: 6, fill: primary ? color : undefined },
+          {
+            type: 'text',
+            x: right - buttonWidth / 2,
+            y: y + height - 32,
+            text: action,
+            size: 13,
+            bold: true,
+            color: primary ? '#ffffff' : color,
+            align: 'center',
+          }
+        );
+        right -= buttonWidth + 8;
+      });
+      return parts;
+    }
+    default:
+      return [];
+  }
+};
+
+// One-line description of a stencil's semantics for the code generation prompt
+export const describeStencil = (element: CanvasElement): string => {
+  const quoted = (key: string) => `"${stencilText(element, key)}"`;
+  const list = (key: string) => stencilList(element, key).join(', ') || 'none';
+
+  switch (element.type) {
+    case 'button':
+      return `button labeled ${quoted('label')} (${element.data.variant === 'secondary' ? 'secondary' : 'primary'})`;
+    case 'input':
+      return `text input with placeholder ${quoted('placeholder')}`;
+    case 'checkbox': {
+      const label = stencilText(element, 'label');
+      return `checkbox${label ? ` labeled "${label}"` : ''} (${element.data.checked === true ? 'checked' : 'unchecked'})`;
+    }
+    case 'dropdown':
+      return `dropdown select with placeholder ${quoted('placeholder')} and options: ${list('options')}`;
+    case 'navbar':
+      return `navigation bar titled ${quoted('title')} with links: ${list('links')}`;
+    case 'card':
+      return `card titled ${quoted('title')} with text ${quoted('body')}`;
+    case 'image':
+      return `image placeholder showing ${quoted('alt')}`;
+    case 'table': {
+      return `table with columns ${getTableColumns(element).join(', ') || 'none'} and ${getTableRows(element)} rows`;
+    }
+    case 'modal':
+      return `modal dialog titled ${quoted('title')} with actions: ${list('actions')}`;
+    default:
+      return element.type;
+  }
+};
@@ -0,0 +1,42 @@
+import { CanvasElement, LegendEntry } from '../types';
+
+export const LEGEND_PROPERTY_LABELS: Record<LegendEntry['property'], string> = {
+  stroke: 'Stroke color',
+  fill: 'Fill color',
+  strokeWidth: 'Stroke width',
+};
+
+const sameColor = (a?: string, b?: string) => !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+export const describeLegendStyle = (entry: LegendEntry): string => {
+  switch (entry.property) {
+    case 'stroke':
+      return `${entry.color} stroke`;
+    case 'fill':
+      return `${entry.color} fill`;
+    case 'strokeWidth':
+      return `stroke of ${entry.width}px or more`;
+  }
+};
+
+/**
+ * Legend entries that apply to an element. Of several stroke width entries only the
+ * thickest one the element reaches applies, so "thick" and "very thick" can coexist.
+ */
+export const getLegendMatches = (element: CanvasElement, legend: LegendEntry[] = []): LegendEntry[] => {
+  const widthMatch = legend
+    .filter(entry => entry.property === 'strokeWidth' && entry.width !== undefined && (element.strokeWidth ?? 0) >= entry.width)
+    .sort((a, b) => (b.width ?? 0) - (a.width ?? 0))[0];
+
+  return legend.filter(entry =>
+    (entry.property === 'stroke' && sameColor(entry.color, element.color)) ||
+    (entry.property === 'fill' && element.fillColor !== 'transparent' && sameColor(entry.color, element.fillColor)) ||
+    entry === widthMatch
+  );
+};
+
+// Semantic hint for the prompt, e.g. "error / danger (#ef4444 stroke)"; empty when nothing matches
+export const describeStyleIntent = (element: CanvasElement, legend: LegendEntry[] = []): string =>
+  getLegendMatches(element, legend)
+    .map(entry => `${entry.meaning} (${describeLegendStyle(entry)})`)
+    .join('; ');
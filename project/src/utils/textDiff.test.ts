@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { collapseUnchanged, diffLines, diffStats, toSplitRows } from './textDiff';
+
+describe('diffLines', () => {
+  it('keeps common lines and numbers both sides', () => {
+    expect(diffLines('a\nb\nc', 'a\nx\nc')).toEqual([
+      { type: 'unchanged', text: 'a', oldLine: 1, newLine: 1 },
+      { type: 'removed', text: 'b', oldLine: 2 },
+      { type: 'added', text: 'x', newLine: 2 },
+      { type: 'unchanged', text: 'c', oldLine: 3, newLine: 3 },
+    ]);
+  });
+
+  it('reports identical texts as unchanged', () => {
+    const lines = diffLines('a\nb', 'a\nb');
+    expect(diffStats(lines)).toEqual({ added: 0, removed: 0 });
+  });
+
+  it('reconstructs both texts from the diff', () => {
+    const oldText = 'one\ntwo\nthree\nfour\nfive';
+    const newText = 'zero\none\nthree\nfour\nfour and a half\nfive';
+    const lines = diffLines(oldText, newText);
+
+    expect(lines.filter(line => line.type !== 'added').map(line => line.text).join('\n')).toBe(oldText);
+    expect(lines.filter(line => line.type !== 'removed').map(line => line.text).join('\n')).toBe(newText);
+    expect(diffStats(lines)).toEqual({ added: 2, removed: 1 });
+  });
+});
+
+describe('collapseUnchanged', () => {
+  it('folds unchanged lines away from changes', () => {
+    const oldText = Array.from({ length: 10 }, (_, index) => `line ${index}`).join('\n');
+    const rows = collapseUnchanged(diffLines(oldText, `${oldText}\nextra`), 2);
+
+    expect(rows[0]).toEqual({ type: 'collapsed', count: 8 });
+    expect(rows.slice(1).map(row => row.type)).toEqual(['unchanged', 'unchanged', 'added']);
+  });
+});
+
+describe('toSplitRows', () => {
+  it('pairs removals with the additions that replace them', () => {
+    const rows = toSplitRows(diffLines('a\nb\nc', 'a\nx\ny\nc'));
+
+    expect(rows).toHaveLength(4);
+    expect(rows[1]).toEqual({
+      type: 'pair',
+      left: { type: 'removed', text: 'b', oldLine: 2 },
+      right: { type: 'added', text: 'x', newLine: 2 },
+    });
+    expect(rows[2]).toEqual({ type: 'pair', left: undefined, right: { type: 'added', text: 'y', newLine: 3 } });
+  });
+});
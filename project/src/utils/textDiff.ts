@@ -0,0 +1,116 @@
+export interface DiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  text: string;
+  // 1-based line numbers in the old and new text
+  oldLine?: number;
+  newLine?: number;
+}
+
+export type DiffRow = DiffLine | { type: 'collapsed'; count: number };
+
+export type SplitDiffRow =
+  | { type: 'collapsed'; count: number }
+  | { type: 'pair'; left?: DiffLine; right?: DiffLine };
+
+// Line diff based on the longest common subsequence of the two texts
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+  const oldLines = oldText.split('\n');
+  const newLines = newText.split('\n');
+  const rows = oldLines.length;
+  const cols = newLines.length;
+
+  // lengths[i][j] = LCS length of oldLines[i..] and newLines[j..]
+  const lengths: Uint32Array[] = Array.from({ length: rows + 1 }, () => new Uint32Array(cols + 1));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i][j] = oldLines[i] === newLines[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (oldLines[i] === newLines[j]) {
+      result.push({ type: 'unchanged', text: oldLines[i], oldLine: i + 1, newLine: j + 1 });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      result.push({ type: 'removed', text: oldLines[i], oldLine: i + 1 });
+      i++;
+    } else {
+      result.push({ type: 'added', text: newLines[j], newLine: j + 1 });
+      j++;
+    }
+  }
+  while (i < rows) {
+    result.push({ type: 'removed', text: oldLines[i], oldLine: i + 1 });
+    i++;
+  }
+  while (j < cols) {
+    result.push({ type: 'added', text: newLines[j], newLine: j + 1 });
+    j++;
+  }
+
+  return result;
+};
+
+// Folds runs of unchanged lines that are further than `context` lines from any change
+export const collapseUnchanged = (lines: DiffLine[], context = 3): DiffRow[] => {
+  const isNearChange = (index: number) =>
+    lines
+      .slice(Math.max(0, index - context), index + context + 1)
+      .some(line => line.type !== 'unchanged');
+
+  const rows: DiffRow[] = [];
+  lines.forEach((line, index) => {
+    if (line.type !== 'unchanged' || isNearChange(index)) {
+      rows.push(line);
+      return;
+    }
+    const last = rows[rows.length - 1];
+    if (last && last.type === 'collapsed') {
+      last.count++;
+    } else {
+      rows.push({ type: 'collapsed', count: 1 });
+    }
+  });
+
+  return rows;
+};
+
+// Lines up removals with the additions that replace them for a side-by-side view
+export const toSplitRows = (rows: DiffRow[]): SplitDiffRow[] => {
+  const result: SplitDiffRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+
+  const flush = () => {
+    for (let index = 0; index < Math.max(removed.length, added.length); index++) {
+      result.push({ type: 'pair', left: removed[index], right: added[index] });
+    }
+    removed = [];
+    added = [];
+  };
+
+  rows.forEach(row => {
+    if (row.type === 'removed') {
+      removed.push(row);
+    } else if (row.type === 'added') {
+      added.push(row);
+    } else {
+      flush();
+      result.push(row.type === 'collapsed' ? row : { type: 'pair', left: row, right: row });
+    }
+  });
+  flush();
+
+  return result;
+};
+
+export const diffStats = (lines: DiffLine[]) => ({
+  added: lines.filter(line => line.type === 'added').length,
+  removed: lines.filter(line => line.type === 'removed').length,
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { createZip } from './zipArchive';
+
+// Reads the entries back through the central directory, the way unzip tools do
+const readZip = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const decoder = new TextDecoder();
+  const end = bytes.length - 22;
+  expect(view.getUint32(end, true)).toBe(0x06054b50);
+
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  const entries: { path: string; content: string; crc: number }[] = [];
+  for (let index = 0; index < count; index++) {
+    expect(view.getUint32(position, true)).toBe(0x02014b50);
+    const crc = view.getUint32(position + 16, true);
+    const size = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const offset = view.getUint32(position + 42, true);
+    const path = decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength));
+
+    expect(view.getUint32(offset, true)).toBe(0x04034b50);
+    const dataStart = offset + 30 + view.getUint16(offset + 26, true);
+    entries.push({ path, content: decoder.decode(bytes.subarray(dataStart, dataStart + size)), crc });
+    position += 46 + nameLength;
+  }
+  return entries;
+};
+
+describe('createZip', () => {
+  it('stores each file so it can be read back', async () => {
+    const entries = await readZip(createZip([
+      { path: 'package.json', content: '{}' },
+      { path: 'src/Größe.tsx', content: 'export default () => <p>héllo</p>;\n' },
+    ]));
+
+    expect(entries.map(({ path, content }) => ({ path, content }))).toEqual([
+      { path: 'package.json', content: '{}' },
+      { path: 'src/Größe.tsx', content: 'export default () => <p>héllo</p>;\n' },
+    ]);
+  });
+
+  it('writes the CRC-32 of the contents', async () => {
+    const [entry] = await readZip(createZip([{ path: 'hello.txt', content: 'hello' }]));
+    expect(entry.crc).toBe(0x3610a686);
+  });
+
+  it('writes an empty archive', async () => {
+    expect(await readZip(createZip([]))).toEqual([]);
+  });
+});